@@ -15,12 +15,23 @@ export async function initDatabase() {
   // Create enums (if they don't exist)
   await client`
     DO $$ BEGIN
-      CREATE TYPE shapeshyft.llm_provider AS ENUM ('openai', 'gemini', 'anthropic', 'llm_server');
+      CREATE TYPE shapeshyft.llm_provider AS ENUM ('openai', 'gemini', 'anthropic', 'llm_server', 'azure_openai', 'bedrock', 'ollama');
     EXCEPTION
       WHEN duplicate_object THEN null;
     END $$;
   `;
 
+  // Migration: Add providers to existing enums
+  await client`
+    ALTER TYPE shapeshyft.llm_provider ADD VALUE IF NOT EXISTS 'azure_openai'
+  `;
+  await client`
+    ALTER TYPE shapeshyft.llm_provider ADD VALUE IF NOT EXISTS 'bedrock'
+  `;
+  await client`
+    ALTER TYPE shapeshyft.llm_provider ADD VALUE IF NOT EXISTS 'ollama'
+  `;
+
   await client`
     DO $$ BEGIN
       CREATE TYPE shapeshyft.http_method AS ENUM ('GET', 'POST');
@@ -60,11 +71,27 @@ export async function initDatabase() {
       user_id UUID NOT NULL UNIQUE REFERENCES shapeshyft.users(uuid) ON DELETE CASCADE,
       organization_name VARCHAR(255),
       organization_path VARCHAR(255) NOT NULL UNIQUE,
+      rate_limit_rpm INTEGER,
+      daily_token_limit INTEGER,
+      monthly_budget_cents INTEGER,
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW()
     )
   `;
 
+  // Migration: Add organization rate limit columns
+  await client`
+    ALTER TABLE shapeshyft.user_settings
+    ADD COLUMN IF NOT EXISTS rate_limit_rpm INTEGER,
+    ADD COLUMN IF NOT EXISTS daily_token_limit INTEGER
+  `;
+
+  // Migration: Add organization monthly budget
+  await client`
+    ALTER TABLE shapeshyft.user_settings
+    ADD COLUMN IF NOT EXISTS monthly_budget_cents INTEGER
+  `;
+
   await client`
     CREATE TABLE IF NOT EXISTS shapeshyft.llm_api_keys (
       uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -74,12 +101,55 @@ export async function initDatabase() {
       encrypted_api_key TEXT,
       endpoint_url TEXT,
       encryption_iv VARCHAR(32),
+      deployment_name VARCHAR(255),
+      api_version VARCHAR(32),
+      encrypted_headers TEXT,
+      headers_encryption_iv VARCHAR(32),
+      request_template JSONB,
+      response_mapping JSONB,
+      max_retries INTEGER,
+      timeout_ms INTEGER,
+      monthly_budget_cents INTEGER,
       is_active BOOLEAN DEFAULT true,
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW()
     )
   `;
 
+  // Migration: Add retry policy columns to keys (for existing databases)
+  await client`
+    ALTER TABLE shapeshyft.llm_api_keys
+    ADD COLUMN IF NOT EXISTS max_retries INTEGER,
+    ADD COLUMN IF NOT EXISTS timeout_ms INTEGER
+  `;
+
+  // Migration: Add key monthly budget
+  await client`
+    ALTER TABLE shapeshyft.llm_api_keys
+    ADD COLUMN IF NOT EXISTS monthly_budget_cents INTEGER
+  `;
+
+  // Migration: Add Azure OpenAI deployment settings
+  await client`
+    ALTER TABLE shapeshyft.llm_api_keys
+    ADD COLUMN IF NOT EXISTS deployment_name VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS api_version VARCHAR(32)
+  `;
+
+  // Migration: Add custom headers for llm_server keys
+  await client`
+    ALTER TABLE shapeshyft.llm_api_keys
+    ADD COLUMN IF NOT EXISTS encrypted_headers TEXT,
+    ADD COLUMN IF NOT EXISTS headers_encryption_iv VARCHAR(32)
+  `;
+
+  // Migration: Add request/response mapping for llm_server keys
+  await client`
+    ALTER TABLE shapeshyft.llm_api_keys
+    ADD COLUMN IF NOT EXISTS request_template JSONB,
+    ADD COLUMN IF NOT EXISTS response_mapping JSONB
+  `;
+
   await client`
     CREATE TABLE IF NOT EXISTS shapeshyft.projects (
       uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -87,6 +157,9 @@ export async function initDatabase() {
       project_name VARCHAR(255) NOT NULL,
       display_name VARCHAR(255) NOT NULL,
       description TEXT,
+      rate_limit_rpm INTEGER,
+      daily_token_limit INTEGER,
+      monthly_budget_cents INTEGER,
       is_active BOOLEAN DEFAULT true,
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW(),
@@ -94,6 +167,19 @@ export async function initDatabase() {
     )
   `;
 
+  // Migration: Add project rate limit columns
+  await client`
+    ALTER TABLE shapeshyft.projects
+    ADD COLUMN IF NOT EXISTS rate_limit_rpm INTEGER,
+    ADD COLUMN IF NOT EXISTS daily_token_limit INTEGER
+  `;
+
+  // Migration: Add project monthly budget
+  await client`
+    ALTER TABLE shapeshyft.projects
+    ADD COLUMN IF NOT EXISTS monthly_budget_cents INTEGER
+  `;
+
   await client`
     CREATE TABLE IF NOT EXISTS shapeshyft.endpoints (
       uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -106,6 +192,26 @@ export async function initDatabase() {
       output_schema JSONB,
       instructions TEXT,
       context TEXT,
+      model VARCHAR(255),
+      temperature REAL,
+      top_p REAL,
+      max_tokens INTEGER,
+      stop_sequences JSONB,
+      seed INTEGER,
+      max_repair_attempts INTEGER NOT NULL DEFAULT 0,
+      cache_ttl_seconds INTEGER,
+      fallback_key_ids JSONB,
+      fallback_on JSONB,
+      examples JSONB,
+      max_retries INTEGER,
+      timeout_ms INTEGER,
+      rate_limit_rpm INTEGER,
+      daily_token_limit INTEGER,
+      published_version INTEGER,
+      log_payloads BOOLEAN NOT NULL DEFAULT false,
+      log_retention_days INTEGER,
+      log_redact_fields JSONB,
+      is_public BOOLEAN NOT NULL DEFAULT false,
       is_active BOOLEAN DEFAULT true,
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW(),
@@ -140,6 +246,148 @@ export async function initDatabase() {
     END $$;
   `;
 
+  // Migration: Add is_public column (endpoints require a consumer token unless public)
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT false
+  `;
+
+  // Migration: Add max_repair_attempts column (output_schema repair loop)
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS max_repair_attempts INTEGER NOT NULL DEFAULT 0
+  `;
+
+  // Migration: Add generation parameter columns (for existing databases)
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS model VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS temperature REAL,
+    ADD COLUMN IF NOT EXISTS top_p REAL,
+    ADD COLUMN IF NOT EXISTS max_tokens INTEGER,
+    ADD COLUMN IF NOT EXISTS stop_sequences JSONB,
+    ADD COLUMN IF NOT EXISTS seed INTEGER
+  `;
+
+  // Migration: Add cache_ttl_seconds column (null disables response caching)
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS cache_ttl_seconds INTEGER
+  `;
+
+  // Migration: Add provider fallback chain columns
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS fallback_key_ids JSONB,
+    ADD COLUMN IF NOT EXISTS fallback_on JSONB
+  `;
+
+  // Migration: Add retry policy overrides to endpoints
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS max_retries INTEGER,
+    ADD COLUMN IF NOT EXISTS timeout_ms INTEGER
+  `;
+
+  // Migration: Add endpoint rate limit columns
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS rate_limit_rpm INTEGER,
+    ADD COLUMN IF NOT EXISTS daily_token_limit INTEGER
+  `;
+
+  // Migration: Add published_version column (null serves the draft)
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS published_version INTEGER
+  `;
+
+  // Migration: Add few-shot examples column
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS examples JSONB
+  `;
+
+  // Migration: Add payload logging columns
+  await client`
+    ALTER TABLE shapeshyft.endpoints
+    ADD COLUMN IF NOT EXISTS log_payloads BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS log_retention_days INTEGER,
+    ADD COLUMN IF NOT EXISTS log_redact_fields JSONB
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.endpoint_versions (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES shapeshyft.endpoints(uuid) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      snapshot JSONB NOT NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE(endpoint_id, version)
+    )
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.endpoint_test_cases (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES shapeshyft.endpoints(uuid) ON DELETE CASCADE,
+      name VARCHAR(255) NOT NULL,
+      input JSONB NOT NULL,
+      expected_output JSONB,
+      assertions JSONB,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.endpoint_test_runs (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES shapeshyft.endpoints(uuid) ON DELETE CASCADE,
+      version INTEGER,
+      total_cases INTEGER NOT NULL,
+      passed_cases INTEGER NOT NULL,
+      failed_cases INTEGER NOT NULL,
+      tokens_input INTEGER NOT NULL DEFAULT 0,
+      tokens_output INTEGER NOT NULL DEFAULT 0,
+      estimated_cost_cents INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL,
+      results JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    )
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.pipelines (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID NOT NULL REFERENCES shapeshyft.projects(uuid) ON DELETE CASCADE,
+      pipeline_name VARCHAR(255) NOT NULL,
+      display_name VARCHAR(255) NOT NULL,
+      description TEXT,
+      steps JSONB NOT NULL,
+      is_public BOOLEAN NOT NULL DEFAULT false,
+      is_active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE(project_id, pipeline_name)
+    )
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.api_tokens (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID NOT NULL REFERENCES shapeshyft.projects(uuid) ON DELETE CASCADE,
+      token_name VARCHAR(255) NOT NULL,
+      token_prefix VARCHAR(16) NOT NULL,
+      token_hash VARCHAR(64) NOT NULL UNIQUE,
+      last_used_at TIMESTAMP,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )
+  `;
+
   await client`
     CREATE TABLE IF NOT EXISTS shapeshyft.usage_analytics (
       uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -151,10 +399,133 @@ export async function initDatabase() {
       tokens_output INTEGER,
       latency_ms INTEGER,
       estimated_cost_cents INTEGER,
+      repair_attempts INTEGER,
+      cache_hit BOOLEAN NOT NULL DEFAULT false,
+      retry_count INTEGER,
       request_metadata JSONB
     )
   `;
 
+  // Migration: Add repair_attempts column (for existing databases)
+  await client`
+    ALTER TABLE shapeshyft.usage_analytics
+    ADD COLUMN IF NOT EXISTS repair_attempts INTEGER
+  `;
+
+  // Migration: Add cache_hit column (for existing databases)
+  await client`
+    ALTER TABLE shapeshyft.usage_analytics
+    ADD COLUMN IF NOT EXISTS cache_hit BOOLEAN NOT NULL DEFAULT false
+  `;
+
+  // Migration: Add retry_count column (for existing databases)
+  await client`
+    ALTER TABLE shapeshyft.usage_analytics
+    ADD COLUMN IF NOT EXISTS retry_count INTEGER
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.request_logs (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES shapeshyft.endpoints(uuid) ON DELETE CASCADE,
+      analytics_id UUID REFERENCES shapeshyft.usage_analytics(uuid) ON DELETE CASCADE,
+      success BOOLEAN NOT NULL,
+      input JSONB,
+      system_prompt TEXT,
+      user_prompt TEXT,
+      raw_response TEXT,
+      output JSONB,
+      error_message TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  await client`
+    CREATE INDEX IF NOT EXISTS idx_request_logs_endpoint_created
+    ON shapeshyft.request_logs(endpoint_id, created_at DESC)
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.response_cache (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      endpoint_id UUID NOT NULL REFERENCES shapeshyft.endpoints(uuid) ON DELETE CASCADE,
+      cache_key VARCHAR(64) NOT NULL UNIQUE,
+      output JSONB NOT NULL,
+      model VARCHAR(255) NOT NULL,
+      provider shapeshyft.llm_provider NOT NULL,
+      tokens_input INTEGER,
+      tokens_output INTEGER,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    )
+  `;
+
+  await client`
+    CREATE INDEX IF NOT EXISTS idx_response_cache_endpoint_expires
+    ON shapeshyft.response_cache(endpoint_id, expires_at)
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.rate_limit_counters (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      scope VARCHAR(16) NOT NULL,
+      scope_id UUID NOT NULL,
+      metric VARCHAR(16) NOT NULL,
+      window_start TIMESTAMP NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      UNIQUE(scope, scope_id, metric, window_start)
+    )
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.ai_jobs (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      project_id UUID NOT NULL REFERENCES shapeshyft.projects(uuid) ON DELETE CASCADE,
+      endpoint_id UUID NOT NULL REFERENCES shapeshyft.endpoints(uuid) ON DELETE CASCADE,
+      version INTEGER,
+      kind VARCHAR(16) NOT NULL,
+      input JSONB,
+      status VARCHAR(16) NOT NULL DEFAULT 'queued',
+      result JSONB,
+      error JSONB,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      webhook_url TEXT,
+      encrypted_webhook_secret TEXT,
+      webhook_secret_iv VARCHAR(32),
+      webhook_status VARCHAR(16),
+      webhook_attempts INTEGER NOT NULL DEFAULT 0,
+      next_webhook_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW(),
+      started_at TIMESTAMP,
+      heartbeat_at TIMESTAMP,
+      completed_at TIMESTAMP
+    )
+  `;
+
+  // Migration: Add job heartbeat
+  await client`
+    ALTER TABLE shapeshyft.ai_jobs
+    ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP
+  `;
+
+  await client`
+    CREATE INDEX IF NOT EXISTS idx_ai_jobs_status_created
+    ON shapeshyft.ai_jobs(status, created_at)
+  `;
+
+  await client`
+    CREATE TABLE IF NOT EXISTS shapeshyft.ai_job_webhook_deliveries (
+      uuid UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      job_id UUID NOT NULL REFERENCES shapeshyft.ai_jobs(uuid) ON DELETE CASCADE,
+      attempt INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      duration_ms INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    )
+  `;
+
   // Create indexes for analytics queries
   await client`
     CREATE INDEX IF NOT EXISTS idx_usage_endpoint_timestamp
@@ -7,6 +7,7 @@ import {
   boolean,
   timestamp,
   integer,
+  real,
   jsonb,
   uniqueIndex,
 } from "drizzle-orm/pg-core";
@@ -23,6 +24,9 @@ export const llmProviderEnum = pgEnum("llm_provider", [
   "gemini",
   "anthropic",
   "llm_server",
+  "azure_openai",
+  "bedrock",
+  "ollama",
 ]);
 
 export const httpMethodEnum = pgEnum("http_method", ["GET", "POST"]);
@@ -54,6 +58,9 @@ export const userSettings = shapeshyftSchema.table("user_settings", {
   organization_path: varchar("organization_path", { length: 255 })
     .notNull()
     .unique(),
+  rate_limit_rpm: integer("rate_limit_rpm"),
+  daily_token_limit: integer("daily_token_limit"),
+  monthly_budget_cents: integer("monthly_budget_cents"),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
 });
@@ -72,6 +79,24 @@ export const llmApiKeys = shapeshyftSchema.table("llm_api_keys", {
   encrypted_api_key: text("encrypted_api_key"),
   endpoint_url: text("endpoint_url"),
   encryption_iv: varchar("encryption_iv", { length: 32 }),
+  // Azure OpenAI: the deployment to call and the API version (endpoint_url
+  // holds the resource endpoint)
+  deployment_name: varchar("deployment_name", { length: 255 }),
+  api_version: varchar("api_version", { length: 32 }),
+  // llm_server: extra request headers, as encrypted JSON
+  encrypted_headers: text("encrypted_headers"),
+  headers_encryption_iv: varchar("headers_encryption_iv", { length: 32 }),
+  // llm_server: request body template and response extraction paths
+  request_template: jsonb("request_template").$type<Record<string, unknown>>(),
+  response_mapping: jsonb("response_mapping").$type<{
+    content: string;
+    prompt_tokens?: string;
+    completion_tokens?: string;
+    total_tokens?: string;
+  }>(),
+  max_retries: integer("max_retries"),
+  timeout_ms: integer("timeout_ms"),
+  monthly_budget_cents: integer("monthly_budget_cents"),
   is_active: boolean("is_active").default(true),
   created_at: timestamp("created_at").defaultNow(),
   updated_at: timestamp("updated_at").defaultNow(),
@@ -91,6 +116,9 @@ export const projects = shapeshyftSchema.table(
     project_name: varchar("project_name", { length: 255 }).notNull(),
     display_name: varchar("display_name", { length: 255 }).notNull(),
     description: text("description"),
+    rate_limit_rpm: integer("rate_limit_rpm"),
+    daily_token_limit: integer("daily_token_limit"),
+    monthly_budget_cents: integer("monthly_budget_cents"),
     is_active: boolean("is_active").default(true),
     created_at: timestamp("created_at").defaultNow(),
     updated_at: timestamp("updated_at").defaultNow(),
@@ -124,6 +152,29 @@ export const endpoints = shapeshyftSchema.table(
     output_schema: jsonb("output_schema"),
     instructions: text("instructions"),
     context: text("context"),
+    model: varchar("model", { length: 255 }),
+    temperature: real("temperature"),
+    top_p: real("top_p"),
+    max_tokens: integer("max_tokens"),
+    stop_sequences: jsonb("stop_sequences").$type<string[]>(),
+    seed: integer("seed"),
+    max_repair_attempts: integer("max_repair_attempts").notNull().default(0),
+    cache_ttl_seconds: integer("cache_ttl_seconds"),
+    fallback_key_ids: jsonb("fallback_key_ids").$type<string[]>(),
+    fallback_on: jsonb("fallback_on").$type<string[]>(),
+    examples:
+      jsonb("examples").$type<
+        { input: Record<string, unknown>; output: unknown }[]
+      >(),
+    max_retries: integer("max_retries"),
+    timeout_ms: integer("timeout_ms"),
+    rate_limit_rpm: integer("rate_limit_rpm"),
+    daily_token_limit: integer("daily_token_limit"),
+    published_version: integer("published_version"),
+    log_payloads: boolean("log_payloads").notNull().default(false),
+    log_retention_days: integer("log_retention_days"),
+    log_redact_fields: jsonb("log_redact_fields").$type<string[]>(),
+    is_public: boolean("is_public").notNull().default(false),
     is_active: boolean("is_active").default(true),
     created_at: timestamp("created_at").defaultNow(),
     updated_at: timestamp("updated_at").defaultNow(),
@@ -136,6 +187,221 @@ export const endpoints = shapeshyftSchema.table(
   })
 );
 
+// =============================================================================
+// Endpoint Versions Table
+// =============================================================================
+
+// Immutable snapshots of an endpoint's behaviour. The endpoints row is the
+// editable draft; published_version selects the snapshot served by default.
+export const endpointVersions = shapeshyftSchema.table(
+  "endpoint_versions",
+  {
+    uuid: uuid("uuid").primaryKey().defaultRandom(),
+    endpoint_id: uuid("endpoint_id")
+      .notNull()
+      .references(() => endpoints.uuid, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    snapshot: jsonb("snapshot").notNull(),
+    notes: text("notes"),
+    created_at: timestamp("created_at").defaultNow(),
+  },
+  table => ({
+    uniqueVersionPerEndpoint: uniqueIndex("unique_version_per_endpoint").on(
+      table.endpoint_id,
+      table.version
+    ),
+  })
+);
+
+// =============================================================================
+// Endpoint Test Suites
+// =============================================================================
+
+// Golden examples for an endpoint: an input with the expected output and/or
+// per-field assertions
+export const endpointTestCases = shapeshyftSchema.table("endpoint_test_cases", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  endpoint_id: uuid("endpoint_id")
+    .notNull()
+    .references(() => endpoints.uuid, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  input: jsonb("input").notNull(),
+  expected_output: jsonb("expected_output"),
+  assertions: jsonb("assertions"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// Report of one run of an endpoint's test suite. version is null when the
+// draft was tested; cost is in hundredths of a cent, as in usage_analytics.
+export const endpointTestRuns = shapeshyftSchema.table("endpoint_test_runs", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  endpoint_id: uuid("endpoint_id")
+    .notNull()
+    .references(() => endpoints.uuid, { onDelete: "cascade" }),
+  version: integer("version"),
+  total_cases: integer("total_cases").notNull(),
+  passed_cases: integer("passed_cases").notNull(),
+  failed_cases: integer("failed_cases").notNull(),
+  tokens_input: integer("tokens_input").notNull().default(0),
+  tokens_output: integer("tokens_output").notNull().default(0),
+  estimated_cost_cents: integer("estimated_cost_cents").notNull().default(0),
+  duration_ms: integer("duration_ms").notNull(),
+  results: jsonb("results").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// =============================================================================
+// Pipelines Table
+// =============================================================================
+
+/**
+ * One step of a pipeline; see pipelineStepSchema for the input mapping format
+ */
+export interface PipelineStep {
+  id: string;
+  endpoint_id: string;
+  input?: Record<string, string | { const: unknown }>;
+}
+
+export const pipelines = shapeshyftSchema.table(
+  "pipelines",
+  {
+    uuid: uuid("uuid").primaryKey().defaultRandom(),
+    project_id: uuid("project_id")
+      .notNull()
+      .references(() => projects.uuid, { onDelete: "cascade" }),
+    pipeline_name: varchar("pipeline_name", { length: 255 }).notNull(),
+    display_name: varchar("display_name", { length: 255 }).notNull(),
+    description: text("description"),
+    steps: jsonb("steps").$type<PipelineStep[]>().notNull(),
+    is_public: boolean("is_public").notNull().default(false),
+    is_active: boolean("is_active").default(true),
+    created_at: timestamp("created_at").defaultNow(),
+    updated_at: timestamp("updated_at").defaultNow(),
+  },
+  table => ({
+    uniquePipelinePerProject: uniqueIndex("unique_pipeline_per_project").on(
+      table.project_id,
+      table.pipeline_name
+    ),
+  })
+);
+
+// =============================================================================
+// API Tokens Table (consumer access to /ai routes)
+// =============================================================================
+
+export const apiTokens = shapeshyftSchema.table("api_tokens", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.uuid, { onDelete: "cascade" }),
+  token_name: varchar("token_name", { length: 255 }).notNull(),
+  token_prefix: varchar("token_prefix", { length: 16 }).notNull(),
+  token_hash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  last_used_at: timestamp("last_used_at"),
+  revoked_at: timestamp("revoked_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  updated_at: timestamp("updated_at").defaultNow(),
+});
+
+// =============================================================================
+// Response Cache Table
+// =============================================================================
+
+export const responseCache = shapeshyftSchema.table("response_cache", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  endpoint_id: uuid("endpoint_id")
+    .notNull()
+    .references(() => endpoints.uuid, { onDelete: "cascade" }),
+  cache_key: varchar("cache_key", { length: 64 }).notNull().unique(),
+  output: jsonb("output").notNull(),
+  model: varchar("model", { length: 255 }).notNull(),
+  provider: llmProviderEnum("provider").notNull(),
+  tokens_input: integer("tokens_input"),
+  tokens_output: integer("tokens_output"),
+  hit_count: integer("hit_count").notNull().default(0),
+  expires_at: timestamp("expires_at").notNull(),
+  created_at: timestamp("created_at").defaultNow(),
+});
+
+// =============================================================================
+// Rate Limit Counters Table
+// =============================================================================
+
+// Fixed-window counters shared by all API instances. scope_id is the uuid of
+// the user (organization), project or endpoint named by scope.
+export const rateLimitCounters = shapeshyftSchema.table(
+  "rate_limit_counters",
+  {
+    uuid: uuid("uuid").primaryKey().defaultRandom(),
+    scope: varchar("scope", { length: 16 }).notNull(),
+    scope_id: uuid("scope_id").notNull(),
+    metric: varchar("metric", { length: 16 }).notNull(),
+    window_start: timestamp("window_start").notNull(),
+    count: integer("count").notNull().default(0),
+  },
+  table => ({
+    uniqueCounterWindow: uniqueIndex("unique_rate_limit_counter_window").on(
+      table.scope,
+      table.scope_id,
+      table.metric,
+      table.window_start
+    ),
+  })
+);
+
+// =============================================================================
+// AI Jobs Table (asynchronous endpoint calls)
+// =============================================================================
+
+// kind is "single" (input is the request input) or "batch" (input is
+// {inputs, concurrency}). status moves queued -> running -> succeeded/failed.
+// webhook_status is null without a webhook, then pending -> delivered/failed.
+export const aiJobs = shapeshyftSchema.table("ai_jobs", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  project_id: uuid("project_id")
+    .notNull()
+    .references(() => projects.uuid, { onDelete: "cascade" }),
+  endpoint_id: uuid("endpoint_id")
+    .notNull()
+    .references(() => endpoints.uuid, { onDelete: "cascade" }),
+  version: integer("version"),
+  kind: varchar("kind", { length: 16 }).notNull(),
+  input: jsonb("input"),
+  status: varchar("status", { length: 16 }).notNull().default("queued"),
+  result: jsonb("result"),
+  error: jsonb("error"),
+  attempts: integer("attempts").notNull().default(0),
+  webhook_url: text("webhook_url"),
+  encrypted_webhook_secret: text("encrypted_webhook_secret"),
+  webhook_secret_iv: varchar("webhook_secret_iv", { length: 32 }),
+  webhook_status: varchar("webhook_status", { length: 16 }),
+  webhook_attempts: integer("webhook_attempts").notNull().default(0),
+  next_webhook_at: timestamp("next_webhook_at"),
+  created_at: timestamp("created_at").defaultNow(),
+  started_at: timestamp("started_at"),
+  // Renewed by the worker running the job; a stale heartbeat frees the job
+  heartbeat_at: timestamp("heartbeat_at"),
+  completed_at: timestamp("completed_at"),
+});
+
+export const aiJobWebhookDeliveries = shapeshyftSchema.table(
+  "ai_job_webhook_deliveries",
+  {
+    uuid: uuid("uuid").primaryKey().defaultRandom(),
+    job_id: uuid("job_id")
+      .notNull()
+      .references(() => aiJobs.uuid, { onDelete: "cascade" }),
+    attempt: integer("attempt").notNull(),
+    status_code: integer("status_code"),
+    error: text("error"),
+    duration_ms: integer("duration_ms").notNull(),
+    created_at: timestamp("created_at").defaultNow(),
+  }
+);
+
 // =============================================================================
 // Usage Analytics Table
 // =============================================================================
@@ -152,5 +418,33 @@ export const usageAnalytics = shapeshyftSchema.table("usage_analytics", {
   tokens_output: integer("tokens_output"),
   latency_ms: integer("latency_ms"),
   estimated_cost_cents: integer("estimated_cost_cents"),
+  repair_attempts: integer("repair_attempts"),
+  cache_hit: boolean("cache_hit").notNull().default(false),
+  retry_count: integer("retry_count"),
   request_metadata: jsonb("request_metadata"),
 });
+
+// =============================================================================
+// Request Logs Table
+// =============================================================================
+
+// Full payloads of calls to endpoints with log_payloads enabled, with the
+// endpoint's redaction rules applied. Rows are purged once they are older
+// than the endpoint's retention window.
+export const requestLogs = shapeshyftSchema.table("request_logs", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  endpoint_id: uuid("endpoint_id")
+    .notNull()
+    .references(() => endpoints.uuid, { onDelete: "cascade" }),
+  analytics_id: uuid("analytics_id").references(() => usageAnalytics.uuid, {
+    onDelete: "cascade",
+  }),
+  success: boolean("success").notNull(),
+  input: jsonb("input"),
+  system_prompt: text("system_prompt"),
+  user_prompt: text("user_prompt"),
+  raw_response: text("raw_response"),
+  output: jsonb("output"),
+  error_message: text("error_message"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
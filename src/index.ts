@@ -5,6 +5,8 @@ import { initDatabase } from "./db";
 import routes from "./routes";
 import { successResponse } from "@sudobility/shapeshyft_types";
 import { getEnv } from "./lib/env-helper";
+import { startJobWorker } from "./services/jobs";
+import { startRequestLogPurge } from "./services/request-logs";
 
 const app = new Hono();
 
@@ -32,6 +34,14 @@ const port = parseInt(getEnv("PORT", "3000")!);
 initDatabase()
   .then(() => {
     console.log(`ShapeShyft API running on http://localhost:${port}`);
+
+    // Run async AI jobs, deliver their webhooks and purge expired payload
+    // logs; set JOB_WORKER_ENABLED=false on instances that should only
+    // serve requests
+    if (getEnv("JOB_WORKER_ENABLED", "true") !== "false") {
+      startJobWorker();
+      startRequestLogPurge();
+    }
   })
   .catch(err => {
     console.error("Failed to initialize database:", err);
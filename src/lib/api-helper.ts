@@ -1,5 +1,4 @@
 import type {
-  LlmProvider,
   PromptInput,
   ApiHelperRequestOutput,
   ApiHelperRequestInput,
@@ -11,10 +10,13 @@ import {
   schemaToPromptInstructions,
   isComplexSchema,
   formatStructuredInput,
+  type PromptExample,
 } from "./prompt-builder";
+import { renderTemplate } from "./template";
 import {
   createLLMProvider,
   PROVIDER_ENDPOINTS,
+  type LLMProviderType,
   type LLMRequest,
 } from "../services/llm";
 
@@ -25,6 +27,15 @@ export type {
   ApiHelperRequestInput,
 } from "@sudobility/shapeshyft_types";
 
+/**
+ * Prompt input with the endpoint's curated few-shot examples, for any
+ * provider this API supports
+ */
+export type EndpointPromptInput = Omit<PromptInput, "provider"> & {
+  provider: LLMProviderType;
+  examples?: PromptExample[] | null;
+};
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -32,7 +43,7 @@ export type {
 /**
  * Get provider-specific notes for the prompt
  */
-function getProviderNotes(provider: LlmProvider): string {
+function getProviderNotes(provider: LLMProviderType): string {
   switch (provider) {
     case "openai":
       return "Note: This prompt is optimized for OpenAI models (GPT-4, GPT-4o, etc.)";
@@ -42,6 +53,12 @@ function getProviderNotes(provider: LlmProvider): string {
       return "Note: This prompt is optimized for Google Gemini models";
     case "llm_server":
       return "Note: This prompt is designed for custom LLM servers";
+    case "azure_openai":
+      return "Note: This prompt is optimized for Azure OpenAI deployments (GPT-4, GPT-4o, etc.)";
+    case "bedrock":
+      return "Note: This prompt is optimized for models on AWS Bedrock (Claude, Llama, etc.)";
+    case "ollama":
+      return "Note: This prompt is designed for local models served by Ollama";
     default:
       return "";
   }
@@ -55,11 +72,12 @@ export const ApiHelper = {
   /**
    * Generate a single, human-readable prompt string.
    * Can be pasted into ChatGPT or other chat apps for testing.
+   * Templates in the instructions and context are rendered with the input.
    *
    * @param input - The prompt input parameters
    * @returns A combined prompt string
    */
-  prompt(input: PromptInput): string {
+  prompt(input: EndpointPromptInput): string {
     const parts: string[] = [];
 
     // Provider note
@@ -76,12 +94,16 @@ export const ApiHelper = {
 
     // Task instructions
     if (input.instructions) {
-      parts.push(`\n## Task\n${input.instructions}`);
+      parts.push(
+        `\n## Task\n${renderTemplate(input.instructions, input.inputData)}`
+      );
     }
 
     // Additional context
     if (input.context) {
-      parts.push(`\n## Context\n${input.context}`);
+      parts.push(
+        `\n## Context\n${renderTemplate(input.context, input.inputData)}`
+      );
     }
 
     // Output schema instructions
@@ -91,8 +113,8 @@ export const ApiHelper = {
         `\n## Required Output Fields\nYour response must include the following fields:\n${schemaInstructions}`
       );
 
-      // Add example if schema is complex
-      if (isComplexSchema(input.outputSchema)) {
+      // Add example if schema is complex and none were curated
+      if (!input.examples?.length && isComplexSchema(input.outputSchema)) {
         const example = generateSchemaExample(input.outputSchema);
         parts.push(
           `\n## Example Output\n\`\`\`json\n${JSON.stringify(example, null, 2)}\n\`\`\``
@@ -100,6 +122,16 @@ export const ApiHelper = {
       }
     }
 
+    // Curated examples
+    if (input.examples?.length) {
+      parts.push("\n## Examples");
+      input.examples.forEach((example, index) => {
+        parts.push(
+          `\n### Example ${index + 1}\nInput:\n${formatStructuredInput(example.input)}\n\nOutput:\n\`\`\`json\n${JSON.stringify(example.output, null, 2)}\n\`\`\``
+        );
+      });
+    }
+
     // Response format instruction
     parts.push(
       "\n## Response Format\nRespond with valid JSON only. Do not include any text outside the JSON object."
@@ -160,10 +192,21 @@ export const ApiHelper = {
   /**
    * Build prompts in the legacy format (system + user) for internal use.
    * Used by the main endpoint when calling the LLM.
+   *
+   * @throws TemplateError if the instructions cannot be rendered with the
+   * input
    */
-  buildLegacyPrompts(input: PromptInput): { system: string; user: string } {
+  buildLegacyPrompts(input: EndpointPromptInput): {
+    system: string;
+    user: string;
+  } {
     return {
-      system: buildSystemPrompt(input.instructions, input.outputSchema),
+      system: buildSystemPrompt(
+        input.instructions &&
+          renderTemplate(input.instructions, input.inputData),
+        input.outputSchema,
+        Boolean(input.examples?.length)
+      ),
       user: buildUserPrompt(input.inputData, true), // Always structured input
     };
   },
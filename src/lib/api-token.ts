@@ -0,0 +1,58 @@
+import { createHash, randomBytes } from "crypto";
+
+// Consumer tokens look like: sst_<43 base64url chars>
+const TOKEN_PREFIX = "sst_";
+const TOKEN_BYTES = 32;
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Generate a new consumer API token.
+ * The plain token is only ever returned once, at creation time.
+ * @returns Object with the plain token, its SHA-256 hash and a display prefix
+ */
+export function generateApiToken(): {
+  token: string;
+  hash: string;
+  prefix: string;
+} {
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString("base64url");
+
+  return {
+    token,
+    hash: hashApiToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+/**
+ * Hash a consumer API token for storage and lookup.
+ * Tokens are high-entropy random values, so a plain SHA-256 is sufficient.
+ * @param token The plain token
+ * @returns The hash as a 64-character hex string
+ */
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Extract a consumer token from request headers.
+ * Accepts either "Authorization: Bearer <token>" or "X-Api-Key: <token>".
+ * @returns The token, or null if neither header is present
+ */
+export function extractApiToken(headers: {
+  authorization?: string;
+  apiKey?: string;
+}): string | null {
+  if (headers.authorization) {
+    const [type, token] = headers.authorization.split(" ");
+    if (type === "Bearer" && token) {
+      return token;
+    }
+  }
+
+  if (headers.apiKey) {
+    return headers.apiKey.trim() || null;
+  }
+
+  return null;
+}
@@ -0,0 +1,304 @@
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+import type { LLMAttachment } from "../services/llm";
+import { coerceQueryParams } from "./schema-validator";
+
+/**
+ * Files in endpoint input.
+ *
+ * input_schema declares a file field as a string with format "image"
+ * (PNG, JPEG, GIF or WebP) or "file" (those or PDF). The value is base64,
+ * optionally as a data URL; multipart uploads are converted to data URLs
+ * before validation. The media type is taken from the file's contents, not
+ * from what the client declares.
+ */
+
+/**
+ * Largest image accepted, in bytes (the lowest provider limit)
+ */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Largest PDF accepted, in bytes
+ */
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Attachments allowed in one request
+ */
+export const MAX_ATTACHMENTS = 20;
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const FILE_TYPES = [...IMAGE_TYPES, "application/pdf"];
+
+const DATA_URL_PATTERN =
+  /^data:([\w.+-]+\/[\w.+-]+)?(?:;[\w-]+=[^;,]*)*;base64,/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * A rejected attachment; status is 413 for oversized files, 415 for
+ * unsupported types and 422 for anything else
+ */
+export interface AttachmentError {
+  status: 413 | 415 | 422;
+  message: string;
+}
+
+/**
+ * Check whether a schema declares a file field
+ */
+export function isAttachmentSchema(schema: JsonSchema | undefined): boolean {
+  return (
+    schema?.type === "string" &&
+    (schema.format === "image" || schema.format === "file")
+  );
+}
+
+/**
+ * Detect a supported media type from a file's first bytes
+ */
+function sniffMediaType(bytes: Buffer): string | null {
+  const ascii = (start: number, end: number) =>
+    bytes.subarray(start, end).toString("latin1");
+
+  if (bytes[0] === 0x89 && ascii(1, 4) === "PNG") return "image/png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  return null;
+}
+
+/**
+ * Decode and check one file value
+ */
+function decodeAttachment(
+  value: string,
+  path: string,
+  allowedTypes: string[]
+): LLMAttachment | AttachmentError {
+  const data = value.replace(DATA_URL_PATTERN, "").replace(/\s+/g, "");
+  if (!data || !BASE64_PATTERN.test(data)) {
+    return { status: 422, message: `${path}: Must be base64-encoded` };
+  }
+
+  const bytes = Buffer.from(data, "base64");
+  const mediaType = sniffMediaType(bytes);
+  if (!mediaType || !allowedTypes.includes(mediaType)) {
+    return {
+      status: 415,
+      message: `${path}: Unsupported file type (allowed: ${allowedTypes.join(", ")})`,
+    };
+  }
+
+  const limit =
+    mediaType === "application/pdf" ? MAX_DOCUMENT_BYTES : MAX_IMAGE_BYTES;
+  if (bytes.length > limit) {
+    return {
+      status: 413,
+      message: `${path}: File is larger than ${limit / (1024 * 1024)} MB`,
+    };
+  }
+
+  return { mediaType, data };
+}
+
+/**
+ * Move the files out of an input so they can be sent as content parts.
+ * Each file value is replaced by a reference to its position in the
+ * attachments, so the prompt still shows which field held which file.
+ * Values that do not match input_schema are left for schema validation.
+ */
+export function extractAttachments(
+  inputSchema: JsonSchema | null,
+  inputData: unknown
+):
+  | { input: unknown; attachments: LLMAttachment[] }
+  | { error: AttachmentError } {
+  const attachments: LLMAttachment[] = [];
+  let error: AttachmentError | null = null;
+
+  const visit = (
+    schema: JsonSchema | undefined,
+    value: unknown,
+    path: string
+  ): unknown => {
+    if (error || !schema) return value;
+
+    if (isAttachmentSchema(schema) && typeof value === "string") {
+      const decoded = decodeAttachment(
+        value,
+        path,
+        schema.format === "image" ? IMAGE_TYPES : FILE_TYPES
+      );
+      if ("status" in decoded) {
+        error = decoded;
+        return value;
+      }
+      attachments.push(decoded);
+      return `[attachment ${attachments.length}: ${decoded.mediaType}]`;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        visit(schema.items, item, `${path}[${index}]`)
+      );
+    }
+
+    if (value !== null && typeof value === "object" && schema.properties) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          visit(schema.properties![key], item, path ? `${path}.${key}` : key),
+        ])
+      );
+    }
+
+    return value;
+  };
+
+  const input = visit(inputSchema ?? undefined, inputData, "");
+  if (error) {
+    return { error };
+  }
+  if (attachments.length > MAX_ATTACHMENTS) {
+    return {
+      error: {
+        status: 413,
+        message: `At most ${MAX_ATTACHMENTS} files are allowed per request`,
+      },
+    };
+  }
+  return { input, attachments };
+}
+
+/**
+ * Build an input from a multipart form: uploaded files become data URLs and
+ * the other fields are coerced to the types declared in input_schema, as
+ * query parameters are
+ */
+export async function formDataToInput(
+  inputSchema: JsonSchema | null,
+  form: Record<string, string | File | (string | File)[]>
+): Promise<Record<string, unknown>> {
+  const params = new URLSearchParams();
+  const files: Record<string, string[]> = {};
+
+  for (const [key, entry] of Object.entries(form)) {
+    for (const value of Array.isArray(entry) ? entry : [entry]) {
+      if (typeof value === "string") {
+        params.append(key, value);
+        continue;
+      }
+      const data = Buffer.from(await value.arrayBuffer()).toString("base64");
+      (files[key] ??= []).push(
+        `data:${value.type || "application/octet-stream"};base64,${data}`
+      );
+    }
+  }
+
+  const input = coerceQueryParams(inputSchema, params);
+  for (const [key, urls] of Object.entries(files)) {
+    input[key] =
+      inputSchema?.properties?.[key]?.type === "array"
+        ? urls
+        : urls[urls.length - 1];
+  }
+  return input;
+}
+
+// =============================================================================
+// Token Estimation
+// =============================================================================
+
+/**
+ * Tokens for an image whose size is unknown, and for each PDF page
+ */
+const DEFAULT_IMAGE_TOKENS = 1600;
+const TOKENS_PER_PDF_PAGE = 1500;
+
+/**
+ * Longest edge providers scale images down to before tokenizing
+ */
+const MAX_IMAGE_EDGE = 1568;
+
+/**
+ * Read the pixel size of a PNG, GIF, JPEG or WebP image
+ */
+function readImageSize(
+  bytes: Buffer,
+  mediaType: string
+): { width: number; height: number } | null {
+  try {
+    switch (mediaType) {
+      case "image/png":
+        return {
+          width: bytes.readUInt32BE(16),
+          height: bytes.readUInt32BE(20),
+        };
+      case "image/gif":
+        return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+      case "image/webp":
+        if (bytes.toString("latin1", 12, 16) === "VP8X") {
+          return {
+            width: bytes.readUIntLE(24, 3) + 1,
+            height: bytes.readUIntLE(27, 3) + 1,
+          };
+        }
+        return null;
+      case "image/jpeg": {
+        // Walk the segments to the first start-of-frame marker
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+          if (bytes[offset] !== 0xff) return null;
+          const marker = bytes[offset + 1]!;
+          if (
+            marker >= 0xc0 &&
+            marker <= 0xcf &&
+            ![0xc4, 0xc8, 0xcc].includes(marker)
+          ) {
+            return {
+              height: bytes.readUInt16BE(offset + 5),
+              width: bytes.readUInt16BE(offset + 7),
+            };
+          }
+          offset += 2 + bytes.readUInt16BE(offset + 2);
+        }
+        return null;
+      }
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Estimate the input tokens providers charge for attachments: images by
+ * pixel count (about 750 pixels per token after scaling), PDFs by page
+ */
+export function estimateAttachmentTokens(attachments: LLMAttachment[]): number {
+  return attachments.reduce((total, attachment) => {
+    const bytes = Buffer.from(attachment.data, "base64");
+
+    if (attachment.mediaType === "application/pdf") {
+      const pages =
+        bytes.toString("latin1").match(/\/Type\s*\/Page(?!s)/g)?.length ?? 1;
+      return total + pages * TOKENS_PER_PDF_PAGE;
+    }
+
+    const size = readImageSize(bytes, attachment.mediaType);
+    if (!size || size.width === 0 || size.height === 0) {
+      return total + DEFAULT_IMAGE_TOKENS;
+    }
+    const scale = Math.min(
+      1,
+      MAX_IMAGE_EDGE / Math.max(size.width, size.height)
+    );
+    return (
+      total + Math.ceil((size.width * scale * (size.height * scale)) / 750)
+    );
+  }, 0);
+}
@@ -0,0 +1,122 @@
+import { createHash, createHmac } from "crypto";
+
+/**
+ * AWS Signature Version 4 request signing, for calling AWS APIs without the
+ * SDK. See https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv-create-signed-request.html
+ */
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+/**
+ * URI-encode as SigV4 requires: everything but unreserved characters
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Format a date as the ISO 8601 basic format SigV4 uses (20150830T123600Z)
+ */
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+/**
+ * Sign a request for an AWS service
+ * @param now - Signing time (the current time by default)
+ * @returns The request headers with host, x-amz-date and Authorization
+ * added
+ */
+export function signAwsRequest(
+  request: SignableRequest,
+  credentials: AwsCredentials,
+  region: string,
+  service: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = toAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(request.body);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: url.host,
+    "x-amz-date": amzDate,
+    ...(credentials.sessionToken && {
+      "x-amz-security-token": credentials.sessionToken,
+    }),
+  };
+
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => [
+      name.toLowerCase(),
+      value.trim().replace(/\s+/g, " "),
+    ])
+    .sort(([a], [b]) => (a! < b! ? -1 : a! > b! ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(";");
+
+  // Services other than S3 encode each path segment again
+  const canonicalUri =
+    url.pathname
+      .split("/")
+      .map(segment => encodeRfc3986(segment))
+      .join("/") || "/";
+  const canonicalQuery = [...url.searchParams]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders.map(([name, value]) => `${name}:${value}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = [dateStamp, region, service, "aws4_request"].reduce<
+    string | Buffer
+  >((key, part) => hmac(key, part), `AWS4${credentials.secretAccessKey}`);
+  const signature = createHmac("sha256", signingKey)
+    .update(stringToSign, "utf8")
+    .digest("hex");
+
+  return {
+    ...headers,
+    authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
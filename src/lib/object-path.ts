@@ -0,0 +1,36 @@
+/**
+ * Returned by getAtPath when the path does not exist (undefined and null are
+ * valid values)
+ */
+export const MISSING = Symbol("missing");
+
+/**
+ * Read a dot-separated path from a value (array items by index)
+ */
+export function getAtPath(value: unknown, path: string): unknown {
+  if (path === "") return value;
+
+  let current: unknown = value;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return MISSING;
+    }
+    if (!(segment in current)) {
+      return MISSING;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Read a JSONPath-style path such as "$.choices[0].message.content"; the
+ * leading "$" is optional and "$" alone is the whole value
+ */
+export function getAtJsonPath(value: unknown, path: string): unknown {
+  const dotPath = path
+    .replace(/^\$/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .replace(/^\./, "");
+  return getAtPath(value, dotPath);
+}
@@ -0,0 +1,145 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { getEnv } from "./env-helper";
+
+/**
+ * Checks for URLs the server sends requests to on a caller's behalf (such
+ * as webhooks), so they cannot reach internal services: the host must
+ * resolve only to public addresses.
+ */
+
+/**
+ * IPv4 ranges that are not publicly routable: [network, prefix length]
+ */
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata services
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // documentation
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // documentation
+  ["203.0.113.0", 24], // documentation
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isLoopback(address: string): boolean {
+  return address === "::1" || address.startsWith("127.");
+}
+
+function isPublicIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return !BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+function isPublicIpv6(address: string): boolean {
+  const lower = address.toLowerCase();
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses
+  // reach the embedded IPv4 address, written dotted or as two hex groups
+  const embedded = lower.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    return isPublicIpv4(embedded[1]!);
+  }
+  const embeddedHex = lower.match(
+    /^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/
+  );
+  if (embeddedHex) {
+    const high = parseInt(embeddedHex[1]!, 16);
+    const low = parseInt(embeddedHex[2]!, 16);
+    return isPublicIpv4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+    );
+  }
+
+  if (lower === "::" || lower === "::1") return false;
+  const firstGroup = parseInt(lower.split(":")[0] || "0", 16);
+  // fc00::/7 unique local (includes fd00:ec2::254), fe80::/10 link-local,
+  // ff00::/8 multicast
+  if ((firstGroup & 0xfe00) === 0xfc00) return false;
+  if ((firstGroup & 0xffc0) === 0xfe80) return false;
+  if ((firstGroup & 0xff00) === 0xff00) return false;
+  return true;
+}
+
+/**
+ * Check whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPublicIpv4(address);
+    case 6:
+      return isPublicIpv6(address);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Tests deliver to local servers over plain http
+ */
+function allowsLocalDelivery(): boolean {
+  return getEnv("NODE_ENV") === "test" || getEnv("BUN_ENV") === "test";
+}
+
+/**
+ * Check that a URL may be requested by the server: https, and a host that
+ * resolves only to public addresses. Check again right before each request,
+ * since DNS answers can change.
+ * @returns An error message, or null if the URL is allowed
+ */
+export async function checkOutboundUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid URL";
+  }
+
+  const allowLocal = allowsLocalDelivery();
+  if (
+    parsed.protocol !== "https:" &&
+    !(allowLocal && parsed.protocol === "http:")
+  ) {
+    return "URL must use https";
+  }
+  if (parsed.username || parsed.password) {
+    return "URL must not contain credentials";
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map(
+          entry => entry.address
+        );
+  } catch {
+    return "URL host could not be resolved";
+  }
+
+  const blocked = addresses.some(
+    address => !isPublicAddress(address) && !(allowLocal && isLoopback(address))
+  );
+  if (addresses.length === 0 || blocked) {
+    return "URL must point to a public host";
+  }
+  return null;
+}
@@ -124,12 +124,24 @@ export function isComplexSchema(schema: JsonSchema): boolean {
   });
 }
 
+/**
+ * A curated input/output pair attached to an endpoint
+ */
+export interface PromptExample {
+  input: Record<string, unknown>;
+  output: unknown;
+}
+
 /**
  * Build the system prompt with schema instructions
+ *
+ * @param hasExamples - Curated examples are sent as conversation turns, so
+ * the synthetic example structure is left out
  */
 export function buildSystemPrompt(
   userDescription: string | null,
-  outputSchema: JsonSchema | null
+  outputSchema: JsonSchema | null,
+  hasExamples = false
 ): string {
   const parts: string[] = [];
 
@@ -151,7 +163,7 @@ export function buildSystemPrompt(
     );
 
     // Add example if schema is complex
-    if (isComplexSchema(outputSchema)) {
+    if (!hasExamples && isComplexSchema(outputSchema)) {
       const example = generateSchemaExample(outputSchema);
       parts.push(
         `\n## Example Output Structure\n\`\`\`json\n${JSON.stringify(example, null, 2)}\n\`\`\``
@@ -206,6 +218,27 @@ export function formatStructuredInput(data: Record<string, unknown>): string {
   return lines.join("\n");
 }
 
+/**
+ * Build a follow-up user prompt asking the model to fix a response that
+ * failed output_schema validation
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  violations: { path: string; message: string }[]
+): string {
+  const errorLines = violations
+    .map(v => `- ${v.path}: ${v.message}`)
+    .join("\n");
+
+  return [
+    originalPrompt,
+    `\n## Previous Response\nYour previous response was:\n\`\`\`json\n${previousResponse}\n\`\`\``,
+    `\n## Validation Errors\nIt does not match the required output structure:\n${errorLines}`,
+    "\nReturn a corrected response that fixes every error above. Respond with valid JSON only.",
+  ].join("\n");
+}
+
 /**
  * Build complete prompts for an LLM request
  */
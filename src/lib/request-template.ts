@@ -0,0 +1,123 @@
+/**
+ * Request body templates for custom LLM servers. A template is the JSON body
+ * to send, with `{{variable}}` placeholders in its strings:
+ *
+ * - a string that is exactly one placeholder is replaced by the value itself
+ *   (objects, arrays and numbers keep their type; keys whose value is unset
+ *   are left out)
+ * - placeholders inside longer strings are replaced by the value as text
+ *   (objects as JSON, unset values as "")
+ */
+
+/**
+ * Values a request template can refer to
+ */
+export interface RequestTemplateVariables {
+  prompt: string;
+  system_prompt?: string;
+  /** OpenAI-format messages: system prompt, examples and prompt */
+  messages: unknown[];
+  output_schema: unknown;
+  model?: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+export const REQUEST_TEMPLATE_VARIABLES: (keyof RequestTemplateVariables)[] = [
+  "prompt",
+  "system_prompt",
+  "messages",
+  "output_schema",
+  "model",
+  "temperature",
+  "top_p",
+  "max_tokens",
+  "stop",
+  "seed",
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z0-9_]+)\s*\}\}$/;
+
+function lookup(variables: RequestTemplateVariables, name: string): unknown {
+  return REQUEST_TEMPLATE_VARIABLES.includes(
+    name as keyof RequestTemplateVariables
+  )
+    ? variables[name as keyof RequestTemplateVariables]
+    : undefined;
+}
+
+function renderValue(
+  template: unknown,
+  variables: RequestTemplateVariables
+): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(WHOLE_PLACEHOLDER_PATTERN);
+    if (whole) {
+      return lookup(variables, whole[1]!);
+    }
+    return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+      const value = lookup(variables, name);
+      if (value === undefined) return "";
+      return typeof value === "string" ? value : JSON.stringify(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => renderValue(item, variables) ?? null);
+  }
+
+  if (template !== null && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).flatMap(([key, item]) => {
+        const value = renderValue(item, variables);
+        return value === undefined ? [] : [[key, value]];
+      })
+    );
+  }
+
+  return template;
+}
+
+/**
+ * Build a request body from a template
+ */
+export function renderRequestTemplate(
+  template: Record<string, unknown>,
+  variables: RequestTemplateVariables
+): Record<string, unknown> {
+  return renderValue(template, variables) as Record<string, unknown>;
+}
+
+/**
+ * Check a template at save time: every placeholder must name a known
+ * variable
+ * @returns An error message, or null if the template is valid
+ */
+export function checkRequestTemplate(
+  template: Record<string, unknown>
+): string | null {
+  const unknown = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === "string") {
+      for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+        if (
+          !REQUEST_TEMPLATE_VARIABLES.includes(
+            match[1] as keyof RequestTemplateVariables
+          )
+        ) {
+          unknown.add(match[1]!);
+        }
+      }
+    } else if (value !== null && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(template);
+
+  if (unknown.size === 0) return null;
+  return `Unknown template variables: ${[...unknown].join(", ")}. Available: ${REQUEST_TEMPLATE_VARIABLES.join(", ")}`;
+}
@@ -0,0 +1,429 @@
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+
+/**
+ * A single JSON Schema violation
+ */
+export interface SchemaViolation {
+  /** Location of the offending value, e.g. "$.customer.tags[1]" */
+  path: string;
+  /** JSON Schema keyword that failed, e.g. "required" or "enum" */
+  keyword: string;
+  message: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Structural equality for enum/const/uniqueItems checks
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+
+  return aKeys.every(key =>
+    deepEqual(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key]
+    )
+  );
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time":
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a value against a JSON Schema.
+ * Supports the subset of JSON Schema used by endpoint schemas: type, enum,
+ * const, numeric and string bounds, pattern, format, object properties,
+ * required, additionalProperties and array items/bounds.
+ *
+ * @param schema - The JSON Schema to validate against
+ * @param value - The value to validate
+ * @param path - Path of the value, used when reporting violations
+ * @returns All violations found (empty if the value is valid)
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string = "$"
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  // Type
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type)
+      ? (schema.type as string[])
+      : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      violations.push({
+        path,
+        keyword: "type",
+        message: `Expected ${types.join(" or ")}, got ${typeOf(value)}`,
+      });
+      // Further checks are meaningless for the wrong type
+      return violations;
+    }
+  }
+
+  // Enum / const
+  if (schema.enum && !schema.enum.some(v => deepEqual(v, value))) {
+    violations.push({
+      path,
+      keyword: "enum",
+      message: `Must be one of: ${schema.enum.map(v => JSON.stringify(v)).join(", ")}`,
+    });
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    violations.push({
+      path,
+      keyword: "const",
+      message: `Must equal ${JSON.stringify(schema.const)}`,
+    });
+  }
+
+  if (typeof value === "number") {
+    violations.push(...validateNumber(schema, value, path));
+  } else if (typeof value === "string") {
+    violations.push(...validateString(schema, value, path));
+  } else if (Array.isArray(value)) {
+    violations.push(...validateArray(schema, value, path));
+  } else if (typeof value === "object" && value !== null) {
+    violations.push(
+      ...validateObject(schema, value as Record<string, unknown>, path)
+    );
+  }
+
+  return violations;
+}
+
+function validateNumber(
+  schema: JsonSchema,
+  value: number,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const exclusiveMinimum = schema.exclusiveMinimum as number | undefined;
+  const exclusiveMaximum = schema.exclusiveMaximum as number | undefined;
+  const multipleOf = schema.multipleOf as number | undefined;
+
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    violations.push({
+      path,
+      keyword: "minimum",
+      message: `Must be >= ${schema.minimum}`,
+    });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    violations.push({
+      path,
+      keyword: "maximum",
+      message: `Must be <= ${schema.maximum}`,
+    });
+  }
+  if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+    violations.push({
+      path,
+      keyword: "exclusiveMinimum",
+      message: `Must be > ${exclusiveMinimum}`,
+    });
+  }
+  if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+    violations.push({
+      path,
+      keyword: "exclusiveMaximum",
+      message: `Must be < ${exclusiveMaximum}`,
+    });
+  }
+  if (
+    typeof multipleOf === "number" &&
+    multipleOf > 0 &&
+    !Number.isInteger(Number((value / multipleOf).toFixed(9)))
+  ) {
+    violations.push({
+      path,
+      keyword: "multipleOf",
+      message: `Must be a multiple of ${multipleOf}`,
+    });
+  }
+
+  return violations;
+}
+
+function validateString(
+  schema: JsonSchema,
+  value: string,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  // Count code points, not UTF-16 units
+  const length = [...value].length;
+
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    violations.push({
+      path,
+      keyword: "minLength",
+      message: `Must be at least ${schema.minLength} characters`,
+    });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    violations.push({
+      path,
+      keyword: "maxLength",
+      message: `Must be at most ${schema.maxLength} characters`,
+    });
+  }
+  if (schema.pattern) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(schema.pattern, "u");
+    } catch {
+      // Invalid patterns in the schema are ignored rather than failing input
+    }
+    if (regex && !regex.test(value)) {
+      violations.push({
+        path,
+        keyword: "pattern",
+        message: `Must match pattern ${schema.pattern}`,
+      });
+    }
+  }
+  if (schema.format && FORMAT_PATTERNS[schema.format]) {
+    if (!FORMAT_PATTERNS[schema.format]!.test(value)) {
+      violations.push({
+        path,
+        keyword: "format",
+        message: `Must be a valid ${schema.format}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+function validateArray(
+  schema: JsonSchema,
+  value: unknown[],
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const minItems = schema.minItems as number | undefined;
+  const maxItems = schema.maxItems as number | undefined;
+
+  if (typeof minItems === "number" && value.length < minItems) {
+    violations.push({
+      path,
+      keyword: "minItems",
+      message: `Must contain at least ${minItems} items`,
+    });
+  }
+  if (typeof maxItems === "number" && value.length > maxItems) {
+    violations.push({
+      path,
+      keyword: "maxItems",
+      message: `Must contain at most ${maxItems} items`,
+    });
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = value.findIndex((item, i) =>
+      value.slice(0, i).some(other => deepEqual(item, other))
+    );
+    if (duplicate !== -1) {
+      violations.push({
+        path: childPath(path, duplicate),
+        keyword: "uniqueItems",
+        message: "Array items must be unique",
+      });
+    }
+  }
+  if (schema.items) {
+    value.forEach((item, i) => {
+      violations.push(
+        ...validateJsonSchema(schema.items!, item, childPath(path, i))
+      );
+    });
+  }
+
+  return violations;
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const properties = schema.properties ?? {};
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      violations.push({
+        path: childPath(path, name),
+        keyword: "required",
+        message: "Required property is missing",
+      });
+    }
+  }
+
+  for (const [name, propValue] of Object.entries(value)) {
+    const propSchema = properties[name];
+    if (propSchema) {
+      violations.push(
+        ...validateJsonSchema(propSchema, propValue, childPath(path, name))
+      );
+    } else if (schema.additionalProperties === false) {
+      violations.push({
+        path: childPath(path, name),
+        keyword: "additionalProperties",
+        message: "Property is not allowed",
+      });
+    } else if (typeof schema.additionalProperties === "object") {
+      violations.push(
+        ...validateJsonSchema(
+          schema.additionalProperties,
+          propValue,
+          childPath(path, name)
+        )
+      );
+    }
+  }
+
+  return violations;
+}
+
+// =============================================================================
+// Query String Coercion
+// =============================================================================
+
+/**
+ * Coerce a single query string value to the type declared by a schema.
+ * Values that cannot be coerced are returned unchanged so validation can
+ * report them.
+ */
+function coerceQueryValue(
+  schema: JsonSchema | undefined,
+  raw: string
+): unknown {
+  const types = Array.isArray(schema?.type)
+    ? (schema!.type as string[])
+    : schema?.type
+      ? [schema.type]
+      : [];
+
+  for (const type of types) {
+    switch (type) {
+      case "integer":
+      case "number": {
+        if (raw.trim() === "") break;
+        const num = Number(raw);
+        if (!Number.isNaN(num)) return num;
+        break;
+      }
+      case "boolean":
+        if (raw === "true" || raw === "1") return true;
+        if (raw === "false" || raw === "0") return false;
+        break;
+      case "null":
+        if (raw === "" || raw === "null") return null;
+        break;
+      case "object":
+      case "array":
+        try {
+          const parsed = JSON.parse(raw);
+          if (matchesType(parsed, type)) return parsed;
+        } catch {
+          // Not JSON - leave as string
+        }
+        break;
+      case "string":
+        return raw;
+    }
+  }
+
+  return raw;
+}
+
+/**
+ * Convert GET query parameters to an input object using the types declared
+ * in the endpoint's input_schema. Array properties accept repeated keys
+ * (?tag=a&tag=b) or a single JSON-encoded value (?tag=["a","b"]).
+ *
+ * @param schema - The endpoint input_schema (may be null)
+ * @param params - The request query parameters
+ * @returns The coerced input object
+ */
+export function coerceQueryParams(
+  schema: JsonSchema | null,
+  params: URLSearchParams
+): Record<string, unknown> {
+  const properties = schema?.properties ?? {};
+  const result: Record<string, unknown> = {};
+
+  for (const key of new Set(params.keys())) {
+    const propSchema = properties[key];
+    const values = params.getAll(key);
+
+    if (propSchema?.type === "array") {
+      // Single JSON-encoded array value, e.g. ?tags=["a","b"]
+      if (values.length === 1 && values[0]!.trim().startsWith("[")) {
+        const parsed = coerceQueryValue(propSchema, values[0]!);
+        if (Array.isArray(parsed)) {
+          result[key] = parsed;
+          continue;
+        }
+      }
+      result[key] = values.map(v => coerceQueryValue(propSchema.items, v));
+    } else {
+      result[key] = coerceQueryValue(propSchema, values[values.length - 1]!);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,340 @@
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+import { getAtPath, MISSING } from "./object-path";
+
+/**
+ * Mustache-style templates for endpoint instructions and context.
+ *
+ * Supported tags:
+ * - `{{path}}` / `{{{path}}}` - value at a dot path (objects as JSON)
+ * - `{{#path}}...{{/path}}` - loop over an array, enter an object, or
+ *   render once for any other truthy value
+ * - `{{^path}}...{{/path}}` - render when the value is falsy or missing
+ * - `{{#each path}}`, `{{#if path}}`, `{{#unless path}}` with an optional
+ *   `{{else}}`, closed by `{{/each}}`, `{{/if}}` or `{{/unless}}`
+ * - `{{.}}` / `{{this}}` - the current item; `{{! comment}}`
+ *
+ * Paths resolve against the innermost section first, then outwards to the
+ * input. Sections over missing values render as falsy, but a variable whose
+ * value is missing fails the render: wrap optional fields in a section.
+ */
+
+/**
+ * Thrown for malformed templates and for variables missing from the input
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type SectionKind = "section" | "inverted" | "each" | "if" | "unless";
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; path: string }
+  | {
+      type: "section";
+      kind: SectionKind;
+      path: string;
+      children: TemplateNode[];
+      inverse: TemplateNode[];
+    };
+
+const TAG_PATTERN = /\{\{(\{?)\s*([#^/!]?)\s*([\s\S]*?)\s*\}?\}\}/g;
+const PATH_PATTERN = /^(?:\.|this|[A-Za-z0-9_$-]+(?:\.[A-Za-z0-9_$-]+)*)$/;
+
+/**
+ * Check whether text contains any template tags
+ */
+export function isTemplate(text: string): boolean {
+  return text.includes("{{");
+}
+
+function checkPath(path: string): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateError(`Invalid path "${path}"`);
+  }
+  return path;
+}
+
+/**
+ * Parse a template into a tree of text, variable and section nodes
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: {
+    node: Extract<TemplateNode, { type: "section" }>;
+    closeName: string;
+    inElse: boolean;
+  }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.inverse : top.node.children;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      current().push({
+        type: "text",
+        text: template.slice(lastIndex, match.index),
+      });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [, triple, sigil, body] = match as unknown as [
+      string,
+      string,
+      string,
+      string,
+    ];
+    if (sigil === "!") continue;
+
+    if (sigil === "#" || sigil === "^") {
+      const [first, ...rest] = body.split(/\s+/);
+      const helper = sigil === "#" && rest.length > 0 ? first! : null;
+      if (helper && !["each", "if", "unless"].includes(helper)) {
+        throw new TemplateError(`Unknown helper "${helper}"`);
+      }
+      if (rest.length > 1) {
+        throw new TemplateError(`Invalid section tag "{{${sigil}${body}}}"`);
+      }
+      const path = checkPath(helper ? rest[0]! : body);
+      const node = {
+        type: "section" as const,
+        kind: (helper ??
+          (sigil === "^" ? "inverted" : "section")) as SectionKind,
+        path,
+        children: [],
+        inverse: [],
+      };
+      current().push(node);
+      stack.push({ node, closeName: helper ?? path, inElse: false });
+      continue;
+    }
+
+    if (sigil === "/") {
+      const open = stack.pop();
+      if (!open) {
+        throw new TemplateError(`Unexpected closing tag "{{/${body}}}"`);
+      }
+      if (open.closeName !== body) {
+        throw new TemplateError(
+          `Section "${open.closeName}" closed by "{{/${body}}}"`
+        );
+      }
+      continue;
+    }
+
+    if (body === "else" && !triple) {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw new TemplateError("Unexpected {{else}}");
+      }
+      open.inElse = true;
+      continue;
+    }
+
+    current().push({ type: "variable", path: checkPath(body) });
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed section "${stack.pop()!.closeName}"`);
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: "text", text: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Resolve a path against the scope stack, innermost scope first
+ */
+function lookup(scopes: unknown[], path: string): unknown {
+  const top = scopes[scopes.length - 1];
+  if (path === "." || path === "this") return top;
+
+  const [first, ...rest] = path.split(".");
+  if (first === "this") {
+    return getAtPath(top, rest.join("."));
+  }
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope !== null && typeof scope === "object" && first! in scope) {
+      return getAtPath(scope, path);
+    }
+  }
+  return MISSING;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value === MISSING) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  let output = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.text;
+      continue;
+    }
+
+    const value = lookup(scopes, node.path);
+    if (node.type === "variable") {
+      if (value === MISSING) {
+        throw new TemplateError(`"${node.path}" is missing from the input`);
+      }
+      output += formatValue(value);
+      continue;
+    }
+
+    const truthy = isTruthy(value);
+    switch (node.kind) {
+      case "if":
+        output += renderNodes(truthy ? node.children : node.inverse, scopes);
+        break;
+      case "unless":
+      case "inverted":
+        output += renderNodes(truthy ? node.inverse : node.children, scopes);
+        break;
+      case "each":
+      case "section":
+        if (!truthy || (node.kind === "each" && !Array.isArray(value))) {
+          output += renderNodes(node.inverse, scopes);
+        } else if (Array.isArray(value)) {
+          for (const item of value) {
+            output += renderNodes(node.children, [...scopes, item]);
+          }
+        } else if (typeof value === "object") {
+          output += renderNodes(node.children, [...scopes, value]);
+        } else {
+          output += renderNodes(node.children, scopes);
+        }
+        break;
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a template against the input data
+ * @throws TemplateError if the template is malformed or a variable is
+ * missing from the input
+ */
+export function renderTemplate(template: string, data: unknown): string {
+  if (!isTemplate(template)) return template;
+  return renderNodes(parseTemplate(template), [data]);
+}
+
+// =============================================================================
+// Schema Checking
+// =============================================================================
+
+/**
+ * Schema for a property or array index, or null if the schema rules it out.
+ * Objects without declared properties accept any key.
+ */
+function childSchema(schema: JsonSchema, key: string): JsonSchema | null {
+  if (schema.type === "array" || schema.items) {
+    return /^\d+$/.test(key) ? (schema.items ?? {}) : null;
+  }
+  if (schema.properties?.[key]) {
+    return schema.properties[key]!;
+  }
+  if (!schema.properties && (!schema.type || schema.type === "object")) {
+    return {};
+  }
+  if (typeof schema.additionalProperties === "object") {
+    return schema.additionalProperties;
+  }
+  return schema.additionalProperties === true ? {} : null;
+}
+
+/**
+ * Resolve a path against a stack of scope schemas, innermost first
+ */
+function lookupSchema(scopes: JsonSchema[], path: string): JsonSchema | null {
+  const top = scopes[scopes.length - 1]!;
+  if (path === "." || path === "this") return top;
+
+  const [first, ...rest] = path.split(".");
+  const candidates = first === "this" ? [top] : [...scopes].reverse();
+  const segments = first === "this" ? rest : [first!, ...rest];
+
+  for (const scope of candidates) {
+    let schema: JsonSchema | null = scope;
+    for (const segment of segments) {
+      schema = childSchema(schema, segment);
+      if (!schema) break;
+    }
+    if (schema) return schema;
+  }
+  return null;
+}
+
+function checkNodes(nodes: TemplateNode[], scopes: JsonSchema[]): void {
+  for (const node of nodes) {
+    if (node.type === "text") continue;
+
+    const schema = lookupSchema(scopes, node.path);
+    if (!schema) {
+      throw new TemplateError(`"${node.path}" is not defined in input_schema`);
+    }
+    if (node.type === "variable") continue;
+
+    const isArray = schema.type === "array" || Boolean(schema.items);
+    if (node.kind === "each" && schema.type !== undefined && !isArray) {
+      throw new TemplateError(`"${node.path}" is not an array`);
+    }
+
+    let inner = scopes;
+    if (node.kind === "each" || node.kind === "section") {
+      if (isArray) {
+        inner = [...scopes, schema.items ?? {}];
+      } else if (node.kind === "section" && schema.type !== undefined) {
+        inner = schema.type === "object" ? [...scopes, schema] : scopes;
+      } else {
+        inner = [...scopes, {}];
+      }
+    }
+    checkNodes(node.children, inner);
+    checkNodes(node.inverse, scopes);
+  }
+}
+
+/**
+ * Check a template at save time: it must parse, and every path it references
+ * must exist in input_schema (when the endpoint has one)
+ * @returns An error message, or null if the template is valid
+ */
+export function checkTemplate(
+  template: string,
+  inputSchema: JsonSchema | null
+): string | null {
+  if (!isTemplate(template)) return null;
+
+  try {
+    const nodes = parseTemplate(template);
+    if (inputSchema) {
+      checkNodes(nodes, [inputSchema]);
+    }
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateError) return error.message;
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import { zValidator } from "@hono/zod-validator";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, asc, isNull, sql } from "drizzle-orm";
 import {
   db,
   users,
@@ -8,21 +9,78 @@ import {
   projects,
   endpoints,
   llmApiKeys,
-  usageAnalytics,
+  apiTokens,
+  pipelines,
+  aiJobs,
+  aiJobWebhookDeliveries,
 } from "../db";
-import { aiParamSchema } from "../schemas";
+import {
+  aiParamSchema,
+  aiBatchSchema,
+  aiPipelineParamSchema,
+  jobIdParamSchema,
+} from "../schemas";
 import {
   successResponse,
   errorResponse,
   type JsonSchema,
 } from "@sudobility/shapeshyft_types";
-import { decryptApiKey } from "../lib/encryption";
+import { extractApiToken, hashApiToken } from "../lib/api-token";
+import { validateJsonSchema, coerceQueryParams } from "../lib/schema-validator";
 import { ApiHelper } from "../lib/api-helper";
+import { extractAttachments, formDataToInput } from "../lib/attachments";
+import { checkOutboundUrl } from "../lib/outbound-url";
 import {
-  createLLMProvider,
-  estimateCost,
+  getBilledUsage,
+  RetryingLLMProvider,
+  type FallbackCandidate,
   type LLMRequest,
 } from "../services/llm";
+import {
+  checkRateLimits,
+  getRateLimitRules,
+  recordTokenUsage,
+  type RateLimitRule,
+  type RateLimitStatus,
+} from "../services/rate-limiter";
+import {
+  budgetExceededMessage,
+  checkBudgets,
+  getBudgetOwners,
+} from "../services/budget";
+import {
+  buildFallbackChain,
+  buildLLMRequest,
+  checkEndpointAttachments,
+  checkEndpointTemplates,
+  countRetries,
+  executeEndpoint,
+  loadEndpointKeys,
+  type EndpointKeys,
+} from "../services/endpoint-executor";
+import {
+  parseEndpointRef,
+  resolveEndpointVersion,
+} from "../services/endpoint-versions";
+import {
+  recordCacheHit,
+  recordFailure,
+  recordSuccess,
+} from "../services/endpoint-analytics";
+import { runBatch, type EndpointCallTarget } from "../services/endpoint-calls";
+import { runPipeline } from "../services/pipelines";
+import { toDebugRequest } from "../services/request-logs";
+import {
+  createJob,
+  toJobResponse,
+  type JobKind,
+  type JobWebhook,
+} from "../services/jobs";
+import {
+  buildCacheKey,
+  getCachedResponse,
+  storeCachedResponse,
+} from "../services/response-cache";
 
 const aiRouter = new Hono();
 
@@ -30,11 +88,23 @@ const aiRouter = new Hono();
 // Types
 // =============================================================================
 
-interface ValidatedContext {
+interface EndpointContext {
   success: true;
+  user: typeof users.$inferSelect;
+  /** Organization settings, if the user has saved any */
+  settings: typeof userSettings.$inferSelect | null;
   project: typeof projects.$inferSelect;
   endpoint: typeof endpoints.$inferSelect;
+  /** The version served, or null for the draft */
+  version: number | null;
+  /** Rate limits that apply to the request, for token accounting */
+  rateLimitRules: RateLimitRule[];
+}
+
+interface ValidatedContext extends EndpointContext {
   llmKey: typeof llmApiKeys.$inferSelect;
+  /** Active fallback keys, in the endpoint's configured order */
+  fallbackKeys: (typeof llmApiKeys.$inferSelect)[];
   inputData: unknown;
 }
 
@@ -84,10 +154,80 @@ async function findUserByOrgPath(
 }
 
 /**
- * Validate request and get all required context data.
- * This is shared between /prompt and main endpoints.
+ * Verify the consumer token sent with the request belongs to the project.
+ * Updates last_used_at on success.
  */
-async function validateAndGetContext(c: any): Promise<ValidationResult> {
+async function authenticateConsumer(
+  c: any,
+  projectId: string
+): Promise<Response | null> {
+  const token = extractApiToken({
+    authorization: c.req.header("Authorization"),
+    apiKey: c.req.header("X-Api-Key"),
+  });
+
+  if (!token) {
+    return c.json(
+      errorResponse(
+        "API token required. Use: Authorization: Bearer <token> or X-Api-Key: <token>"
+      ),
+      401
+    );
+  }
+
+  const tokenRows = await db
+    .select()
+    .from(apiTokens)
+    .where(
+      and(
+        eq(apiTokens.token_hash, hashApiToken(token)),
+        eq(apiTokens.project_id, projectId),
+        isNull(apiTokens.revoked_at)
+      )
+    );
+
+  if (tokenRows.length === 0) {
+    return c.json(errorResponse("Invalid or revoked API token"), 401);
+  }
+
+  await db
+    .update(apiTokens)
+    .set({ last_used_at: new Date() })
+    .where(eq(apiTokens.uuid, tokenRows[0]!.uuid));
+
+  return null;
+}
+
+/**
+ * Set the RateLimit-Policy and RateLimit headers (IETF draft), with the
+ * per-minute request limit and the daily token limit as separate policies
+ */
+function setRateLimitHeaders(c: any, statuses: RateLimitStatus[]) {
+  c.header(
+    "RateLimit-Policy",
+    statuses
+      .map(s => `"${s.policy}";q=${s.limit};w=${s.windowSeconds}`)
+      .join(", ")
+  );
+  c.header(
+    "RateLimit",
+    statuses
+      .map(s => `"${s.policy}";r=${s.remaining};t=${s.resetSeconds}`)
+      .join(", ")
+  );
+}
+
+/**
+ * Resolve the endpoint from the request path, authenticate the consumer and
+ * collect the rate limits that apply.
+ *
+ * Batches are always POSTed, whatever the endpoint's method, and check rate
+ * limits per item rather than once for the request.
+ */
+async function resolveEndpointContext(
+  c: any,
+  { batch = false }: { batch?: boolean } = {}
+): Promise<EndpointContext | ValidationError> {
   const { organizationPath, projectName, endpointName } = c.req.valid("param");
 
   // 1. Find user by organization path
@@ -119,14 +259,15 @@ async function validateAndGetContext(c: any): Promise<ValidationResult> {
   }
   const project = projectRows[0]!;
 
-  // 3. Find endpoint by name within project
+  // 3. Find endpoint by name within project ("name@v3" pins a version)
+  const endpointRef = parseEndpointRef(endpointName);
   const endpointRows = await db
     .select()
     .from(endpoints)
     .where(
       and(
         eq(endpoints.project_id, project.uuid),
-        eq(endpoints.endpoint_name, endpointName),
+        eq(endpoints.endpoint_name, endpointRef.name),
         eq(endpoints.is_active, true)
       )
     );
@@ -137,11 +278,24 @@ async function validateAndGetContext(c: any): Promise<ValidationResult> {
       response: c.json(errorResponse("Endpoint not found"), 404),
     };
   }
-  const endpoint = endpointRows[0]!;
+
+  // 3b. Serve the pinned or published version, or the draft
+  const resolved = await resolveEndpointVersion(
+    endpointRows[0]!,
+    endpointRef.version
+  );
+  if (!resolved) {
+    return {
+      success: false,
+      response: c.json(errorResponse("Endpoint version not found"), 404),
+    };
+  }
+  const { endpoint } = resolved;
+  c.header("X-Endpoint-Version", resolved.version?.toString() ?? "draft");
 
   // 4. Validate HTTP method matches endpoint definition
   const requestMethod = c.req.method;
-  if (endpoint.http_method !== requestMethod) {
+  if (!batch && endpoint.http_method !== requestMethod) {
     return {
       success: false,
       response: c.json(
@@ -153,13 +307,82 @@ async function validateAndGetContext(c: any): Promise<ValidationResult> {
     };
   }
 
-  // 5. Get input data based on method
+  // 5. Require a project token unless the endpoint is public. The draft
+  // holds unpublished edits, so only token holders may call it.
+  if (!endpoint.is_public || endpointRef.version === "draft") {
+    const authError = await authenticateConsumer(c, project.uuid);
+    if (authError) {
+      return { success: false, response: authError };
+    }
+  }
+
+  // 5b. Enforce rate limits and token quotas
+  const settingsRows = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.user_id, user.uuid));
+  const settings = settingsRows[0] ?? null;
+  const rateLimitRules = getRateLimitRules(user, settings, project, endpoint);
+  if (!batch && rateLimitRules.length > 0) {
+    const rateLimit = await checkRateLimits(rateLimitRules);
+    if (rateLimit.statuses.length > 0) {
+      setRateLimitHeaders(c, rateLimit.statuses);
+    }
+    if (!rateLimit.allowed) {
+      c.header("Retry-After", String(rateLimit.exceeded.resetSeconds));
+      return {
+        success: false,
+        response: c.json(errorResponse(rateLimit.message), 429),
+      };
+    }
+  }
+
+  return {
+    success: true,
+    user,
+    settings,
+    project,
+    endpoint,
+    version: resolved.version,
+    rateLimitRules,
+  };
+}
+
+/**
+ * Validate request and get all required context data.
+ * This is shared between /prompt and main endpoints.
+ */
+async function validateAndGetContext(c: any): Promise<ValidationResult> {
+  const resolved = await resolveEndpointContext(c);
+  if (!resolved.success) {
+    return resolved;
+  }
+  const { endpoint } = resolved;
+  const requestMethod = c.req.method;
+
+  // 6. Get input data based on method
+  const inputSchema = endpoint.input_schema as JsonSchema | null;
   let inputData: unknown;
   try {
     if (requestMethod === "GET") {
-      // Parse query parameters
+      // Parse query parameters, coerced to the types declared in input_schema.
+      // "stream" and "async" are control flags rather than input unless the
+      // schema declares them
       const url = new URL(c.req.url);
-      inputData = Object.fromEntries(url.searchParams);
+      for (const flag of ["stream", "async"]) {
+        if (!inputSchema?.properties?.[flag]) {
+          url.searchParams.delete(flag);
+        }
+      }
+      inputData = coerceQueryParams(inputSchema, url.searchParams);
+    } else if (
+      c.req.header("Content-Type")?.startsWith("multipart/form-data")
+    ) {
+      // File uploads, for fields declared as images or files
+      inputData = await formDataToInput(
+        inputSchema,
+        await c.req.parseBody({ all: true })
+      );
     } else {
       // Parse JSON body
       inputData = await c.req.json();
@@ -171,32 +394,58 @@ async function validateAndGetContext(c: any): Promise<ValidationResult> {
     };
   }
 
-  // 6. Get LLM API key
-  const keyRows = await db
-    .select()
-    .from(llmApiKeys)
-    .where(
-      and(
-        eq(llmApiKeys.uuid, endpoint.llm_key_id),
-        eq(llmApiKeys.is_active, true)
-      )
-    );
+  // 7. Validate input against input_schema
+  if (inputSchema) {
+    const violations = validateJsonSchema(inputSchema, inputData);
+    if (violations.length > 0) {
+      return {
+        success: false,
+        response: c.json(
+          {
+            ...errorResponse("Input does not match input_schema"),
+            validation_errors: violations,
+          },
+          422
+        ),
+      };
+    }
+  }
+
+  // 7b. Render the instructions and context templates with the input
+  const templateError = checkEndpointTemplates(endpoint, inputData);
+  if (templateError) {
+    return {
+      success: false,
+      response: c.json(errorResponse(templateError), 422),
+    };
+  }
 
-  if (keyRows.length === 0) {
+  // 8. Get LLM API key and fallback keys
+  const keys = await loadEndpointKeys(endpoint);
+  if (!keys) {
     return {
       success: false,
       response: c.json(errorResponse("LLM API key not found or inactive"), 500),
     };
   }
-  const llmKey = keyRows[0]!;
 
-  return {
-    success: true,
-    project,
+  // 9. Check files against the type and size limits and the provider
+  const attachmentError = checkEndpointAttachments(
     endpoint,
-    llmKey,
-    inputData,
-  };
+    keys.llmKey.provider,
+    inputData
+  );
+  if (attachmentError) {
+    return {
+      success: false,
+      response: c.json(
+        errorResponse(attachmentError.message),
+        attachmentError.status
+      ),
+    };
+  }
+
+  return { ...resolved, ...keys, inputData };
 }
 
 // =============================================================================
@@ -214,13 +463,20 @@ async function handlePromptRequest(c: any) {
 
   const { endpoint, llmKey, inputData } = context;
 
+  // Files are shown by reference rather than as base64
+  const extracted = extractAttachments(
+    endpoint.input_schema as JsonSchema | null,
+    inputData
+  );
+
   // Generate the combined prompt using ApiHelper
   const prompt = ApiHelper.prompt({
-    inputData,
+    inputData: "input" in extracted ? extracted.input : inputData,
     outputSchema: endpoint.output_schema as JsonSchema | null,
     instructions: endpoint.instructions,
     context: endpoint.context,
     provider: llmKey.provider,
+    examples: endpoint.examples,
   });
 
   return c.json(
@@ -245,100 +501,112 @@ async function handleAIRequest(c: any) {
     return context.response;
   }
 
-  const { endpoint, llmKey, inputData } = context;
-
-  // Build the prompts for LLM call (providers expect system/user format)
-  const prompts = ApiHelper.buildLegacyPrompts({
-    inputData,
-    outputSchema: endpoint.output_schema as JsonSchema | null,
-    instructions: endpoint.instructions,
-    context: endpoint.context,
-    provider: llmKey.provider,
-  });
+  const { endpoint, llmKey, fallbackKeys, rateLimitRules, inputData } = context;
 
-  // Create LLM request
-  const llmRequest: LLMRequest = {
-    prompt: prompts.user,
-    systemPrompt: prompts.system,
-    outputSchema: (endpoint.output_schema as JsonSchema) ?? { type: "object" },
-  };
+  const llmRequest = buildLLMRequest(endpoint, llmKey.provider, inputData);
 
   // 4. Call LLM and return response
-  // Decrypt API key
-  let apiKey: string | undefined;
-  if (llmKey.encrypted_api_key && llmKey.encryption_iv) {
-    apiKey = decryptApiKey(llmKey.encrypted_api_key, llmKey.encryption_iv);
-  }
-
-  const provider = createLLMProvider(llmKey.provider, {
-    apiKey,
-    endpointUrl: llmKey.endpoint_url ?? undefined,
-  });
+  const allCandidates = buildFallbackChain(endpoint, { llmKey, fallbackKeys });
+  const provider = allCandidates[0]?.provider as
+    | RetryingLLMProvider
+    | undefined;
 
   // Debug info for troubleshooting (get actual URL from provider if available)
+  const baseProvider = provider?.unwrap();
   const actualEndpointUrl =
-    "getEndpointUrl" in provider
-      ? (provider as { getEndpointUrl: () => string }).getEndpointUrl()
+    baseProvider && "getEndpointUrl" in baseProvider
+      ? (baseProvider as { getEndpointUrl: () => string }).getEndpointUrl()
       : llmKey.endpoint_url;
   const debugInfo = {
     provider: llmKey.provider,
     endpointUrl: actualEndpointUrl,
-    request: llmRequest,
+    request: toDebugRequest(endpoint, inputData, llmRequest),
   };
 
-  try {
-    const llmResponse = await provider.generate(llmRequest);
+  // Queue the call for the job worker when the client opts in to async mode
+  if (wantsAsync(c)) {
+    const budget = await enforceBudgets(c, context, allCandidates);
+    if (!budget.success) {
+      return budget.response;
+    }
+    return enqueueJob(c, context, "single", inputData);
+  }
+
+  // Serve a cached response when caching is enabled for the endpoint
+  const cacheKey = endpoint.cache_ttl_seconds
+    ? buildCacheKey(endpoint, llmKey.provider, endpoint.model, inputData)
+    : null;
+  if (cacheKey) {
+    const cached = await getCachedResponse(cacheKey);
+    if (cached) {
+      const usage = await recordCacheHit(endpoint, cached, startTime, {
+        input: inputData,
+        request: null,
+      });
+      if (wantsStream(c)) {
+        return streamCachedResponse(c, cached.output, usage);
+      }
+      return c.json(successResponse({ output: cached.output, usage }));
+    }
+  }
 
-    // 5. Calculate cost
-    const costCents = estimateCost(
-      llmResponse.model,
-      llmResponse.usage.promptTokens,
-      llmResponse.usage.completionTokens
+  // Enforce monthly budgets; keys over their cap leave the fallback chain
+  const budget = await enforceBudgets(c, context, allCandidates);
+  if (!budget.success) {
+    return budget.response;
+  }
+  const { candidates } = budget;
+  const payload = { input: inputData, request: llmRequest };
+
+  // Stream partial JSON over SSE when the client opts in
+  if (wantsStream(c)) {
+    return streamAIResponse(
+      c,
+      endpoint,
+      candidates,
+      inputData,
+      llmRequest,
+      cacheKey,
+      rateLimitRules,
+      startTime
     );
+  }
 
-    // 6. Log analytics
-    await db.insert(usageAnalytics).values({
-      endpoint_id: endpoint.uuid,
-      success: true,
-      tokens_input: llmResponse.usage.promptTokens,
-      tokens_output: llmResponse.usage.completionTokens,
-      latency_ms: llmResponse.latencyMs,
-      estimated_cost_cents: Math.round(costCents * 100),
-      request_metadata: {
-        model: llmResponse.model,
-        provider: llmResponse.provider,
-      },
-    });
+  try {
+    const execution = await executeEndpoint(endpoint, candidates, llmRequest);
+    const llmResponse = execution.response;
+
+    // 5. Calculate cost and log analytics
+    const usage = await recordSuccess(endpoint, execution, payload);
+    await recordTokenUsage(rateLimitRules, llmResponse.usage.totalTokens);
+    if (cacheKey) {
+      await storeCachedResponse(endpoint, cacheKey, llmResponse);
+    }
 
-    // 7. Return response
+    // 6. Return response
     return c.json(
       successResponse({
         output: llmResponse.content,
-        usage: {
-          tokens_input: llmResponse.usage.promptTokens,
-          tokens_output: llmResponse.usage.completionTokens,
-          latency_ms: llmResponse.latencyMs,
-          estimated_cost_cents: Math.round(costCents * 100),
-        },
+        usage,
       })
     );
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    const latencyMs = Date.now() - startTime;
-
-    // Log failed analytics
-    await db.insert(usageAnalytics).values({
-      endpoint_id: endpoint.uuid,
-      success: false,
-      error_message: errorMessage,
-      latency_ms: latencyMs,
-    });
+    const errorBody = await recordFailure(
+      endpoint,
+      error,
+      startTime,
+      countRetries(candidates),
+      payload
+    );
+    const billed = getBilledUsage(error);
+    if (billed) {
+      await recordTokenUsage(rateLimitRules, billed.usage.totalTokens);
+    }
 
     return c.json(
       {
         success: false,
-        error: `LLM processing failed: ${errorMessage}`,
+        ...errorBody,
         debug: debugInfo,
         timestamp: new Date().toISOString(),
       },
@@ -347,12 +615,486 @@ async function handleAIRequest(c: any) {
   }
 }
 
+// =============================================================================
+// Batch Handler
+// =============================================================================
+
+/**
+ * Handle a batch of inputs for one endpoint. Each item goes through the same
+ * pipeline as a single request (see runBatch). Budgets are checked up front
+ * and again before each item, so a batch stops at the cap instead of
+ * overrunning it.
+ */
+async function handleBatchRequest(c: any) {
+  const context = await resolveEndpointContext(c, { batch: true });
+  if (!context.success) {
+    return context.response;
+  }
+
+  const { inputs, concurrency } = c.req.valid("json");
+  const { endpoint, rateLimitRules } = context;
+
+  const keys = await loadEndpointKeys(endpoint);
+  if (!keys) {
+    return c.json(errorResponse("LLM API key not found or inactive"), 500);
+  }
+
+  const budget = await enforceBudgets(
+    c,
+    { ...context, ...keys },
+    buildFallbackChain(endpoint, keys)
+  );
+  if (!budget.success) {
+    return budget.response;
+  }
+
+  if (wantsAsync(c)) {
+    return enqueueJob(c, context, "batch", { inputs, concurrency });
+  }
+
+  const batch = await runBatch(
+    {
+      endpoint,
+      keys,
+      rateLimitRules,
+      budgetOwners: getBudgetOwners(
+        context.user,
+        context.settings,
+        context.project,
+        keys
+      ),
+    },
+    inputs,
+    concurrency
+  );
+
+  return c.json(successResponse(batch));
+}
+
+// =============================================================================
+// Pipeline Handler
+// =============================================================================
+
+/**
+ * Handle a pipeline run. The request body is the pipeline input; each step
+ * runs the active draft or published version of its endpoint and is logged
+ * as its own analytics row, tagged with the pipeline and step ids.
+ */
+async function handlePipelineRequest(c: any) {
+  const { organizationPath, projectName, pipelineName } = c.req.valid("param");
+
+  const user = await findUserByOrgPath(organizationPath);
+  if (!user) {
+    return c.json(errorResponse("Organization not found"), 404);
+  }
+
+  const projectRows = await db
+    .select()
+    .from(projects)
+    .where(
+      and(
+        eq(projects.user_id, user.uuid),
+        eq(projects.project_name, projectName),
+        eq(projects.is_active, true)
+      )
+    );
+
+  if (projectRows.length === 0) {
+    return c.json(errorResponse("Project not found"), 404);
+  }
+  const project = projectRows[0]!;
+
+  const pipelineRows = await db
+    .select()
+    .from(pipelines)
+    .where(
+      and(
+        eq(pipelines.project_id, project.uuid),
+        eq(pipelines.pipeline_name, pipelineName),
+        eq(pipelines.is_active, true)
+      )
+    );
+
+  if (pipelineRows.length === 0) {
+    return c.json(errorResponse("Pipeline not found"), 404);
+  }
+  const pipeline = pipelineRows[0]!;
+
+  // Require a project token unless the pipeline is public
+  if (!pipeline.is_public) {
+    const authError = await authenticateConsumer(c, project.uuid);
+    if (authError) {
+      return authError;
+    }
+  }
+
+  let inputData: unknown;
+  try {
+    inputData = await c.req.json();
+  } catch {
+    return c.json(errorResponse("Invalid request body"), 400);
+  }
+
+  const settingsRows = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.user_id, user.uuid));
+  const settings = settingsRows[0] ?? null;
+
+  // Resolve every step before running any, so a missing endpoint or an
+  // exhausted budget fails the run without spending tokens
+  const targets: Record<string, EndpointCallTarget> = {};
+  for (const step of pipeline.steps) {
+    const endpointRows = await db
+      .select()
+      .from(endpoints)
+      .where(
+        and(
+          eq(endpoints.project_id, project.uuid),
+          eq(endpoints.uuid, step.endpoint_id),
+          eq(endpoints.is_active, true)
+        )
+      );
+
+    const resolved =
+      endpointRows.length > 0
+        ? await resolveEndpointVersion(endpointRows[0]!, null)
+        : null;
+    if (!resolved) {
+      return c.json(
+        errorResponse(`Endpoint for step "${step.id}" not found or inactive`),
+        500
+      );
+    }
+    const { endpoint } = resolved;
+
+    const keys = await loadEndpointKeys(endpoint);
+    if (!keys) {
+      return c.json(errorResponse("LLM API key not found or inactive"), 500);
+    }
+
+    const budget = await enforceBudgets(
+      c,
+      { user, settings, project, ...keys },
+      buildFallbackChain(endpoint, keys)
+    );
+    if (!budget.success) {
+      return budget.response;
+    }
+
+    targets[step.id] = {
+      endpoint,
+      keys,
+      rateLimitRules: getRateLimitRules(user, settings, project, endpoint),
+      availableKeyIds: new Set(
+        budget.candidates.map(candidate => candidate.llmKeyId)
+      ),
+      metadata: { pipeline_id: pipeline.uuid, pipeline_step: step.id },
+    };
+  }
+
+  const { success, ...result } = await runPipeline(
+    pipeline,
+    targets,
+    inputData
+  );
+
+  if (!success) {
+    const failed = result.steps.find(step => step.status === "failed");
+    return c.json(
+      {
+        ...errorResponse(`Pipeline step "${failed?.id}" failed`),
+        steps: result.steps,
+        usage: result.usage,
+      },
+      500
+    );
+  }
+
+  return c.json(successResponse(result));
+}
+
+/**
+ * Check the organization, project and key budgets before calling the LLM.
+ * An exhausted organization or project budget rejects the request with 402;
+ * keys over their budget are dropped from the fallback chain, and the
+ * request is rejected only when none remain. Budgets past the warning
+ * threshold are reported in the X-Budget-Warning header.
+ */
+async function enforceBudgets(
+  c: any,
+  {
+    user,
+    settings,
+    project,
+    llmKey,
+    fallbackKeys,
+  }: Pick<EndpointContext, "user" | "settings" | "project"> & EndpointKeys,
+  candidates: FallbackCandidate[]
+): Promise<
+  | { success: true; candidates: FallbackCandidate[] }
+  | { success: false; response: Response }
+> {
+  const budget = await checkBudgets(
+    getBudgetOwners(user, settings, project, { llmKey, fallbackKeys })
+  );
+  if (!budget.allowed) {
+    return {
+      success: false,
+      response: c.json(
+        {
+          ...errorResponse(budgetExceededMessage(budget.exceeded)),
+          budget: budget.exceeded,
+        },
+        402
+      ),
+    };
+  }
+
+  if (budget.warnings.length > 0) {
+    c.header(
+      "X-Budget-Warning",
+      budget.warnings
+        .map(s => `${s.scope} budget ${s.percent_used}% used`)
+        .join(", ")
+    );
+  }
+
+  return {
+    success: true,
+    candidates: candidates.filter(candidate =>
+      budget.availableKeyIds.has(candidate.llmKeyId)
+    ),
+  };
+}
+
+// =============================================================================
+// Async Jobs
+// =============================================================================
+
+/**
+ * Check whether the client asked for async mode
+ * (Prefer: respond-async or ?async=true)
+ */
+function wantsAsync(c: any): boolean {
+  const prefer = c.req.header("Prefer") ?? "";
+  return prefer.includes("respond-async") || c.req.query("async") === "true";
+}
+
+/**
+ * Queue the call and respond 202 with the job id. A webhook is posted on
+ * completion when X-Webhook-Url is set; its body is signed with the secret
+ * sent in X-Webhook-Secret.
+ */
+async function enqueueJob(
+  c: any,
+  { project, endpoint, version }: EndpointContext,
+  kind: JobKind,
+  input: unknown
+) {
+  const webhookUrl = c.req.header("X-Webhook-Url");
+  const webhookSecret = c.req.header("X-Webhook-Secret");
+
+  let webhook: JobWebhook | null = null;
+  if (webhookUrl) {
+    const urlError = await checkOutboundUrl(webhookUrl);
+    if (urlError) {
+      return c.json(errorResponse(`Invalid X-Webhook-Url: ${urlError}`), 400);
+    }
+    if (!webhookSecret) {
+      return c.json(
+        errorResponse("X-Webhook-Secret is required with X-Webhook-Url"),
+        400
+      );
+    }
+    webhook = { url: webhookUrl, secret: webhookSecret };
+  }
+
+  const job = await createJob({
+    projectId: project.uuid,
+    endpointId: endpoint.uuid,
+    version,
+    kind,
+    input,
+    webhook,
+  });
+
+  return c.json(successResponse({ job_id: job.uuid, status: job.status }), 202);
+}
+
+/**
+ * Handle a job status request. Jobs of private endpoints need a token for
+ * the job's project.
+ */
+async function handleJobRequest(c: any) {
+  const { jobId } = c.req.valid("param");
+
+  const rows = await db
+    .select({ job: aiJobs, isPublic: endpoints.is_public })
+    .from(aiJobs)
+    .innerJoin(endpoints, eq(aiJobs.endpoint_id, endpoints.uuid))
+    .where(eq(aiJobs.uuid, jobId));
+
+  if (rows.length === 0) {
+    return c.json(errorResponse("Job not found"), 404);
+  }
+  const { job, isPublic } = rows[0]!;
+
+  if (!isPublic) {
+    const authError = await authenticateConsumer(c, job.project_id);
+    if (authError) {
+      return authError;
+    }
+  }
+
+  const deliveries = await db
+    .select()
+    .from(aiJobWebhookDeliveries)
+    .where(eq(aiJobWebhookDeliveries.job_id, job.uuid))
+    .orderBy(asc(aiJobWebhookDeliveries.created_at));
+
+  return c.json(successResponse(toJobResponse(job, deliveries)));
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Check whether the client asked for an SSE stream
+ * (Accept: text/event-stream or ?stream=true)
+ */
+function wantsStream(c: any): boolean {
+  const accept = c.req.header("Accept") ?? "";
+  return (
+    accept.includes("text/event-stream") || c.req.query("stream") === "true"
+  );
+}
+
+/**
+ * Stream the LLM response as Server-Sent Events.
+ *
+ * Events:
+ * - delta: {"delta": "<partial JSON text>"} as the first attempt streams in
+ * - done: {"output": ..., "usage": ...} with the validated output. If the
+ *   streamed attempt needed repair, this output supersedes the deltas.
+ * - error: {"error": "..."} if generation or validation fails
+ *
+ * Failover to a fallback key only happens before the first delta is sent.
+ */
+function streamAIResponse(
+  c: any,
+  endpoint: typeof endpoints.$inferSelect,
+  candidates: FallbackCandidate[],
+  inputData: unknown,
+  llmRequest: LLMRequest,
+  cacheKey: string | null,
+  rateLimitRules: RateLimitRule[],
+  startTime: number
+) {
+  const payload = { input: inputData, request: llmRequest };
+
+  return streamSSE(c, async stream => {
+    const abortController = new AbortController();
+    stream.onAbort(() => abortController.abort());
+
+    // Keep SSE writes in order without blocking the provider's stream
+    let writes: Promise<void> = Promise.resolve();
+    const onDelta = (delta: string) => {
+      writes = writes.then(() =>
+        stream.writeSSE({ event: "delta", data: JSON.stringify({ delta }) })
+      );
+    };
+
+    try {
+      const execution = await executeEndpoint(
+        endpoint,
+        candidates,
+        llmRequest,
+        {
+          onDelta,
+          signal: abortController.signal,
+        }
+      );
+      const llmResponse = execution.response;
+      await writes;
+
+      const usage = await recordSuccess(endpoint, execution, payload);
+      await recordTokenUsage(rateLimitRules, llmResponse.usage.totalTokens);
+      if (cacheKey) {
+        await storeCachedResponse(endpoint, cacheKey, llmResponse);
+      }
+
+      await stream.writeSSE({
+        event: "done",
+        data: JSON.stringify({ output: llmResponse.content, usage }),
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        await recordFailure(
+          endpoint,
+          new Error("Stream aborted by client"),
+          startTime,
+          countRetries(candidates),
+          payload
+        );
+        return;
+      }
+
+      const errorBody = await recordFailure(
+        endpoint,
+        error,
+        startTime,
+        countRetries(candidates),
+        payload
+      );
+      const billed = getBilledUsage(error);
+      if (billed) {
+        await recordTokenUsage(rateLimitRules, billed.usage.totalTokens);
+      }
+      await writes.catch(() => {});
+      await stream.writeSSE({
+        event: "error",
+        data: JSON.stringify(errorBody),
+      });
+    }
+  });
+}
+
+/**
+ * Stream a cached output as a single delta followed by done, so clients see
+ * the same event sequence as for a live response
+ */
+function streamCachedResponse(
+  c: any,
+  output: unknown,
+  usage: Record<string, unknown>
+) {
+  return streamSSE(c, async stream => {
+    await stream.writeSSE({
+      event: "delta",
+      data: JSON.stringify({ delta: JSON.stringify(output) }),
+    });
+    await stream.writeSSE({
+      event: "done",
+      data: JSON.stringify({ output, usage }),
+    });
+  });
+}
+
 // =============================================================================
 // Route Registration
 // =============================================================================
 
-// IMPORTANT: Register /prompt routes BEFORE the main routes
-// Otherwise ":endpointName" will match "prompt" as the endpoint name
+// IMPORTANT: Register /pipelines, /prompt and /batch routes BEFORE the main
+// routes. Otherwise ":endpointName" will match "prompt" as the endpoint name
+
+// Pipeline execution
+aiRouter.post(
+  "/pipelines/:organizationPath/:projectName/:pipelineName",
+  zValidator("param", aiPipelineParamSchema),
+  handlePipelineRequest
+);
 
 // Prompt-only endpoints (new)
 aiRouter.get(
@@ -367,6 +1109,21 @@ aiRouter.post(
   handlePromptRequest
 );
 
+// Async job status
+aiRouter.get(
+  "/jobs/:jobId",
+  zValidator("param", jobIdParamSchema),
+  handleJobRequest
+);
+
+// Batch execution
+aiRouter.post(
+  "/:organizationPath/:projectName/:endpointName/batch",
+  zValidator("param", aiParamSchema),
+  zValidator("json", aiBatchSchema),
+  handleBatchRequest
+);
+
 // Main AI execution endpoints
 aiRouter.get(
   "/:organizationPath/:projectName/:endpointName",
@@ -1,8 +1,20 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
-import { db, users, projects, endpoints, usageAnalytics } from "../db";
-import { userIdParamSchema, analyticsQuerySchema } from "../schemas";
+import { eq, and, gte, lte, desc, sql, type SQL } from "drizzle-orm";
+import type { z } from "zod";
+import {
+  db,
+  users,
+  projects,
+  endpoints,
+  llmApiKeys,
+  usageAnalytics,
+} from "../db";
+import {
+  userIdParamSchema,
+  analyticsQuerySchema,
+  analyticsTimeseriesQuerySchema,
+} from "../schemas";
 import {
   successResponse,
   errorResponse,
@@ -13,6 +25,41 @@ import {
 
 const analyticsRouter = new Hono();
 
+/**
+ * Usage aggregates extended with the number of requests served from cache
+ * and the number of provider retries
+ */
+interface UsageExtras {
+  cache_hits: number;
+  total_retries: number;
+}
+type CachedUsageAggregate = UsageAggregate & UsageExtras;
+type CachedUsageByEndpoint = UsageByEndpoint & UsageExtras;
+
+type Granularity = z.infer<
+  typeof analyticsTimeseriesQuerySchema
+>["granularity"];
+
+/**
+ * Length of each time-series bucket. Weeks start on Monday, as date_trunc
+ * truncates them.
+ */
+const BUCKET_MS: Record<Granularity, number> = {
+  hour: 60 * 60_000,
+  day: 24 * 60 * 60_000,
+  week: 7 * 24 * 60 * 60_000,
+};
+
+/**
+ * Most buckets returned by one time-series query, after filling gaps
+ */
+const MAX_TIMESERIES_BUCKETS = 1000;
+
+/**
+ * Error messages returned in the breakdown
+ */
+const TOP_ERRORS_LIMIT = 10;
+
 /**
  * Helper to get user by Firebase UID
  */
@@ -25,6 +72,137 @@ async function getUserByFirebaseUid(firebaseUid: string) {
   return rows.length > 0 ? rows[0]! : null;
 }
 
+/**
+ * Resolve the usage rows a query covers: the user's endpoints, narrowed by
+ * the project, endpoint and date filters
+ * @returns The analytics conditions, or null if no endpoint matches
+ */
+async function resolveAnalyticsScope(
+  userUuid: string,
+  query: z.infer<typeof analyticsQuerySchema>
+) {
+  // Get all user's projects
+  const userProjects = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.user_id, userUuid));
+
+  if (userProjects.length === 0) {
+    return null;
+  }
+
+  const projectIds = userProjects.map(p => p.uuid);
+
+  // Get all endpoints for user's projects
+  const userEndpoints = await db
+    .select()
+    .from(endpoints)
+    .where(sql`${endpoints.project_id} IN ${projectIds}`);
+
+  if (userEndpoints.length === 0) {
+    return null;
+  }
+
+  const endpointIds = userEndpoints.map(e => e.uuid);
+
+  // Build conditions for analytics query
+  const conditions: SQL[] = [
+    sql`${usageAnalytics.endpoint_id} IN ${endpointIds}`,
+  ];
+
+  if (query.start_date) {
+    conditions.push(gte(usageAnalytics.timestamp, new Date(query.start_date)));
+  }
+  if (query.end_date) {
+    conditions.push(
+      lte(usageAnalytics.timestamp, new Date(query.end_date + "T23:59:59Z"))
+    );
+  }
+  if (query.endpoint_id) {
+    conditions.push(eq(usageAnalytics.endpoint_id, query.endpoint_id));
+  }
+  if (query.project_id) {
+    // Filter endpoints by project
+    const projectEndpoints = userEndpoints
+      .filter(e => e.project_id === query.project_id)
+      .map(e => e.uuid);
+    if (projectEndpoints.length === 0) {
+      return null;
+    }
+    conditions.push(sql`${usageAnalytics.endpoint_id} IN ${projectEndpoints}`);
+  }
+
+  return { conditions, userEndpoints };
+}
+
+/**
+ * Request, token and cost totals for a group of usage rows
+ */
+function usageTotalsColumns() {
+  return {
+    total_requests: sql<number>`COUNT(*)`,
+    successful_requests: sql<number>`SUM(CASE WHEN ${usageAnalytics.success} THEN 1 ELSE 0 END)`,
+    failed_requests: sql<number>`SUM(CASE WHEN NOT ${usageAnalytics.success} THEN 1 ELSE 0 END)`,
+    total_tokens_input: sql<number>`COALESCE(SUM(${usageAnalytics.tokens_input}), 0)`,
+    total_tokens_output: sql<number>`COALESCE(SUM(${usageAnalytics.tokens_output}), 0)`,
+    total_estimated_cost_cents: sql<number>`COALESCE(SUM(${usageAnalytics.estimated_cost_cents}), 0)`,
+    average_latency_ms: sql<number>`COALESCE(AVG(${usageAnalytics.latency_ms}), 0)`,
+  };
+}
+
+function emptyUsageTotals() {
+  return {
+    total_requests: 0,
+    successful_requests: 0,
+    failed_requests: 0,
+    total_tokens_input: 0,
+    total_tokens_output: 0,
+    total_estimated_cost_cents: 0,
+    average_latency_ms: 0,
+  };
+}
+
+function toUsageTotals(row: ReturnType<typeof emptyUsageTotals>) {
+  return {
+    total_requests: Number(row.total_requests),
+    successful_requests: Number(row.successful_requests),
+    failed_requests: Number(row.failed_requests),
+    total_tokens_input: Number(row.total_tokens_input),
+    total_tokens_output: Number(row.total_tokens_output),
+    total_estimated_cost_cents: Number(row.total_estimated_cost_cents),
+    average_latency_ms: Math.round(Number(row.average_latency_ms)),
+  };
+}
+
+/**
+ * A latency percentile over a group of usage rows, or null if none of them
+ * recorded latency
+ */
+function latencyPercentile(fraction: number) {
+  return sql<
+    number | null
+  >`percentile_cont(${sql.raw(String(fraction))}) WITHIN GROUP (ORDER BY ${usageAnalytics.latency_ms})`;
+}
+
+/**
+ * Start of the bucket a date falls in, matching date_trunc in UTC
+ */
+function truncateDate(date: Date, granularity: Granularity): number {
+  const day = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate()
+  );
+  switch (granularity) {
+    case "hour":
+      return day + date.getUTCHours() * BUCKET_MS.hour;
+    case "day":
+      return day;
+    case "week":
+      return day - ((date.getUTCDay() + 6) % 7) * BUCKET_MS.day;
+  }
+}
+
 // GET analytics for user
 analyticsRouter.get(
   "/",
@@ -47,152 +225,59 @@ analyticsRouter.get(
       return c.json(errorResponse("User not found"), 404);
     }
 
-    // Get all user's projects
-    const userProjects = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.user_id, user.uuid));
-
-    if (userProjects.length === 0) {
+    const scope = await resolveAnalyticsScope(user.uuid, query);
+    if (!scope) {
       const emptyResponse: AnalyticsResponse = {
         aggregate: {
-          total_requests: 0,
-          successful_requests: 0,
-          failed_requests: 0,
-          total_tokens_input: 0,
-          total_tokens_output: 0,
-          total_estimated_cost_cents: 0,
-          average_latency_ms: 0,
-        },
+          ...emptyUsageTotals(),
+          cache_hits: 0,
+          total_retries: 0,
+        } as CachedUsageAggregate,
         by_endpoint: [],
       };
       return c.json(successResponse(emptyResponse));
     }
 
-    const projectIds = userProjects.map(p => p.uuid);
-
-    // Get all endpoints for user's projects
-    const userEndpoints = await db
-      .select()
-      .from(endpoints)
-      .where(sql`${endpoints.project_id} IN ${projectIds}`);
-
-    if (userEndpoints.length === 0) {
-      const emptyResponse: AnalyticsResponse = {
-        aggregate: {
-          total_requests: 0,
-          successful_requests: 0,
-          failed_requests: 0,
-          total_tokens_input: 0,
-          total_tokens_output: 0,
-          total_estimated_cost_cents: 0,
-          average_latency_ms: 0,
-        },
-        by_endpoint: [],
-      };
-      return c.json(successResponse(emptyResponse));
-    }
-
-    const endpointIds = userEndpoints.map(e => e.uuid);
+    const { conditions, userEndpoints } = scope;
     const endpointNameMap = new Map(
       userEndpoints.map(e => [e.uuid, e.endpoint_name])
     );
 
-    // Build conditions for analytics query
-    const conditions = [sql`${usageAnalytics.endpoint_id} IN ${endpointIds}`];
-
-    if (query.start_date) {
-      conditions.push(
-        gte(usageAnalytics.timestamp, new Date(query.start_date))
-      );
-    }
-    if (query.end_date) {
-      conditions.push(
-        lte(usageAnalytics.timestamp, new Date(query.end_date + "T23:59:59Z"))
-      );
-    }
-    if (query.endpoint_id) {
-      conditions.push(eq(usageAnalytics.endpoint_id, query.endpoint_id));
-    }
-    if (query.project_id) {
-      // Filter endpoints by project
-      const projectEndpoints = userEndpoints
-        .filter(e => e.project_id === query.project_id)
-        .map(e => e.uuid);
-      if (projectEndpoints.length === 0) {
-        const emptyResponse: AnalyticsResponse = {
-          aggregate: {
-            total_requests: 0,
-            successful_requests: 0,
-            failed_requests: 0,
-            total_tokens_input: 0,
-            total_tokens_output: 0,
-            total_estimated_cost_cents: 0,
-            average_latency_ms: 0,
-          },
-          by_endpoint: [],
-        };
-        return c.json(successResponse(emptyResponse));
-      }
-      conditions.push(
-        sql`${usageAnalytics.endpoint_id} IN ${projectEndpoints}`
-      );
-    }
-
     // Get aggregated stats
     const aggregateResult = await db
       .select({
-        total_requests: sql<number>`COUNT(*)`,
-        successful_requests: sql<number>`SUM(CASE WHEN ${usageAnalytics.success} THEN 1 ELSE 0 END)`,
-        failed_requests: sql<number>`SUM(CASE WHEN NOT ${usageAnalytics.success} THEN 1 ELSE 0 END)`,
-        total_tokens_input: sql<number>`COALESCE(SUM(${usageAnalytics.tokens_input}), 0)`,
-        total_tokens_output: sql<number>`COALESCE(SUM(${usageAnalytics.tokens_output}), 0)`,
-        total_estimated_cost_cents: sql<number>`COALESCE(SUM(${usageAnalytics.estimated_cost_cents}), 0)`,
-        average_latency_ms: sql<number>`COALESCE(AVG(${usageAnalytics.latency_ms}), 0)`,
+        ...usageTotalsColumns(),
+        cache_hits: sql<number>`SUM(CASE WHEN ${usageAnalytics.cache_hit} THEN 1 ELSE 0 END)`,
+        total_retries: sql<number>`COALESCE(SUM(${usageAnalytics.retry_count}), 0)`,
       })
       .from(usageAnalytics)
       .where(and(...conditions));
 
-    const aggregate: UsageAggregate = {
-      total_requests: Number(aggregateResult[0]?.total_requests ?? 0),
-      successful_requests: Number(aggregateResult[0]?.successful_requests ?? 0),
-      failed_requests: Number(aggregateResult[0]?.failed_requests ?? 0),
-      total_tokens_input: Number(aggregateResult[0]?.total_tokens_input ?? 0),
-      total_tokens_output: Number(aggregateResult[0]?.total_tokens_output ?? 0),
-      total_estimated_cost_cents: Number(
-        aggregateResult[0]?.total_estimated_cost_cents ?? 0
-      ),
-      average_latency_ms: Math.round(
-        Number(aggregateResult[0]?.average_latency_ms ?? 0)
-      ),
+    const [aggregateRow] = aggregateResult;
+    const aggregate: CachedUsageAggregate = {
+      ...toUsageTotals(aggregateRow ?? emptyUsageTotals()),
+      cache_hits: Number(aggregateRow?.cache_hits ?? 0),
+      total_retries: Number(aggregateRow?.total_retries ?? 0),
     };
 
     // Get stats by endpoint
     const byEndpointResult = await db
       .select({
         endpoint_id: usageAnalytics.endpoint_id,
-        total_requests: sql<number>`COUNT(*)`,
-        successful_requests: sql<number>`SUM(CASE WHEN ${usageAnalytics.success} THEN 1 ELSE 0 END)`,
-        failed_requests: sql<number>`SUM(CASE WHEN NOT ${usageAnalytics.success} THEN 1 ELSE 0 END)`,
-        total_tokens_input: sql<number>`COALESCE(SUM(${usageAnalytics.tokens_input}), 0)`,
-        total_tokens_output: sql<number>`COALESCE(SUM(${usageAnalytics.tokens_output}), 0)`,
-        total_estimated_cost_cents: sql<number>`COALESCE(SUM(${usageAnalytics.estimated_cost_cents}), 0)`,
-        average_latency_ms: sql<number>`COALESCE(AVG(${usageAnalytics.latency_ms}), 0)`,
+        ...usageTotalsColumns(),
+        cache_hits: sql<number>`SUM(CASE WHEN ${usageAnalytics.cache_hit} THEN 1 ELSE 0 END)`,
+        total_retries: sql<number>`COALESCE(SUM(${usageAnalytics.retry_count}), 0)`,
       })
       .from(usageAnalytics)
       .where(and(...conditions))
       .groupBy(usageAnalytics.endpoint_id);
 
-    const byEndpoint: UsageByEndpoint[] = byEndpointResult.map(row => ({
+    const byEndpoint: CachedUsageByEndpoint[] = byEndpointResult.map(row => ({
       endpoint_id: row.endpoint_id,
       endpoint_name: endpointNameMap.get(row.endpoint_id) ?? "unknown",
-      total_requests: Number(row.total_requests),
-      successful_requests: Number(row.successful_requests),
-      failed_requests: Number(row.failed_requests),
-      total_tokens_input: Number(row.total_tokens_input),
-      total_tokens_output: Number(row.total_tokens_output),
-      total_estimated_cost_cents: Number(row.total_estimated_cost_cents),
-      average_latency_ms: Math.round(Number(row.average_latency_ms)),
+      ...toUsageTotals(row),
+      cache_hits: Number(row.cache_hits),
+      total_retries: Number(row.total_retries),
     }));
 
     const response: AnalyticsResponse = {
@@ -204,4 +289,189 @@ analyticsRouter.get(
   }
 );
 
+// GET usage over time in hour, day or week buckets
+analyticsRouter.get(
+  "/timeseries",
+  zValidator("param", userIdParamSchema),
+  zValidator("query", analyticsTimeseriesQuerySchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId } = c.req.valid("param");
+    const query = c.req.valid("query");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own analytics"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const scope = await resolveAnalyticsScope(user.uuid, query);
+    const rows = scope
+      ? await db
+          .select({
+            bucket:
+              sql<Date>`date_trunc(${sql.raw(`'${query.granularity}'`)}, ${usageAnalytics.timestamp})`.mapWith(
+                usageAnalytics.timestamp
+              ),
+            ...usageTotalsColumns(),
+            latency_p50_ms: latencyPercentile(0.5),
+            latency_p95_ms: latencyPercentile(0.95),
+            latency_p99_ms: latencyPercentile(0.99),
+          })
+          .from(usageAnalytics)
+          .where(and(...scope.conditions))
+          .groupBy(sql`1`)
+          .orderBy(sql`1`)
+      : [];
+
+    const byBucket = new Map(rows.map(row => [row.bucket.getTime(), row]));
+
+    // Fill empty buckets across the requested range (or the data's range)
+    const bucketMs = BUCKET_MS[query.granularity];
+    const first = query.start_date
+      ? truncateDate(new Date(query.start_date), query.granularity)
+      : rows[0]?.bucket.getTime();
+    const last = query.end_date
+      ? truncateDate(new Date(query.end_date + "T23:59:59Z"), query.granularity)
+      : rows[rows.length - 1]?.bucket.getTime();
+
+    if (first === undefined || last === undefined || first > last) {
+      return c.json(
+        successResponse({ granularity: query.granularity, buckets: [] })
+      );
+    }
+    if ((last - first) / bucketMs + 1 > MAX_TIMESERIES_BUCKETS) {
+      return c.json(
+        errorResponse(
+          `Time range spans more than ${MAX_TIMESERIES_BUCKETS} buckets; narrow the dates or use a coarser granularity`
+        ),
+        400
+      );
+    }
+
+    const percentile = (value: number | null | undefined) =>
+      value === null || value === undefined ? null : Math.round(Number(value));
+
+    const buckets = [];
+    for (let time = first; time <= last; time += bucketMs) {
+      const row = byBucket.get(time);
+      buckets.push({
+        bucket: new Date(time).toISOString(),
+        ...(row ? toUsageTotals(row) : emptyUsageTotals()),
+        latency_p50_ms: percentile(row?.latency_p50_ms),
+        latency_p95_ms: percentile(row?.latency_p95_ms),
+        latency_p99_ms: percentile(row?.latency_p99_ms),
+      });
+    }
+
+    return c.json(successResponse({ granularity: query.granularity, buckets }));
+  }
+);
+
+// GET usage broken down by model, provider and key, with the top errors
+analyticsRouter.get(
+  "/breakdown",
+  zValidator("param", userIdParamSchema),
+  zValidator("query", analyticsQuerySchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId } = c.req.valid("param");
+    const query = c.req.valid("query");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own analytics"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const scope = await resolveAnalyticsScope(user.uuid, query);
+    if (!scope) {
+      return c.json(
+        successResponse({
+          by_model: [],
+          by_provider: [],
+          by_key: [],
+          top_errors: [],
+        })
+      );
+    }
+    const where = and(...scope.conditions);
+
+    // Calls that failed before reaching a provider have no model, provider
+    // or key; they are grouped under null
+    const groupBy = async (field: string) => {
+      const value = sql<
+        string | null
+      >`${usageAnalytics.request_metadata}->>${sql.raw(`'${field}'`)}`;
+      const rows = await db
+        .select({ value, ...usageTotalsColumns() })
+        .from(usageAnalytics)
+        .where(where)
+        .groupBy(value)
+        .orderBy(desc(sql`COUNT(*)`));
+      return rows.map(row => ({ value: row.value, ...toUsageTotals(row) }));
+    };
+
+    const [byModel, byProvider, byKey, topErrors, keys] = await Promise.all([
+      groupBy("model"),
+      groupBy("provider"),
+      groupBy("llm_key_id"),
+      db
+        .select({
+          error_message: usageAnalytics.error_message,
+          count: sql<number>`COUNT(*)`,
+          last_seen: sql<Date>`MAX(${usageAnalytics.timestamp})`.mapWith(
+            usageAnalytics.timestamp
+          ),
+        })
+        .from(usageAnalytics)
+        .where(and(where, eq(usageAnalytics.success, false)))
+        .groupBy(usageAnalytics.error_message)
+        .orderBy(desc(sql`COUNT(*)`))
+        .limit(TOP_ERRORS_LIMIT),
+      db
+        .select({ uuid: llmApiKeys.uuid, key_name: llmApiKeys.key_name })
+        .from(llmApiKeys)
+        .where(eq(llmApiKeys.user_id, user.uuid)),
+    ]);
+
+    const keyNameMap = new Map(keys.map(key => [key.uuid, key.key_name]));
+
+    return c.json(
+      successResponse({
+        by_model: byModel.map(({ value, ...totals }) => ({
+          model: value,
+          ...totals,
+        })),
+        by_provider: byProvider.map(({ value, ...totals }) => ({
+          provider: value,
+          ...totals,
+        })),
+        by_key: byKey.map(({ value, ...totals }) => ({
+          llm_key_id: value,
+          key_name: value ? (keyNameMap.get(value) ?? null) : null,
+          ...totals,
+        })),
+        top_errors: topErrors.map(row => ({
+          error_message: row.error_message,
+          count: Number(row.count),
+          last_seen: row.last_seen,
+        })),
+      })
+    );
+  }
+);
+
 export default analyticsRouter;
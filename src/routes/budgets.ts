@@ -0,0 +1,101 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq } from "drizzle-orm";
+import { db, users, userSettings, projects, llmApiKeys } from "../db";
+import { userIdParamSchema } from "../schemas";
+import { successResponse, errorResponse } from "@sudobility/shapeshyft_types";
+import { getBudgetStatus, getMonthStart } from "../services/budget";
+
+const budgetsRouter = new Hono();
+
+/**
+ * Helper to get user by Firebase UID
+ */
+async function getUserByFirebaseUid(firebaseUid: string) {
+  const rows = await db
+    .select()
+    .from(users)
+    .where(eq(users.firebase_uid, firebaseUid));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+// GET current month's spend against the user, project and key budgets
+budgetsRouter.get("/", zValidator("param", userIdParamSchema), async c => {
+  const firebaseUser = c.get("firebaseUser");
+  const { userId } = c.req.valid("param");
+
+  if (firebaseUser.uid !== userId) {
+    return c.json(errorResponse("You can only access your own budgets"), 403);
+  }
+
+  const user = await getUserByFirebaseUid(firebaseUser.uid);
+  if (!user) {
+    return c.json(errorResponse("User not found"), 404);
+  }
+
+  const now = new Date();
+
+  const settingsRows = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.user_id, user.uuid));
+
+  const userProjects = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.user_id, user.uuid))
+    .orderBy(projects.project_name);
+
+  const userKeys = await db
+    .select()
+    .from(llmApiKeys)
+    .where(eq(llmApiKeys.user_id, user.uuid))
+    .orderBy(llmApiKeys.key_name);
+
+  const userStatus = await getBudgetStatus(
+    {
+      scope: "user",
+      scopeId: user.uuid,
+      budgetCents: settingsRows[0]?.monthly_budget_cents ?? null,
+    },
+    now
+  );
+
+  const projectStatuses = [];
+  for (const project of userProjects) {
+    const status = await getBudgetStatus(
+      {
+        scope: "project",
+        scopeId: project.uuid,
+        budgetCents: project.monthly_budget_cents,
+      },
+      now
+    );
+    projectStatuses.push({ ...status, project_name: project.project_name });
+  }
+
+  const keyStatuses = [];
+  for (const key of userKeys) {
+    const status = await getBudgetStatus(
+      {
+        scope: "key",
+        scopeId: key.uuid,
+        budgetCents: key.monthly_budget_cents,
+      },
+      now
+    );
+    keyStatuses.push({ ...status, key_name: key.key_name });
+  }
+
+  return c.json(
+    successResponse({
+      month_start: getMonthStart(now).toISOString(),
+      user: userStatus,
+      projects: projectStatuses,
+      keys: keyStatuses,
+    })
+  );
+});
+
+export default budgetsRouter;
@@ -6,9 +6,33 @@ import {
   endpointCreateSchema,
   endpointUpdateSchema,
   endpointIdParamSchema,
+  endpointVersionParamSchema,
+  endpointPublishSchema,
+  endpointRollbackSchema,
+  endpointDiffQuerySchema,
   projectIdParamSchema,
 } from "../schemas";
-import { successResponse, errorResponse } from "@sudobility/shapeshyft_types";
+import {
+  successResponse,
+  errorResponse,
+  type JsonSchema,
+} from "@sudobility/shapeshyft_types";
+import { validateJsonSchema } from "../lib/schema-validator";
+import type { PromptExample } from "../lib/prompt-builder";
+import { checkTemplate } from "../lib/template";
+import {
+  validateGenerationConfig,
+  type GenerationConfig,
+} from "../services/llm";
+import { invalidateEndpointCache } from "../services/response-cache";
+import {
+  diffSnapshots,
+  getEndpointVersion,
+  listEndpointVersions,
+  publishEndpointVersion,
+  snapshotEndpoint,
+  type EndpointSnapshot,
+} from "../services/endpoint-versions";
 
 const endpointsRouter = new Hono();
 
@@ -48,6 +72,103 @@ async function verifyKeyOwnership(userUuid: string, keyId: string) {
   return rows.length > 0 ? rows[0]! : null;
 }
 
+/**
+ * Helper to get an endpoint within a project
+ */
+async function getProjectEndpoint(projectId: string, endpointId: string) {
+  const rows = await db
+    .select()
+    .from(endpoints)
+    .where(
+      and(eq(endpoints.project_id, projectId), eq(endpoints.uuid, endpointId))
+    );
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Helper to verify fallback keys belong to user and support the endpoint's
+ * generation parameters
+ * @returns An error message, or null if the fallback chain is valid
+ */
+async function verifyFallbackKeys(
+  userUuid: string,
+  primaryKeyId: string,
+  fallbackKeyIds: string[],
+  generationConfig: GenerationConfig
+): Promise<string | null> {
+  if (
+    new Set(fallbackKeyIds).size !== fallbackKeyIds.length ||
+    fallbackKeyIds.includes(primaryKeyId)
+  ) {
+    return "Fallback keys must be distinct and must not include llm_key_id";
+  }
+
+  for (const keyId of fallbackKeyIds) {
+    const key = await verifyKeyOwnership(userUuid, keyId);
+    if (!key) {
+      return `Fallback LLM key ${keyId} not found or doesn't belong to you`;
+    }
+
+    // The endpoint's model only applies to keys of the primary provider
+    const configErrors = validateGenerationConfig(key.provider, {
+      ...generationConfig,
+      model: undefined,
+    });
+    if (configErrors.length > 0) {
+      return `Fallback LLM key ${keyId}: ${configErrors.join("; ")}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Helper to verify few-shot examples match the endpoint's schemas
+ * @returns An error message, or null if every example is valid
+ */
+function verifyExamples(
+  examples: PromptExample[],
+  inputSchema: JsonSchema | null,
+  outputSchema: JsonSchema | null
+): string | null {
+  for (const [index, example] of examples.entries()) {
+    const checks = [
+      { field: "input", schema: inputSchema, value: example.input },
+      { field: "output", schema: outputSchema, value: example.output },
+    ];
+    for (const { field, schema, value } of checks) {
+      if (!schema) continue;
+      const violations = validateJsonSchema(schema, value);
+      if (violations.length > 0) {
+        const { path, message } = violations[0]!;
+        return `Example ${index + 1} ${field} does not match ${field}_schema: ${path}: ${message}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Helper to verify the instructions and context templates parse and only
+ * reference fields of input_schema
+ * @returns An error message, or null if both are valid
+ */
+function verifyTemplates(
+  templates: { instructions: string | null; context: string | null },
+  inputSchema: JsonSchema | null
+): string | null {
+  for (const [field, template] of Object.entries(templates)) {
+    const error = template && checkTemplate(template, inputSchema);
+    if (error) {
+      return `Template error in ${field}: ${error}`;
+    }
+  }
+
+  return null;
+}
+
 // GET all endpoints for project
 endpointsRouter.get("/", zValidator("param", projectIdParamSchema), async c => {
   const firebaseUser = c.get("firebaseUser");
@@ -151,6 +272,46 @@ endpointsRouter.post(
       );
     }
 
+    // Verify generation parameters are supported by the key's provider
+    const configErrors = validateGenerationConfig(llmKey.provider, body);
+    if (configErrors.length > 0) {
+      return c.json(errorResponse(configErrors.join("; ")), 400);
+    }
+
+    if (body.fallback_key_ids) {
+      const fallbackError = await verifyFallbackKeys(
+        user.uuid,
+        llmKey.uuid,
+        body.fallback_key_ids,
+        body
+      );
+      if (fallbackError) {
+        return c.json(errorResponse(fallbackError), 400);
+      }
+    }
+
+    const templateError = verifyTemplates(
+      {
+        instructions: body.instructions ?? null,
+        context: body.context ?? null,
+      },
+      body.input_schema ?? null
+    );
+    if (templateError) {
+      return c.json(errorResponse(templateError), 400);
+    }
+
+    if (body.examples) {
+      const examplesError = verifyExamples(
+        body.examples,
+        body.input_schema ?? null,
+        body.output_schema ?? null
+      );
+      if (examplesError) {
+        return c.json(errorResponse(examplesError), 400);
+      }
+    }
+
     // Check for duplicate endpoint name within project
     const existing = await db
       .select()
@@ -181,6 +342,25 @@ endpointsRouter.post(
         output_schema: body.output_schema ?? null,
         instructions: body.instructions ?? null,
         context: body.context ?? null,
+        model: body.model ?? null,
+        temperature: body.temperature ?? null,
+        top_p: body.top_p ?? null,
+        max_tokens: body.max_tokens ?? null,
+        stop_sequences: body.stop_sequences ?? null,
+        seed: body.seed ?? null,
+        max_repair_attempts: body.max_repair_attempts ?? 0,
+        cache_ttl_seconds: body.cache_ttl_seconds ?? null,
+        fallback_key_ids: body.fallback_key_ids ?? null,
+        fallback_on: body.fallback_on ?? null,
+        examples: body.examples ?? null,
+        max_retries: body.max_retries ?? null,
+        timeout_ms: body.timeout_ms ?? null,
+        rate_limit_rpm: body.rate_limit_rpm ?? null,
+        daily_token_limit: body.daily_token_limit ?? null,
+        log_payloads: body.log_payloads ?? false,
+        log_retention_days: body.log_retention_days ?? null,
+        log_redact_fields: body.log_redact_fields ?? null,
+        is_public: body.is_public ?? false,
       })
       .returning();
 
@@ -229,17 +409,84 @@ endpointsRouter.put(
 
     const current = existing[0]!;
 
-    // If changing LLM key, verify it belongs to user
-    if (body.llm_key_id && body.llm_key_id !== current.llm_key_id) {
-      const llmKey = await verifyKeyOwnership(user.uuid, body.llm_key_id);
-      if (!llmKey) {
-        return c.json(
-          errorResponse("LLM key not found or doesn't belong to you"),
-          400
-        );
+    // Verify the (new or current) LLM key belongs to user
+    const llmKey = await verifyKeyOwnership(
+      user.uuid,
+      body.llm_key_id ?? current.llm_key_id
+    );
+    if (!llmKey) {
+      return c.json(
+        errorResponse("LLM key not found or doesn't belong to you"),
+        400
+      );
+    }
+
+    // Null clears a generation parameter, undefined keeps the current value
+    const generationConfig = {
+      model: body.model !== undefined ? body.model : current.model,
+      temperature:
+        body.temperature !== undefined ? body.temperature : current.temperature,
+      top_p: body.top_p !== undefined ? body.top_p : current.top_p,
+      max_tokens:
+        body.max_tokens !== undefined ? body.max_tokens : current.max_tokens,
+      stop_sequences:
+        body.stop_sequences !== undefined
+          ? body.stop_sequences
+          : current.stop_sequences,
+      seed: body.seed !== undefined ? body.seed : current.seed,
+    };
+
+    // Verify generation parameters are supported by the key's provider
+    const configErrors = validateGenerationConfig(
+      llmKey.provider,
+      generationConfig
+    );
+    if (configErrors.length > 0) {
+      return c.json(errorResponse(configErrors.join("; ")), 400);
+    }
+
+    const fallbackKeyIds =
+      body.fallback_key_ids !== undefined
+        ? body.fallback_key_ids
+        : current.fallback_key_ids;
+    if (fallbackKeyIds) {
+      const fallbackError = await verifyFallbackKeys(
+        user.uuid,
+        llmKey.uuid,
+        fallbackKeyIds,
+        generationConfig
+      );
+      if (fallbackError) {
+        return c.json(errorResponse(fallbackError), 400);
+      }
+    }
+
+    // Existing examples are re-checked when the schemas change
+    const examples =
+      body.examples !== undefined ? body.examples : current.examples;
+    if (examples) {
+      const examplesError = verifyExamples(
+        examples,
+        (body.input_schema ?? current.input_schema) as JsonSchema | null,
+        (body.output_schema ?? current.output_schema) as JsonSchema | null
+      );
+      if (examplesError) {
+        return c.json(errorResponse(examplesError), 400);
       }
     }
 
+    // Existing templates are re-checked when input_schema changes
+    const templateError = verifyTemplates(
+      {
+        instructions: body.instructions ?? current.instructions,
+        context: body.context ?? current.context,
+      },
+      (body.input_schema ?? current.input_schema) as JsonSchema | null
+    );
+    if (templateError) {
+      return c.json(errorResponse(templateError), 400);
+    }
+
     // Check for duplicate endpoint name if changing
     if (body.endpoint_name && body.endpoint_name !== current.endpoint_name) {
       const duplicate = await db
@@ -271,6 +518,43 @@ endpointsRouter.put(
         output_schema: body.output_schema ?? current.output_schema,
         instructions: body.instructions ?? current.instructions,
         context: body.context ?? current.context,
+        ...generationConfig,
+        max_repair_attempts:
+          body.max_repair_attempts ?? current.max_repair_attempts,
+        cache_ttl_seconds:
+          body.cache_ttl_seconds !== undefined
+            ? body.cache_ttl_seconds
+            : current.cache_ttl_seconds,
+        fallback_key_ids: fallbackKeyIds,
+        fallback_on:
+          body.fallback_on !== undefined
+            ? body.fallback_on
+            : current.fallback_on,
+        examples,
+        max_retries:
+          body.max_retries !== undefined
+            ? body.max_retries
+            : current.max_retries,
+        timeout_ms:
+          body.timeout_ms !== undefined ? body.timeout_ms : current.timeout_ms,
+        rate_limit_rpm:
+          body.rate_limit_rpm !== undefined
+            ? body.rate_limit_rpm
+            : current.rate_limit_rpm,
+        daily_token_limit:
+          body.daily_token_limit !== undefined
+            ? body.daily_token_limit
+            : current.daily_token_limit,
+        log_payloads: body.log_payloads ?? current.log_payloads,
+        log_retention_days:
+          body.log_retention_days !== undefined
+            ? body.log_retention_days
+            : current.log_retention_days,
+        log_redact_fields:
+          body.log_redact_fields !== undefined
+            ? body.log_redact_fields
+            : current.log_redact_fields,
+        is_public: body.is_public ?? current.is_public,
         is_active: body.is_active ?? current.is_active,
         updated_at: new Date(),
       })
@@ -321,4 +605,275 @@ endpointsRouter.delete(
   }
 );
 
+// DELETE cached responses for endpoint
+endpointsRouter.delete(
+  "/:endpointId/cache",
+  zValidator("param", endpointIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only invalidate your own endpoint caches"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const existing = await db
+      .select()
+      .from(endpoints)
+      .where(
+        and(eq(endpoints.project_id, projectId), eq(endpoints.uuid, endpointId))
+      );
+
+    if (existing.length === 0) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const deleted = await invalidateEndpointCache(endpointId);
+
+    return c.json(successResponse({ deleted }));
+  }
+);
+
+// POST publish the endpoint's draft as a new version
+endpointsRouter.post(
+  "/:endpointId/publish",
+  zValidator("param", endpointIdParamSchema),
+  zValidator("json", endpointPublishSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only publish your own endpoints"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const endpoint = await getProjectEndpoint(projectId, endpointId);
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const version = await publishEndpointVersion(endpoint, body.notes ?? null);
+
+    return c.json(successResponse(version), 201);
+  }
+);
+
+// GET all versions of endpoint, newest first
+endpointsRouter.get(
+  "/:endpointId/versions",
+  zValidator("param", endpointIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own endpoints"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const endpoint = await getProjectEndpoint(projectId, endpointId);
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const versions = await listEndpointVersions(endpointId);
+
+    return c.json(successResponse(versions));
+  }
+);
+
+// GET diff between two versions (or a version and the draft)
+// Registered before /versions/:version so "diff" is not taken as a version
+endpointsRouter.get(
+  "/:endpointId/versions/diff",
+  zValidator("param", endpointIdParamSchema),
+  zValidator("query", endpointDiffQuerySchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+    const query = c.req.valid("query");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own endpoints"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const endpoint = await getProjectEndpoint(projectId, endpointId);
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const from = await getEndpointVersion(endpointId, query.from);
+    if (!from) {
+      return c.json(errorResponse(`Version ${query.from} not found`), 404);
+    }
+
+    let to: EndpointSnapshot;
+    if (query.to === "draft") {
+      to = snapshotEndpoint(endpoint);
+    } else {
+      const version = await getEndpointVersion(endpointId, query.to);
+      if (!version) {
+        return c.json(errorResponse(`Version ${query.to} not found`), 404);
+      }
+      to = version.snapshot as EndpointSnapshot;
+    }
+
+    return c.json(
+      successResponse({
+        from: query.from,
+        to: query.to,
+        changes: diffSnapshots(from.snapshot as EndpointSnapshot, to),
+      })
+    );
+  }
+);
+
+// GET single version of endpoint
+endpointsRouter.get(
+  "/:endpointId/versions/:version",
+  zValidator("param", endpointVersionParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId, version } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own endpoints"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const endpoint = await getProjectEndpoint(projectId, endpointId);
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const row = await getEndpointVersion(endpointId, version);
+    if (!row) {
+      return c.json(errorResponse("Version not found"), 404);
+    }
+
+    return c.json(successResponse(row));
+  }
+);
+
+// POST roll the published version back
+endpointsRouter.post(
+  "/:endpointId/rollback",
+  zValidator("param", endpointIdParamSchema),
+  zValidator("json", endpointRollbackSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only roll back your own endpoints"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const endpoint = await getProjectEndpoint(projectId, endpointId);
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    // Default to the newest version older than the published one
+    let target = body.version;
+    if (target === undefined) {
+      const published = endpoint.published_version;
+      const previous = (await listEndpointVersions(endpointId)).find(
+        v => published !== null && v.version < published
+      );
+      if (!previous) {
+        return c.json(errorResponse("No earlier version to roll back to"), 400);
+      }
+      target = previous.version;
+    } else if (!(await getEndpointVersion(endpointId, target))) {
+      return c.json(errorResponse(`Version ${target} not found`), 404);
+    }
+
+    const rows = await db
+      .update(endpoints)
+      .set({ published_version: target, updated_at: new Date() })
+      .where(eq(endpoints.uuid, endpointId))
+      .returning();
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
 export default endpointsRouter;
@@ -3,13 +3,18 @@ import { firebaseAuthMiddleware } from "../middleware/firebaseAuth";
 import keysRouter from "./keys";
 import projectsRouter from "./projects";
 import endpointsRouter from "./endpoints";
+import tokensRouter from "./tokens";
 import analyticsRouter from "./analytics";
 import settingsRouter from "./settings";
+import budgetsRouter from "./budgets";
+import testSuitesRouter from "./test-suites";
+import requestLogsRouter from "./request-logs";
+import pipelinesRouter from "./pipelines";
 import aiRouter from "./ai";
 
 const routes = new Hono();
 
-// Consumer routes (public, no auth) - MUST be registered before admin routes
+// Consumer routes (project token auth) - MUST be registered before admin routes
 // to avoid wildcard middleware interception
 routes.route("/ai", aiRouter);
 
@@ -22,8 +27,22 @@ adminRoutes.route(
   "/users/:userId/projects/:projectId/endpoints",
   endpointsRouter
 );
+adminRoutes.route(
+  "/users/:userId/projects/:projectId/endpoints/:endpointId/tests",
+  testSuitesRouter
+);
+adminRoutes.route(
+  "/users/:userId/projects/:projectId/endpoints/:endpointId/logs",
+  requestLogsRouter
+);
+adminRoutes.route(
+  "/users/:userId/projects/:projectId/pipelines",
+  pipelinesRouter
+);
+adminRoutes.route("/users/:userId/projects/:projectId/tokens", tokensRouter);
 adminRoutes.route("/users/:userId/analytics", analyticsRouter);
 adminRoutes.route("/users/:userId/settings", settingsRouter);
+adminRoutes.route("/users/:userId/budgets", budgetsRouter);
 routes.route("/", adminRoutes);
 
 export default routes;
@@ -33,7 +52,12 @@ export {
   keysRouter,
   projectsRouter,
   endpointsRouter,
+  tokensRouter,
   analyticsRouter,
   settingsRouter,
+  budgetsRouter,
+  testSuitesRouter,
+  requestLogsRouter,
+  pipelinesRouter,
   aiRouter,
 };
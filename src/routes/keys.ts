@@ -8,7 +8,14 @@ import {
   errorResponse,
   type LlmApiKeySafe,
 } from "@sudobility/shapeshyft_types";
-import { encryptApiKey } from "../lib/encryption";
+import { decryptApiKey, encryptApiKey } from "../lib/encryption";
+import { checkRequestTemplate } from "../lib/request-template";
+import {
+  listOllamaModels,
+  serializeBedrockCredentials,
+  type LLMProviderType,
+  type ResponseMapping,
+} from "../services/llm";
 
 const keysRouter = new Hono();
 
@@ -39,7 +46,20 @@ async function getOrCreateUser(firebaseUid: string, email?: string) {
 /**
  * Convert database key to safe response (no encrypted data)
  */
-function toSafeKey(key: typeof llmApiKeys.$inferSelect): LlmApiKeySafe {
+function toSafeKey(key: typeof llmApiKeys.$inferSelect): Omit<
+  LlmApiKeySafe,
+  "provider"
+> & {
+  provider: LLMProviderType;
+  max_retries: number | null;
+  timeout_ms: number | null;
+  monthly_budget_cents: number | null;
+  deployment_name: string | null;
+  api_version: string | null;
+  has_custom_headers: boolean;
+  request_template: Record<string, unknown> | null;
+  response_mapping: ResponseMapping | null;
+} {
   return {
     uuid: key.uuid,
     user_id: key.user_id,
@@ -47,12 +67,64 @@ function toSafeKey(key: typeof llmApiKeys.$inferSelect): LlmApiKeySafe {
     provider: key.provider,
     has_api_key: !!key.encrypted_api_key,
     endpoint_url: key.endpoint_url,
+    deployment_name: key.deployment_name,
+    api_version: key.api_version,
+    has_custom_headers: !!key.encrypted_headers,
+    request_template: key.request_template,
+    response_mapping: key.response_mapping,
+    max_retries: key.max_retries,
+    timeout_ms: key.timeout_ms,
+    monthly_budget_cents: key.monthly_budget_cents,
     is_active: key.is_active,
     created_at: key.created_at,
     updated_at: key.updated_at,
   };
 }
 
+/**
+ * The secret to store encrypted for a key: the API key, or for Bedrock the
+ * AWS credentials and region
+ */
+function getKeySecret(
+  provider: LLMProviderType,
+  body: {
+    api_key?: string;
+    aws_access_key_id?: string;
+    aws_secret_access_key?: string;
+    aws_region?: string;
+  }
+): string | undefined {
+  if (provider !== "bedrock") {
+    return body.api_key;
+  }
+  if (
+    !body.aws_access_key_id ||
+    !body.aws_secret_access_key ||
+    !body.aws_region
+  ) {
+    return undefined;
+  }
+  return serializeBedrockCredentials({
+    accessKeyId: body.aws_access_key_id,
+    secretAccessKey: body.aws_secret_access_key,
+    region: body.aws_region,
+  });
+}
+
+/**
+ * Encrypt custom headers for storage; null clears them
+ */
+function encryptHeaders(headers: Record<string, string> | null): {
+  encrypted_headers: string | null;
+  headers_encryption_iv: string | null;
+} {
+  if (!headers || Object.keys(headers).length === 0) {
+    return { encrypted_headers: null, headers_encryption_iv: null };
+  }
+  const { encrypted, iv } = encryptApiKey(JSON.stringify(headers));
+  return { encrypted_headers: encrypted, headers_encryption_iv: iv };
+}
+
 // GET all keys for user
 keysRouter.get("/", async c => {
   const firebaseUser = c.get("firebaseUser");
@@ -97,6 +169,55 @@ keysRouter.get("/:keyId", zValidator("param", keyIdParamSchema), async c => {
   return c.json(successResponse(toSafeKey(rows[0]!)));
 });
 
+// GET models pulled onto an Ollama key's server
+keysRouter.get(
+  "/:keyId/models",
+  zValidator("param", keyIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, keyId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(errorResponse("You can only access your own keys"), 403);
+    }
+
+    const user = await getOrCreateUser(firebaseUser.uid, firebaseUser.email);
+
+    const rows = await db
+      .select()
+      .from(llmApiKeys)
+      .where(
+        and(eq(llmApiKeys.user_id, user.uuid), eq(llmApiKeys.uuid, keyId))
+      );
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Key not found"), 404);
+    }
+
+    const key = rows[0]!;
+    if (key.provider !== "ollama") {
+      return c.json(
+        errorResponse("Model listing is only available for ollama keys"),
+        400
+      );
+    }
+
+    try {
+      const models = await listOllamaModels({
+        apiKey:
+          key.encrypted_api_key && key.encryption_iv
+            ? decryptApiKey(key.encrypted_api_key, key.encryption_iv)
+            : undefined,
+        endpointUrl: key.endpoint_url ?? undefined,
+      });
+      return c.json(successResponse(models));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.json(errorResponse(message), 502);
+    }
+  }
+);
+
 // POST create new key
 keysRouter.post("/", zValidator("json", keyCreateSchema), async c => {
   const firebaseUser = c.get("firebaseUser");
@@ -107,14 +228,21 @@ keysRouter.post("/", zValidator("json", keyCreateSchema), async c => {
     return c.json(errorResponse("You can only create your own keys"), 403);
   }
 
+  const templateError =
+    body.request_template && checkRequestTemplate(body.request_template);
+  if (templateError) {
+    return c.json(errorResponse(templateError), 400);
+  }
+
   const user = await getOrCreateUser(firebaseUser.uid, firebaseUser.email);
 
   // Encrypt API key if provided
   let encryptedApiKey: string | null = null;
   let encryptionIv: string | null = null;
 
-  if (body.api_key) {
-    const { encrypted, iv } = encryptApiKey(body.api_key);
+  const secret = getKeySecret(body.provider, body);
+  if (secret) {
+    const { encrypted, iv } = encryptApiKey(secret);
     encryptedApiKey = encrypted;
     encryptionIv = iv;
   }
@@ -128,6 +256,14 @@ keysRouter.post("/", zValidator("json", keyCreateSchema), async c => {
       encrypted_api_key: encryptedApiKey,
       endpoint_url: body.endpoint_url ?? null,
       encryption_iv: encryptionIv,
+      deployment_name: body.deployment_name ?? null,
+      api_version: body.api_version ?? null,
+      ...encryptHeaders(body.custom_headers ?? null),
+      request_template: body.request_template ?? null,
+      response_mapping: body.response_mapping ?? null,
+      max_retries: body.max_retries ?? null,
+      timeout_ms: body.timeout_ms ?? null,
+      monthly_budget_cents: body.monthly_budget_cents ?? null,
     })
     .returning();
 
@@ -164,12 +300,45 @@ keysRouter.put(
 
     const current = existing[0]!;
 
+    if (body.aws_access_key_id && current.provider !== "bedrock") {
+      return c.json(
+        errorResponse("AWS credentials only apply to bedrock keys"),
+        400
+      );
+    }
+
+    if (body.custom_headers && current.provider !== "llm_server") {
+      return c.json(
+        errorResponse("Custom headers only apply to llm_server keys"),
+        400
+      );
+    }
+
+    if (
+      (body.request_template || body.response_mapping) &&
+      current.provider !== "llm_server"
+    ) {
+      return c.json(
+        errorResponse(
+          "Request templates and response mappings only apply to llm_server keys"
+        ),
+        400
+      );
+    }
+
+    const templateError =
+      body.request_template && checkRequestTemplate(body.request_template);
+    if (templateError) {
+      return c.json(errorResponse(templateError), 400);
+    }
+
     // Prepare update values
     let encryptedApiKey = current.encrypted_api_key;
     let encryptionIv = current.encryption_iv;
 
-    if (body.api_key) {
-      const { encrypted, iv } = encryptApiKey(body.api_key);
+    const secret = getKeySecret(current.provider, body);
+    if (secret) {
+      const { encrypted, iv } = encryptApiKey(secret);
       encryptedApiKey = encrypted;
       encryptionIv = iv;
     }
@@ -181,6 +350,31 @@ keysRouter.put(
         encrypted_api_key: encryptedApiKey,
         encryption_iv: encryptionIv,
         endpoint_url: body.endpoint_url ?? current.endpoint_url,
+        deployment_name: body.deployment_name ?? current.deployment_name,
+        api_version:
+          body.api_version !== undefined
+            ? body.api_version
+            : current.api_version,
+        ...(body.custom_headers !== undefined &&
+          encryptHeaders(body.custom_headers)),
+        request_template:
+          body.request_template !== undefined
+            ? body.request_template
+            : current.request_template,
+        response_mapping:
+          body.response_mapping !== undefined
+            ? body.response_mapping
+            : current.response_mapping,
+        max_retries:
+          body.max_retries !== undefined
+            ? body.max_retries
+            : current.max_retries,
+        timeout_ms:
+          body.timeout_ms !== undefined ? body.timeout_ms : current.timeout_ms,
+        monthly_budget_cents:
+          body.monthly_budget_cents !== undefined
+            ? body.monthly_budget_cents
+            : current.monthly_budget_cents,
         is_active: body.is_active ?? current.is_active,
         updated_at: new Date(),
       })
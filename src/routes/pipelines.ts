@@ -0,0 +1,317 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq, and, asc } from "drizzle-orm";
+import { db, users, projects, endpoints, pipelines } from "../db";
+import {
+  pipelineCreateSchema,
+  pipelineUpdateSchema,
+  pipelineIdParamSchema,
+  projectIdParamSchema,
+} from "../schemas";
+import { successResponse, errorResponse } from "@sudobility/shapeshyft_types";
+import { validatePipelineSteps } from "../services/pipelines";
+
+const pipelinesRouter = new Hono();
+
+/**
+ * Helper to get user by Firebase UID
+ */
+async function getUserByFirebaseUid(firebaseUid: string) {
+  const rows = await db
+    .select()
+    .from(users)
+    .where(eq(users.firebase_uid, firebaseUid));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Helper to verify project belongs to user
+ */
+async function verifyProjectOwnership(userUuid: string, projectId: string) {
+  const rows = await db
+    .select()
+    .from(projects)
+    .where(and(eq(projects.user_id, userUuid), eq(projects.uuid, projectId)));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Helper to get the ids of a project's endpoints, for step validation
+ */
+async function getProjectEndpointIds(projectId: string) {
+  const rows = await db
+    .select({ uuid: endpoints.uuid })
+    .from(endpoints)
+    .where(eq(endpoints.project_id, projectId));
+
+  return new Set(rows.map(row => row.uuid));
+}
+
+// GET all pipelines for project
+pipelinesRouter.get("/", zValidator("param", projectIdParamSchema), async c => {
+  const firebaseUser = c.get("firebaseUser");
+  const { userId, projectId } = c.req.valid("param");
+
+  if (firebaseUser.uid !== userId) {
+    return c.json(errorResponse("You can only access your own pipelines"), 403);
+  }
+
+  const user = await getUserByFirebaseUid(firebaseUser.uid);
+  if (!user) {
+    return c.json(errorResponse("User not found"), 404);
+  }
+
+  const project = await verifyProjectOwnership(user.uuid, projectId);
+  if (!project) {
+    return c.json(errorResponse("Project not found"), 404);
+  }
+
+  const rows = await db
+    .select()
+    .from(pipelines)
+    .where(eq(pipelines.project_id, projectId))
+    .orderBy(asc(pipelines.created_at));
+
+  return c.json(successResponse(rows));
+});
+
+// GET single pipeline
+pipelinesRouter.get(
+  "/:pipelineId",
+  zValidator("param", pipelineIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, pipelineId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own pipelines"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const rows = await db
+      .select()
+      .from(pipelines)
+      .where(
+        and(eq(pipelines.project_id, projectId), eq(pipelines.uuid, pipelineId))
+      );
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Pipeline not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+// POST create pipeline
+pipelinesRouter.post(
+  "/",
+  zValidator("param", projectIdParamSchema),
+  zValidator("json", pipelineCreateSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only create your own pipelines"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const stepsError = validatePipelineSteps(
+      body.steps,
+      await getProjectEndpointIds(projectId)
+    );
+    if (stepsError) {
+      return c.json(errorResponse(stepsError), 400);
+    }
+
+    // Check for duplicate pipeline name within project
+    const existing = await db
+      .select()
+      .from(pipelines)
+      .where(
+        and(
+          eq(pipelines.project_id, projectId),
+          eq(pipelines.pipeline_name, body.pipeline_name)
+        )
+      );
+
+    if (existing.length > 0) {
+      return c.json(
+        errorResponse("Pipeline name already exists in this project"),
+        409
+      );
+    }
+
+    const rows = await db
+      .insert(pipelines)
+      .values({
+        project_id: projectId,
+        pipeline_name: body.pipeline_name,
+        display_name: body.display_name,
+        description: body.description ?? null,
+        steps: body.steps,
+        is_public: body.is_public ?? false,
+      })
+      .returning();
+
+    return c.json(successResponse(rows[0]), 201);
+  }
+);
+
+// PUT update pipeline
+pipelinesRouter.put(
+  "/:pipelineId",
+  zValidator("param", pipelineIdParamSchema),
+  zValidator("json", pipelineUpdateSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, pipelineId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only update your own pipelines"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const existing = await db
+      .select()
+      .from(pipelines)
+      .where(
+        and(eq(pipelines.project_id, projectId), eq(pipelines.uuid, pipelineId))
+      );
+
+    if (existing.length === 0) {
+      return c.json(errorResponse("Pipeline not found"), 404);
+    }
+
+    const current = existing[0]!;
+
+    if (body.steps) {
+      const stepsError = validatePipelineSteps(
+        body.steps,
+        await getProjectEndpointIds(projectId)
+      );
+      if (stepsError) {
+        return c.json(errorResponse(stepsError), 400);
+      }
+    }
+
+    // Check for duplicate pipeline name if changing
+    if (body.pipeline_name && body.pipeline_name !== current.pipeline_name) {
+      const duplicate = await db
+        .select()
+        .from(pipelines)
+        .where(
+          and(
+            eq(pipelines.project_id, projectId),
+            eq(pipelines.pipeline_name, body.pipeline_name)
+          )
+        );
+
+      if (duplicate.length > 0) {
+        return c.json(
+          errorResponse("Pipeline name already exists in this project"),
+          409
+        );
+      }
+    }
+
+    const rows = await db
+      .update(pipelines)
+      .set({
+        pipeline_name: body.pipeline_name ?? current.pipeline_name,
+        display_name: body.display_name ?? current.display_name,
+        description: body.description ?? current.description,
+        steps: body.steps ?? current.steps,
+        is_public: body.is_public ?? current.is_public,
+        is_active: body.is_active ?? current.is_active,
+        updated_at: new Date(),
+      })
+      .where(eq(pipelines.uuid, pipelineId))
+      .returning();
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+// DELETE pipeline
+pipelinesRouter.delete(
+  "/:pipelineId",
+  zValidator("param", pipelineIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, pipelineId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only delete your own pipelines"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const rows = await db
+      .delete(pipelines)
+      .where(
+        and(eq(pipelines.project_id, projectId), eq(pipelines.uuid, pipelineId))
+      )
+      .returning();
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Pipeline not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+export default pipelinesRouter;
@@ -120,6 +120,9 @@ projectsRouter.post("/", zValidator("json", projectCreateSchema), async c => {
       project_name: body.project_name,
       display_name: body.display_name,
       description: body.description ?? null,
+      rate_limit_rpm: body.rate_limit_rpm ?? null,
+      daily_token_limit: body.daily_token_limit ?? null,
+      monthly_budget_cents: body.monthly_budget_cents ?? null,
     })
     .returning();
 
@@ -182,6 +185,18 @@ projectsRouter.put(
         project_name: body.project_name ?? current.project_name,
         display_name: body.display_name ?? current.display_name,
         description: body.description ?? current.description,
+        rate_limit_rpm:
+          body.rate_limit_rpm !== undefined
+            ? body.rate_limit_rpm
+            : current.rate_limit_rpm,
+        daily_token_limit:
+          body.daily_token_limit !== undefined
+            ? body.daily_token_limit
+            : current.daily_token_limit,
+        monthly_budget_cents:
+          body.monthly_budget_cents !== undefined
+            ? body.monthly_budget_cents
+            : current.monthly_budget_cents,
         is_active: body.is_active ?? current.is_active,
         updated_at: new Date(),
       })
@@ -0,0 +1,174 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq, and, desc, count, gte, lte, or, sql } from "drizzle-orm";
+import { db, users, projects, endpoints, requestLogs } from "../db";
+import {
+  endpointIdParamSchema,
+  requestLogIdParamSchema,
+  requestLogQuerySchema,
+} from "../schemas";
+import { successResponse, errorResponse } from "@sudobility/shapeshyft_types";
+
+const requestLogsRouter = new Hono();
+
+/**
+ * Helper to get user by Firebase UID
+ */
+async function getUserByFirebaseUid(firebaseUid: string) {
+  const rows = await db
+    .select()
+    .from(users)
+    .where(eq(users.firebase_uid, firebaseUid));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Helper to verify an endpoint belongs to one of the user's projects
+ */
+async function verifyEndpointOwnership(
+  userUuid: string,
+  projectId: string,
+  endpointId: string
+) {
+  const rows = await db
+    .select({ endpoint: endpoints })
+    .from(endpoints)
+    .innerJoin(projects, eq(endpoints.project_id, projects.uuid))
+    .where(
+      and(
+        eq(projects.user_id, userUuid),
+        eq(projects.uuid, projectId),
+        eq(endpoints.uuid, endpointId)
+      )
+    );
+
+  return rows.length > 0 ? rows[0]!.endpoint : null;
+}
+
+// GET payload logs for endpoint, newest first
+requestLogsRouter.get(
+  "/",
+  zValidator("param", endpointIdParamSchema),
+  zValidator("query", requestLogQuerySchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+    const query = c.req.valid("query");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(errorResponse("You can only access your own logs"), 403);
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const conditions = [eq(requestLogs.endpoint_id, endpointId)];
+
+    if (query.success) {
+      conditions.push(eq(requestLogs.success, query.success === "true"));
+    }
+    if (query.start_date) {
+      conditions.push(gte(requestLogs.created_at, new Date(query.start_date)));
+    }
+    if (query.end_date) {
+      conditions.push(
+        lte(requestLogs.created_at, new Date(query.end_date + "T23:59:59Z"))
+      );
+    }
+    if (query.q) {
+      // Match the text literally: escape LIKE wildcards in the search
+      const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(
+          sql`${requestLogs.input}::text ILIKE ${pattern}`,
+          sql`${requestLogs.output}::text ILIKE ${pattern}`,
+          sql`${requestLogs.user_prompt} ILIKE ${pattern}`,
+          sql`${requestLogs.raw_response} ILIKE ${pattern}`,
+          sql`${requestLogs.error_message} ILIKE ${pattern}`
+        )!
+      );
+    }
+
+    const where = and(...conditions);
+
+    const [totalRows, logs] = await Promise.all([
+      db.select({ total: count() }).from(requestLogs).where(where),
+      db
+        .select()
+        .from(requestLogs)
+        .where(where)
+        .orderBy(desc(requestLogs.created_at), desc(requestLogs.uuid))
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+    ]);
+
+    return c.json(
+      successResponse({
+        logs,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: totalRows[0]?.total ?? 0,
+        },
+      })
+    );
+  }
+);
+
+// GET single payload log
+requestLogsRouter.get(
+  "/:logId",
+  zValidator("param", requestLogIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId, logId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(errorResponse("You can only access your own logs"), 403);
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const rows = await db
+      .select()
+      .from(requestLogs)
+      .where(
+        and(
+          eq(requestLogs.uuid, logId),
+          eq(requestLogs.endpoint_id, endpointId)
+        )
+      );
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Log not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+export default requestLogsRouter;
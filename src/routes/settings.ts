@@ -11,6 +11,13 @@ import {
 
 const settingsRouter = new Hono();
 
+/** Settings extended with the organization-wide rate limits and budget */
+type OrganizationSettings = UserSettings & {
+  rate_limit_rpm: number | null;
+  daily_token_limit: number | null;
+  monthly_budget_cents: number | null;
+};
+
 /**
  * Helper to get or create user by Firebase UID
  */
@@ -61,11 +68,14 @@ settingsRouter.get("/", async c => {
 
   if (rows.length === 0) {
     // Return default settings with auto-generated org path
-    const defaultSettings: UserSettings = {
+    const defaultSettings: OrganizationSettings = {
       uuid: null,
       user_id: user.uuid,
       organization_name: null,
       organization_path: generateDefaultOrgPath(user.uuid),
+      rate_limit_rpm: null,
+      daily_token_limit: null,
+      monthly_budget_cents: null,
       is_default: true,
       created_at: null,
       updated_at: null,
@@ -73,7 +83,7 @@ settingsRouter.get("/", async c => {
     return c.json(successResponse(defaultSettings));
   }
 
-  const settings: UserSettings = { ...rows[0], is_default: false };
+  const settings: OrganizationSettings = { ...rows[0]!, is_default: false };
   return c.json(successResponse(settings));
 });
 
@@ -137,10 +147,13 @@ settingsRouter.put("/", zValidator("json", settingsUpdateSchema), async c => {
         user_id: user.uuid,
         organization_name: body.organization_name ?? null,
         organization_path: orgPath,
+        rate_limit_rpm: body.rate_limit_rpm ?? null,
+        daily_token_limit: body.daily_token_limit ?? null,
+        monthly_budget_cents: body.monthly_budget_cents ?? null,
       })
       .returning();
 
-    const created: UserSettings = { ...rows[0]!, is_default: false };
+    const created: OrganizationSettings = { ...rows[0]!, is_default: false };
     return c.json(successResponse(created), 201);
   }
 
@@ -151,12 +164,24 @@ settingsRouter.put("/", zValidator("json", settingsUpdateSchema), async c => {
     .set({
       organization_name: body.organization_name ?? current.organization_name,
       organization_path: body.organization_path ?? current.organization_path,
+      rate_limit_rpm:
+        body.rate_limit_rpm !== undefined
+          ? body.rate_limit_rpm
+          : current.rate_limit_rpm,
+      daily_token_limit:
+        body.daily_token_limit !== undefined
+          ? body.daily_token_limit
+          : current.daily_token_limit,
+      monthly_budget_cents:
+        body.monthly_budget_cents !== undefined
+          ? body.monthly_budget_cents
+          : current.monthly_budget_cents,
       updated_at: new Date(),
     })
     .where(eq(userSettings.user_id, user.uuid))
     .returning();
 
-  const updated: UserSettings = { ...rows[0]!, is_default: false };
+  const updated: OrganizationSettings = { ...rows[0]!, is_default: false };
   return c.json(successResponse(updated));
 });
 
@@ -0,0 +1,497 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq, and, asc, desc, count } from "drizzle-orm";
+import {
+  db,
+  users,
+  userSettings,
+  projects,
+  endpoints,
+  endpointTestCases,
+  endpointTestRuns,
+} from "../db";
+import {
+  endpointIdParamSchema,
+  testCaseIdParamSchema,
+  testRunIdParamSchema,
+  testCaseCreateSchema,
+  testCaseUpdateSchema,
+  testRunCreateSchema,
+} from "../schemas";
+import { successResponse, errorResponse } from "@sudobility/shapeshyft_types";
+import { resolveEndpointVersion } from "../services/endpoint-versions";
+import {
+  loadEndpointKeys,
+  type EndpointKeys,
+} from "../services/endpoint-executor";
+import { runTestSuite } from "../services/test-suite";
+import {
+  budgetExceededMessage,
+  checkBudgets,
+  getBudgetOwners,
+  getBudgetStatus,
+  type BudgetStatus,
+} from "../services/budget";
+
+const testSuitesRouter = new Hono();
+
+/**
+ * Cases per endpoint; suites run synchronously within the request
+ */
+const MAX_TEST_CASES = 100;
+
+/**
+ * Helper to get user by Firebase UID
+ */
+async function getUserByFirebaseUid(firebaseUid: string) {
+  const rows = await db
+    .select()
+    .from(users)
+    .where(eq(users.firebase_uid, firebaseUid));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Helper to verify an endpoint belongs to one of the user's projects
+ */
+async function verifyEndpointOwnership(
+  userUuid: string,
+  projectId: string,
+  endpointId: string
+) {
+  const rows = await db
+    .select({ endpoint: endpoints })
+    .from(endpoints)
+    .innerJoin(projects, eq(endpoints.project_id, projects.uuid))
+    .where(
+      and(
+        eq(projects.user_id, userUuid),
+        eq(projects.uuid, projectId),
+        eq(endpoints.uuid, endpointId)
+      )
+    );
+
+  return rows.length > 0 ? rows[0]!.endpoint : null;
+}
+
+/**
+ * Check budgets before a run, as the /ai routes do. A run is refused when
+ * the organization, project or primary key is over budget, since it would
+ * not test the endpoint as configured; fallback keys over budget are left
+ * out of the chain.
+ * @returns The keys within budget, or the budget that blocks the run
+ */
+async function checkRunBudgets(
+  user: typeof users.$inferSelect,
+  projectId: string,
+  keys: EndpointKeys
+): Promise<
+  | { allowed: true; availableKeyIds: Set<string> }
+  | { allowed: false; exceeded: BudgetStatus }
+> {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.uuid, projectId));
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.user_id, user.uuid));
+
+  const budget = await checkBudgets(
+    getBudgetOwners(user, settings ?? null, project!, keys)
+  );
+  if (!budget.allowed) {
+    return budget;
+  }
+  if (!budget.availableKeyIds.has(keys.llmKey.uuid)) {
+    return {
+      allowed: false,
+      exceeded: await getBudgetStatus({
+        scope: "key",
+        scopeId: keys.llmKey.uuid,
+        budgetCents: keys.llmKey.monthly_budget_cents,
+      }),
+    };
+  }
+  return { allowed: true, availableKeyIds: budget.availableKeyIds };
+}
+
+// GET all test cases for endpoint
+testSuitesRouter.get(
+  "/cases",
+  zValidator("param", endpointIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own test cases"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const rows = await db
+      .select()
+      .from(endpointTestCases)
+      .where(eq(endpointTestCases.endpoint_id, endpointId))
+      .orderBy(asc(endpointTestCases.created_at));
+
+    return c.json(successResponse(rows));
+  }
+);
+
+// POST create test case
+testSuitesRouter.post(
+  "/cases",
+  zValidator("param", endpointIdParamSchema),
+  zValidator("json", testCaseCreateSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only create your own test cases"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const existing = await db
+      .select({ total: count() })
+      .from(endpointTestCases)
+      .where(eq(endpointTestCases.endpoint_id, endpointId));
+
+    if ((existing[0]?.total ?? 0) >= MAX_TEST_CASES) {
+      return c.json(
+        errorResponse(
+          `An endpoint can have at most ${MAX_TEST_CASES} test cases`
+        ),
+        400
+      );
+    }
+
+    const rows = await db
+      .insert(endpointTestCases)
+      .values({
+        endpoint_id: endpointId,
+        name: body.name,
+        input: body.input,
+        expected_output: body.expected_output ?? null,
+        assertions: body.assertions ?? null,
+      })
+      .returning();
+
+    return c.json(successResponse(rows[0]), 201);
+  }
+);
+
+// PUT update test case
+testSuitesRouter.put(
+  "/cases/:caseId",
+  zValidator("param", testCaseIdParamSchema),
+  zValidator("json", testCaseUpdateSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId, caseId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only update your own test cases"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const existing = await db
+      .select()
+      .from(endpointTestCases)
+      .where(
+        and(
+          eq(endpointTestCases.endpoint_id, endpointId),
+          eq(endpointTestCases.uuid, caseId)
+        )
+      );
+
+    if (existing.length === 0) {
+      return c.json(errorResponse("Test case not found"), 404);
+    }
+
+    const current = existing[0]!;
+
+    const rows = await db
+      .update(endpointTestCases)
+      .set({
+        name: body.name ?? current.name,
+        input: body.input ?? current.input,
+        expected_output:
+          body.expected_output !== undefined
+            ? body.expected_output
+            : current.expected_output,
+        assertions:
+          body.assertions !== undefined ? body.assertions : current.assertions,
+        updated_at: new Date(),
+      })
+      .where(eq(endpointTestCases.uuid, caseId))
+      .returning();
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+// DELETE test case
+testSuitesRouter.delete(
+  "/cases/:caseId",
+  zValidator("param", testCaseIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId, caseId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only delete your own test cases"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const rows = await db
+      .delete(endpointTestCases)
+      .where(
+        and(
+          eq(endpointTestCases.endpoint_id, endpointId),
+          eq(endpointTestCases.uuid, caseId)
+        )
+      )
+      .returning();
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Test case not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+// POST run the test suite against a version (or the draft)
+testSuitesRouter.post(
+  "/runs",
+  zValidator("param", endpointIdParamSchema),
+  zValidator("json", testRunCreateSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only run your own test suites"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const resolved = await resolveEndpointVersion(
+      endpoint,
+      body.version ?? null
+    );
+    if (!resolved) {
+      return c.json(errorResponse(`Version ${body.version} not found`), 404);
+    }
+
+    const testCases = await db
+      .select()
+      .from(endpointTestCases)
+      .where(eq(endpointTestCases.endpoint_id, endpointId))
+      .orderBy(asc(endpointTestCases.created_at));
+
+    if (testCases.length === 0) {
+      return c.json(errorResponse("Endpoint has no test cases"), 400);
+    }
+
+    const keys = await loadEndpointKeys(resolved.endpoint);
+    if (!keys) {
+      return c.json(errorResponse("LLM API key not found or inactive"), 400);
+    }
+
+    const budget = await checkRunBudgets(user, projectId, keys);
+    if (!budget.allowed) {
+      return c.json(
+        {
+          ...errorResponse(budgetExceededMessage(budget.exceeded)),
+          budget: budget.exceeded,
+        },
+        402
+      );
+    }
+
+    const run = await runTestSuite(
+      resolved.endpoint,
+      resolved.version,
+      keys,
+      budget.availableKeyIds,
+      testCases
+    );
+
+    return c.json(successResponse(run), 201);
+  }
+);
+
+// GET all test runs for endpoint, newest first
+testSuitesRouter.get(
+  "/runs",
+  zValidator("param", endpointIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own test runs"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const rows = await db
+      .select()
+      .from(endpointTestRuns)
+      .where(eq(endpointTestRuns.endpoint_id, endpointId))
+      .orderBy(desc(endpointTestRuns.created_at));
+
+    return c.json(successResponse(rows));
+  }
+);
+
+// GET single test run report
+testSuitesRouter.get(
+  "/runs/:runId",
+  zValidator("param", testRunIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, endpointId, runId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(
+        errorResponse("You can only access your own test runs"),
+        403
+      );
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const endpoint = await verifyEndpointOwnership(
+      user.uuid,
+      projectId,
+      endpointId
+    );
+    if (!endpoint) {
+      return c.json(errorResponse("Endpoint not found"), 404);
+    }
+
+    const rows = await db
+      .select()
+      .from(endpointTestRuns)
+      .where(
+        and(
+          eq(endpointTestRuns.endpoint_id, endpointId),
+          eq(endpointTestRuns.uuid, runId)
+        )
+      );
+
+    if (rows.length === 0) {
+      return c.json(errorResponse("Test run not found"), 404);
+    }
+
+    return c.json(successResponse(rows[0]));
+  }
+);
+
+export default testSuitesRouter;
@@ -0,0 +1,171 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq, and } from "drizzle-orm";
+import { db, users, projects, apiTokens } from "../db";
+import {
+  tokenCreateSchema,
+  tokenIdParamSchema,
+  projectIdParamSchema,
+} from "../schemas";
+import { successResponse, errorResponse } from "@sudobility/shapeshyft_types";
+import { generateApiToken } from "../lib/api-token";
+
+const tokensRouter = new Hono();
+
+/**
+ * Helper to get user by Firebase UID
+ */
+async function getUserByFirebaseUid(firebaseUid: string) {
+  const rows = await db
+    .select()
+    .from(users)
+    .where(eq(users.firebase_uid, firebaseUid));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Helper to verify project belongs to user
+ */
+async function verifyProjectOwnership(userUuid: string, projectId: string) {
+  const rows = await db
+    .select()
+    .from(projects)
+    .where(and(eq(projects.user_id, userUuid), eq(projects.uuid, projectId)));
+
+  return rows.length > 0 ? rows[0]! : null;
+}
+
+/**
+ * Convert database token to safe response (no hash)
+ */
+function toSafeToken(token: typeof apiTokens.$inferSelect) {
+  return {
+    uuid: token.uuid,
+    project_id: token.project_id,
+    token_name: token.token_name,
+    token_prefix: token.token_prefix,
+    last_used_at: token.last_used_at,
+    revoked_at: token.revoked_at,
+    is_active: token.revoked_at === null,
+    created_at: token.created_at,
+    updated_at: token.updated_at,
+  };
+}
+
+// GET all tokens for project
+tokensRouter.get("/", zValidator("param", projectIdParamSchema), async c => {
+  const firebaseUser = c.get("firebaseUser");
+  const { userId, projectId } = c.req.valid("param");
+
+  if (firebaseUser.uid !== userId) {
+    return c.json(errorResponse("You can only access your own tokens"), 403);
+  }
+
+  const user = await getUserByFirebaseUid(firebaseUser.uid);
+  if (!user) {
+    return c.json(errorResponse("User not found"), 404);
+  }
+
+  const project = await verifyProjectOwnership(user.uuid, projectId);
+  if (!project) {
+    return c.json(errorResponse("Project not found"), 404);
+  }
+
+  const rows = await db
+    .select()
+    .from(apiTokens)
+    .where(eq(apiTokens.project_id, projectId));
+
+  return c.json(successResponse(rows.map(toSafeToken)));
+});
+
+// POST create token - the plain token is only returned here
+tokensRouter.post(
+  "/",
+  zValidator("param", projectIdParamSchema),
+  zValidator("json", tokenCreateSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId } = c.req.valid("param");
+    const body = c.req.valid("json");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(errorResponse("You can only create your own tokens"), 403);
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const { token, hash, prefix } = generateApiToken();
+
+    const rows = await db
+      .insert(apiTokens)
+      .values({
+        project_id: projectId,
+        token_name: body.token_name,
+        token_prefix: prefix,
+        token_hash: hash,
+      })
+      .returning();
+
+    return c.json(successResponse({ ...toSafeToken(rows[0]!), token }), 201);
+  }
+);
+
+// DELETE revoke token
+tokensRouter.delete(
+  "/:tokenId",
+  zValidator("param", tokenIdParamSchema),
+  async c => {
+    const firebaseUser = c.get("firebaseUser");
+    const { userId, projectId, tokenId } = c.req.valid("param");
+
+    if (firebaseUser.uid !== userId) {
+      return c.json(errorResponse("You can only revoke your own tokens"), 403);
+    }
+
+    const user = await getUserByFirebaseUid(firebaseUser.uid);
+    if (!user) {
+      return c.json(errorResponse("User not found"), 404);
+    }
+
+    const project = await verifyProjectOwnership(user.uuid, projectId);
+    if (!project) {
+      return c.json(errorResponse("Project not found"), 404);
+    }
+
+    const existing = await db
+      .select()
+      .from(apiTokens)
+      .where(
+        and(eq(apiTokens.project_id, projectId), eq(apiTokens.uuid, tokenId))
+      );
+
+    if (existing.length === 0) {
+      return c.json(errorResponse("Token not found"), 404);
+    }
+
+    const current = existing[0]!;
+    if (current.revoked_at) {
+      return c.json(successResponse(toSafeToken(current)));
+    }
+
+    const rows = await db
+      .update(apiTokens)
+      .set({ revoked_at: new Date(), updated_at: new Date() })
+      .where(eq(apiTokens.uuid, tokenId))
+      .returning();
+
+    return c.json(successResponse(toSafeToken(rows[0]!)));
+  }
+);
+
+export default tokensRouter;
@@ -28,6 +28,46 @@ export const endpointIdParamSchema = z.object({
   endpointId: z.string().uuid(),
 });
 
+export const endpointVersionParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  projectId: z.string().uuid(),
+  endpointId: z.string().uuid(),
+  version: z.coerce.number().int().min(1),
+});
+
+export const testCaseIdParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  projectId: z.string().uuid(),
+  endpointId: z.string().uuid(),
+  caseId: z.string().uuid(),
+});
+
+export const testRunIdParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  projectId: z.string().uuid(),
+  endpointId: z.string().uuid(),
+  runId: z.string().uuid(),
+});
+
+export const requestLogIdParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  projectId: z.string().uuid(),
+  endpointId: z.string().uuid(),
+  logId: z.string().uuid(),
+});
+
+export const pipelineIdParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  projectId: z.string().uuid(),
+  pipelineId: z.string().uuid(),
+});
+
+export const tokenIdParamSchema = z.object({
+  userId: z.string().min(1).max(128),
+  projectId: z.string().uuid(),
+  tokenId: z.string().uuid(),
+});
+
 export const aiParamSchema = z.object({
   organizationPath: z
     .string()
@@ -42,13 +82,37 @@ export const aiParamSchema = z.object({
     .min(1)
     .max(255)
     .regex(/^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/),
+  // Optionally pinned to a version: "name@v3", or "name@draft"
   endpointName: z
+    .string()
+    .min(1)
+    .max(255)
+    .regex(
+      /^(?:[a-z0-9][a-z0-9-]*[a-z0-9]|[a-z0-9])(?:@v[1-9][0-9]*|@draft)?$/
+    ),
+});
+
+export const aiPipelineParamSchema = z.object({
+  organizationPath: aiParamSchema.shape.organizationPath,
+  projectName: aiParamSchema.shape.projectName,
+  pipelineName: z
     .string()
     .min(1)
     .max(255)
     .regex(/^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/),
 });
 
+export const jobIdParamSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+// Batch execution (up to 100 inputs); each input is validated against
+// input_schema on its own
+export const aiBatchSchema = z.object({
+  inputs: z.array(z.unknown()).min(1).max(100),
+  concurrency: z.number().int().min(1).max(10).optional(),
+});
+
 // =============================================================================
 // LLM Provider Enum
 // =============================================================================
@@ -58,6 +122,9 @@ export const llmProviderSchema = z.enum([
   "gemini",
   "anthropic",
   "llm_server",
+  "azure_openai",
+  "bedrock",
+  "ollama",
 ]);
 
 export const httpMethodSchema = z.enum(["GET", "POST"]);
@@ -83,15 +150,123 @@ export const jsonSchemaSchema: z.ZodType<Record<string, unknown>> = z.lazy(() =>
 // LLM API Key Schemas
 // =============================================================================
 
+// Monthly spending budget in cents; null removes the budget
+const monthlyBudgetField = {
+  monthly_budget_cents: z
+    .number()
+    .int()
+    .min(1)
+    .max(2_000_000_000)
+    .nullable()
+    .optional(),
+};
+
+// Retry policy overrides; null falls back to the next level
+// (endpoint, then key, then the default policy)
+const retryPolicyFields = {
+  max_retries: z.number().int().min(0).max(5).nullable().optional(),
+  timeout_ms: z.number().int().min(1000).max(600_000).nullable().optional(),
+};
+
+// Azure OpenAI deployment; api_version null uses the default version
+const azureDeploymentFields = {
+  deployment_name: z.string().min(1).max(255).optional(),
+  api_version: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}(-preview)?$/)
+    .nullable()
+    .optional(),
+};
+
+// AWS Bedrock credentials, stored encrypted in place of an API key
+const awsCredentialFields = {
+  aws_access_key_id: z.string().min(16).max(128).optional(),
+  aws_secret_access_key: z.string().min(1).max(256).optional(),
+  aws_region: z
+    .string()
+    .regex(/^[a-z]{2}(-[a-z]+)+-\d+$/)
+    .optional(),
+};
+
+// Extra headers for llm_server keys, stored encrypted. Content-Type, Host
+// and Content-Length are set by the request itself.
+const RESERVED_HEADERS = ["content-type", "content-length", "host"];
+
+const customHeadersField = {
+  custom_headers: z
+    .record(
+      z
+        .string()
+        .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, "Invalid header name")
+        .refine(
+          name => !RESERVED_HEADERS.includes(name.toLowerCase()),
+          "Header cannot be overridden"
+        ),
+      z
+        .string()
+        .min(1)
+        .max(4096)
+        .regex(/^[^\r\n]*$/, "Header values cannot contain line breaks")
+    )
+    .refine(
+      headers => Object.keys(headers).length <= 20,
+      "At most 20 custom headers"
+    )
+    .nullable()
+    .optional(),
+};
+
+// JSONPath-style path into a response: "$.choices[0].message.content"
+const responsePathSchema = z
+  .string()
+  .max(255)
+  .regex(
+    /^(?:\$|[A-Za-z0-9_-]+)(?:\.[A-Za-z0-9_-]+|\[\d+\])*$/,
+    "Invalid response path"
+  );
+
+// Request body template and response extraction for llm_server keys; null
+// restores the OpenAI-compatible format
+const requestMappingFields = {
+  request_template: z.record(z.unknown()).nullable().optional(),
+  response_mapping: z
+    .object({
+      content: responsePathSchema,
+      prompt_tokens: responsePathSchema.optional(),
+      completion_tokens: responsePathSchema.optional(),
+      total_tokens: responsePathSchema.optional(),
+    })
+    .nullable()
+    .optional(),
+};
+
+const hasAwsCredentials = (data: {
+  aws_access_key_id?: string;
+  aws_secret_access_key?: string;
+  aws_region?: string;
+}) =>
+  !!data.aws_access_key_id && !!data.aws_secret_access_key && !!data.aws_region;
+
 export const keyCreateSchema = z
   .object({
     key_name: z.string().min(1).max(255),
     provider: llmProviderSchema,
     api_key: z.string().min(1).optional(),
     endpoint_url: z.string().url().optional(),
+    ...azureDeploymentFields,
+    ...awsCredentialFields,
+    ...customHeadersField,
+    ...requestMappingFields,
+    ...retryPolicyFields,
+    ...monthlyBudgetField,
   })
   .refine(
     data => {
+      // Bedrock authenticates with AWS credentials instead, and Ollama
+      // runs on localhost:11434 unless endpoint_url says otherwise
+      if (data.provider === "bedrock" || data.provider === "ollama") {
+        return true;
+      }
       // For API-based providers, api_key is required
       if (data.provider !== "llm_server") {
         return !!data.api_key;
@@ -103,14 +278,57 @@ export const keyCreateSchema = z
       message:
         "api_key is required for API providers, endpoint_url is required for llm_server",
     }
+  )
+  .refine(
+    data =>
+      data.provider !== "azure_openai" ||
+      (!!data.endpoint_url && !!data.deployment_name),
+    {
+      message:
+        "endpoint_url (the resource endpoint) and deployment_name are required for azure_openai",
+    }
+  )
+  .refine(data => data.provider !== "bedrock" || hasAwsCredentials(data), {
+    message:
+      "aws_access_key_id, aws_secret_access_key and aws_region are required for bedrock",
+  })
+  .refine(data => !data.custom_headers || data.provider === "llm_server", {
+    message: "custom_headers only apply to llm_server keys",
+  })
+  .refine(
+    data =>
+      (!data.request_template && !data.response_mapping) ||
+      data.provider === "llm_server",
+    {
+      message:
+        "request_template and response_mapping only apply to llm_server keys",
+    }
   );
 
-export const keyUpdateSchema = z.object({
-  key_name: z.string().min(1).max(255).optional(),
-  api_key: z.string().min(1).optional(),
-  endpoint_url: z.string().url().optional(),
-  is_active: z.boolean().optional(),
-});
+export const keyUpdateSchema = z
+  .object({
+    key_name: z.string().min(1).max(255).optional(),
+    api_key: z.string().min(1).optional(),
+    endpoint_url: z.string().url().optional(),
+    ...azureDeploymentFields,
+    ...awsCredentialFields,
+    ...customHeadersField,
+    ...requestMappingFields,
+    ...retryPolicyFields,
+    ...monthlyBudgetField,
+    is_active: z.boolean().optional(),
+  })
+  .refine(
+    data =>
+      hasAwsCredentials(data) ||
+      (!data.aws_access_key_id &&
+        !data.aws_secret_access_key &&
+        !data.aws_region),
+    {
+      message:
+        "aws_access_key_id, aws_secret_access_key and aws_region must be updated together",
+    }
+  );
 
 // =============================================================================
 // Project Schemas
@@ -118,6 +336,18 @@ export const keyUpdateSchema = z.object({
 
 const projectNameRegex = /^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/;
 
+// Rate limits for the AI routes; null removes the limit
+const rateLimitFields = {
+  rate_limit_rpm: z.number().int().min(1).max(1_000_000).nullable().optional(),
+  daily_token_limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(2_000_000_000)
+    .nullable()
+    .optional(),
+};
+
 export const projectCreateSchema = z.object({
   project_name: z
     .string()
@@ -129,12 +359,16 @@ export const projectCreateSchema = z.object({
     ),
   display_name: z.string().min(1).max(255),
   description: z.string().max(1000).optional(),
+  ...rateLimitFields,
+  ...monthlyBudgetField,
 });
 
 export const projectUpdateSchema = z.object({
   project_name: z.string().min(1).max(255).regex(projectNameRegex).optional(),
   display_name: z.string().min(1).max(255).optional(),
   description: z.string().max(1000).optional(),
+  ...rateLimitFields,
+  ...monthlyBudgetField,
   is_active: z.boolean().optional(),
 });
 
@@ -144,6 +378,80 @@ export const projectUpdateSchema = z.object({
 
 const endpointNameRegex = /^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/;
 
+// Provider-specific limits are checked in the route (see validateGenerationConfig)
+const generationConfigFields = {
+  model: z.string().min(1).max(255).nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  top_p: z.number().min(0).max(1).nullable().optional(),
+  max_tokens: z.number().int().min(1).max(1_000_000).nullable().optional(),
+  stop_sequences: z
+    .array(z.string().min(1).max(255))
+    .max(16)
+    .nullable()
+    .optional(),
+  seed: z.number().int().nullable().optional(),
+};
+
+// Response cache lifetime; null disables caching (max 30 days)
+const cacheTtlSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(30 * 24 * 60 * 60)
+  .nullable()
+  .optional();
+
+// Payload logging: retention in days (null uses the default) and dot paths
+// of fields to redact, with "*" matching any key or array index
+const payloadLoggingFields = {
+  log_payloads: z.boolean().optional(),
+  log_retention_days: z.number().int().min(1).max(365).nullable().optional(),
+  log_redact_fields: z
+    .array(
+      z
+        .string()
+        .min(1)
+        .max(255)
+        .regex(/^[^.]+(?:\.[^.]+)*$/)
+    )
+    .max(50)
+    .nullable()
+    .optional(),
+};
+
+// Ordered fallback keys, and the error categories that trigger failover
+// (null fallback_on means every category)
+const fallbackFields = {
+  fallback_key_ids: z.array(z.string().uuid()).max(5).nullable().optional(),
+  fallback_on: z
+    .array(z.enum(["timeout", "rate_limit", "server_error", "invalid_json"]))
+    .min(1)
+    .nullable()
+    .optional(),
+};
+
+// Curated few-shot input/output pairs, checked against the endpoint's
+// input_schema/output_schema in the route
+const examplesSchema = z
+  .array(
+    z
+      .object({
+        input: z.record(z.string(), z.unknown()),
+        output: z.unknown(),
+      })
+      .refine(
+        (example): example is typeof example & { output: unknown } =>
+          example.output !== undefined,
+        {
+          message: "Example output is required",
+          path: ["output"],
+        }
+      )
+  )
+  .max(20)
+  .nullable()
+  .optional();
+
 export const endpointCreateSchema = z.object({
   endpoint_name: z
     .string()
@@ -160,6 +468,15 @@ export const endpointCreateSchema = z.object({
   output_schema: jsonSchemaSchema.optional(),
   instructions: z.string().max(10000).optional(),
   context: z.string().max(10000).optional(),
+  ...generationConfigFields,
+  max_repair_attempts: z.number().int().min(0).max(5).optional(),
+  cache_ttl_seconds: cacheTtlSchema,
+  ...fallbackFields,
+  examples: examplesSchema,
+  ...retryPolicyFields,
+  ...rateLimitFields,
+  ...payloadLoggingFields,
+  is_public: z.boolean().optional().default(false),
 });
 
 export const endpointUpdateSchema = z.object({
@@ -171,9 +488,160 @@ export const endpointUpdateSchema = z.object({
   output_schema: jsonSchemaSchema.optional(),
   instructions: z.string().max(10000).optional(),
   context: z.string().max(10000).optional(),
+  ...generationConfigFields,
+  max_repair_attempts: z.number().int().min(0).max(5).optional(),
+  cache_ttl_seconds: cacheTtlSchema,
+  ...fallbackFields,
+  examples: examplesSchema,
+  ...retryPolicyFields,
+  ...rateLimitFields,
+  ...payloadLoggingFields,
+  is_public: z.boolean().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const endpointPublishSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+// Omitting version rolls back to the version before the published one
+export const endpointRollbackSchema = z.object({
+  version: z.number().int().min(1).optional(),
+});
+
+// "draft" compares against the endpoint's unpublished configuration
+export const endpointDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.union([z.literal("draft"), z.coerce.number().int().min(1)]),
+});
+
+// =============================================================================
+// Endpoint Test Suite Schemas
+// =============================================================================
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Dot-separated path into the output ("items.0.label"); empty for the root
+const assertionPath = z.string().max(255);
+
+export const testAssertionSchema = z.discriminatedUnion("op", [
+  z.object({ path: assertionPath, op: z.literal("equals"), value: z.any() }),
+  z.object({ path: assertionPath, op: z.literal("contains"), value: z.any() }),
+  z.object({
+    path: assertionPath,
+    op: z.literal("regex"),
+    value: z
+      .string()
+      .max(1000)
+      .refine(isValidRegex, "Invalid regular expression"),
+  }),
+  z.object({
+    path: assertionPath,
+    op: z.literal("enum"),
+    value: z.array(z.any()).min(1).max(100),
+  }),
+  z.object({
+    path: assertionPath,
+    op: z.literal("approx"),
+    value: z.number(),
+    tolerance: z.number().min(0),
+  }),
+]);
+
+export const testCaseCreateSchema = z.object({
+  name: z.string().min(1).max(255),
+  input: z.record(z.string(), z.unknown()),
+  expected_output: z.unknown().optional(),
+  assertions: z.array(testAssertionSchema).max(50).optional(),
+});
+
+// null clears expected_output or assertions
+export const testCaseUpdateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  input: z.record(z.string(), z.unknown()).optional(),
+  expected_output: z.unknown().optional(),
+  assertions: z.array(testAssertionSchema).max(50).nullable().optional(),
+});
+
+// Omitting version tests what production serves (the published version,
+// or the draft if nothing is published)
+export const testRunCreateSchema = z.object({
+  version: z.union([z.literal("draft"), z.number().int().min(1)]).optional(),
+});
+
+// =============================================================================
+// Pipeline Schemas
+// =============================================================================
+
+const pipelineNameRegex = /^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/;
+
+const pipelineStepIdRegex = /^[a-z0-9_-]+$/;
+
+// Where a step input field comes from: a dot path into the pipeline input
+// ("input.text") or an earlier step's output ("steps.classify.label"), or a
+// literal ({"const": ...})
+const pipelineFieldSourceSchema = z.union([
+  z
+    .string()
+    .regex(
+      /^(?:input|steps\.[a-z0-9_-]+)(?:\.[^.]+)*$/,
+      'Must be "input" or "steps.<id>", optionally followed by a dot path'
+    ),
+  z
+    .object({ const: z.unknown() })
+    .refine(
+      (source): source is { const: unknown } => source.const !== undefined,
+      { message: "Constant value is required", path: ["const"] }
+    ),
+]);
+
+// Steps run once the steps their mappings reference have finished. A step
+// without an input mapping receives the pipeline input unchanged.
+const pipelineStepSchema = z.object({
+  id: z.string().min(1).max(64).regex(pipelineStepIdRegex),
+  endpoint_id: z.string().uuid(),
+  input: z.record(z.string(), pipelineFieldSourceSchema).optional(),
+});
+
+export const pipelineCreateSchema = z.object({
+  pipeline_name: z
+    .string()
+    .min(1)
+    .max(255)
+    .regex(
+      pipelineNameRegex,
+      "Must be lowercase alphanumeric with optional hyphens"
+    ),
+  display_name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  steps: z.array(pipelineStepSchema).min(1).max(10),
+  is_public: z.boolean().optional().default(false),
+});
+
+export const pipelineUpdateSchema = z.object({
+  pipeline_name: z.string().min(1).max(255).regex(pipelineNameRegex).optional(),
+  display_name: z.string().min(1).max(255).optional(),
+  description: z.string().max(1000).optional(),
+  steps: z.array(pipelineStepSchema).min(1).max(10).optional(),
+  is_public: z.boolean().optional(),
   is_active: z.boolean().optional(),
 });
 
+// =============================================================================
+// API Token Schemas
+// =============================================================================
+
+export const tokenCreateSchema = z.object({
+  token_name: z.string().min(1).max(255),
+});
+
 // =============================================================================
 // Analytics Query Schema
 // =============================================================================
@@ -191,12 +659,41 @@ export const analyticsQuerySchema = z.object({
   endpoint_id: z.string().uuid().optional(),
 });
 
+export const analyticsTimeseriesQuerySchema = analyticsQuerySchema.extend({
+  granularity: z.enum(["hour", "day", "week"]).optional().default("day"),
+});
+
+// =============================================================================
+// Request Log Query Schema
+// =============================================================================
+
+export const requestLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  // Case-insensitive text search over input, prompts, response and error
+  q: z.string().min(1).max(200).optional(),
+  success: z.enum(["true", "false"]).optional(),
+  start_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  end_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
 // =============================================================================
 // Settings Schemas
 // =============================================================================
 
 const organizationPathRegex = /^[a-zA-Z0-9_]+$/;
 
+/**
+ * First path segments of /ai routes that are not organizations
+ */
+const RESERVED_ORGANIZATION_PATHS = ["pipelines", "jobs"];
+
 export const settingsUpdateSchema = z.object({
   organization_name: z.string().min(1).max(255).optional(),
   organization_path: z
@@ -207,5 +704,10 @@ export const settingsUpdateSchema = z.object({
       organizationPathRegex,
       "Must contain only letters, numbers, and underscores"
     )
+    .refine(path => !RESERVED_ORGANIZATION_PATHS.includes(path), {
+      message: `Must not be one of: ${RESERVED_ORGANIZATION_PATHS.join(", ")}`,
+    })
     .optional(),
+  ...rateLimitFields,
+  ...monthlyBudgetField,
 });
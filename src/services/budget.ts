@@ -0,0 +1,247 @@
+import { and, eq, gte, sql, type SQL } from "drizzle-orm";
+import { db, endpoints, projects, usageAnalytics } from "../db";
+
+/**
+ * Share of a budget after which responses carry a warning header
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Level at which a budget is configured
+ */
+export type BudgetScope = "user" | "project" | "key";
+
+/**
+ * A monthly budget to evaluate
+ */
+export interface BudgetTarget {
+  scope: BudgetScope;
+  scopeId: string;
+  /** Monthly budget in cents; null means no budget */
+  budgetCents: number | null;
+}
+
+/**
+ * Current month's spend against a budget
+ */
+export interface BudgetStatus {
+  scope: BudgetScope;
+  scope_id: string;
+  budget_cents: number | null;
+  spent_cents: number;
+  percent_used: number | null;
+  state: "ok" | "warning" | "exceeded";
+}
+
+/**
+ * Start of the current calendar month (UTC)
+ */
+export function getMonthStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Condition selecting the analytics rows attributed to a budget scope.
+ * Requests are attributed to the key that served them, falling back to the
+ * endpoint's primary key for rows recorded before that was tracked.
+ */
+function scopeCondition(scope: BudgetScope, scopeId: string): SQL {
+  switch (scope) {
+    case "user":
+      return eq(projects.user_id, scopeId);
+    case "project":
+      return eq(endpoints.project_id, scopeId);
+    case "key":
+      return sql`COALESCE(${usageAnalytics.request_metadata}->>'llm_key_id', ${endpoints.llm_key_id}::text) = ${scopeId}`;
+  }
+}
+
+/**
+ * Sum this month's spend for a scope
+ * @returns Spend in cents
+ */
+export async function getMonthlySpendCents(
+  scope: BudgetScope,
+  scopeId: string,
+  now = new Date()
+): Promise<number> {
+  const rows = await db
+    .select({
+      total: sql<number>`COALESCE(SUM(${usageAnalytics.estimated_cost_cents}), 0)`,
+    })
+    .from(usageAnalytics)
+    .innerJoin(endpoints, eq(usageAnalytics.endpoint_id, endpoints.uuid))
+    .innerJoin(projects, eq(endpoints.project_id, projects.uuid))
+    .where(
+      and(
+        scopeCondition(scope, scopeId),
+        gte(usageAnalytics.timestamp, getMonthStart(now))
+      )
+    );
+
+  // estimated_cost_cents is recorded in hundredths of a cent
+  return Number(rows[0]?.total ?? 0) / 100;
+}
+
+/**
+ * Evaluate a budget against this month's spend
+ */
+export async function getBudgetStatus(
+  target: BudgetTarget,
+  now = new Date()
+): Promise<BudgetStatus> {
+  const spentCents = await getMonthlySpendCents(
+    target.scope,
+    target.scopeId,
+    now
+  );
+
+  let state: BudgetStatus["state"] = "ok";
+  if (target.budgetCents !== null) {
+    if (spentCents >= target.budgetCents) {
+      state = "exceeded";
+    } else if (spentCents >= target.budgetCents * BUDGET_WARNING_RATIO) {
+      state = "warning";
+    }
+  }
+
+  return {
+    scope: target.scope,
+    scope_id: target.scopeId,
+    budget_cents: target.budgetCents,
+    spent_cents: Math.round(spentCents * 100) / 100,
+    percent_used:
+      target.budgetCents !== null
+        ? Math.round((spentCents / target.budgetCents) * 1000) / 10
+        : null,
+    state,
+  };
+}
+
+/**
+ * Evaluate the targets that have a budget configured
+ */
+export async function getBudgetStatuses(
+  targets: BudgetTarget[],
+  now = new Date()
+): Promise<BudgetStatus[]> {
+  const statuses: BudgetStatus[] = [];
+  for (const target of targets) {
+    if (target.budgetCents !== null) {
+      statuses.push(await getBudgetStatus(target, now));
+    }
+  }
+  return statuses;
+}
+
+/**
+ * The organization, project and keys whose budgets a call counts against
+ */
+export interface BudgetOwners {
+  userId: string;
+  /** The organization's monthly budget */
+  userBudgetCents: number | null;
+  project: { uuid: string; monthly_budget_cents: number | null };
+  /** The primary key first, then the fallback keys */
+  keys: { uuid: string; monthly_budget_cents: number | null }[];
+}
+
+type BudgetedKey = BudgetOwners["keys"][number];
+
+/**
+ * Collect the budget owners of a call to an endpoint
+ */
+export function getBudgetOwners(
+  user: { uuid: string },
+  settings: { monthly_budget_cents: number | null } | null,
+  project: BudgetOwners["project"],
+  { llmKey, fallbackKeys }: { llmKey: BudgetedKey; fallbackKeys: BudgetedKey[] }
+): BudgetOwners {
+  return {
+    userId: user.uuid,
+    userBudgetCents: settings?.monthly_budget_cents ?? null,
+    project,
+    keys: [llmKey, ...fallbackKeys],
+  };
+}
+
+/**
+ * Outcome of a budget check: the keys still within budget, or the budget
+ * that blocks the call
+ */
+export type BudgetCheck =
+  | {
+      allowed: true;
+      availableKeyIds: Set<string>;
+      /** Budgets past the warning threshold */
+      warnings: BudgetStatus[];
+    }
+  | { allowed: false; exceeded: BudgetStatus };
+
+/**
+ * Check the organization, project and key budgets before calling the LLM.
+ * An exhausted organization or project budget blocks the call; keys over
+ * their budget are left out, and the call is blocked only when none remain.
+ */
+export async function checkBudgets(
+  owners: BudgetOwners,
+  now = new Date()
+): Promise<BudgetCheck> {
+  const scopeStatuses = await getBudgetStatuses(
+    [
+      {
+        scope: "user",
+        scopeId: owners.userId,
+        budgetCents: owners.userBudgetCents,
+      },
+      {
+        scope: "project",
+        scopeId: owners.project.uuid,
+        budgetCents: owners.project.monthly_budget_cents,
+      },
+    ],
+    now
+  );
+  const scopeExceeded = scopeStatuses.find(s => s.state === "exceeded");
+  if (scopeExceeded) {
+    return { allowed: false, exceeded: scopeExceeded };
+  }
+
+  const keyStatuses = await getBudgetStatuses(
+    owners.keys.map(key => ({
+      scope: "key",
+      scopeId: key.uuid,
+      budgetCents: key.monthly_budget_cents,
+    })),
+    now
+  );
+  const exhaustedKeys = new Set(
+    keyStatuses.filter(s => s.state === "exceeded").map(s => s.scope_id)
+  );
+  const availableKeyIds = new Set(
+    owners.keys.map(key => key.uuid).filter(id => !exhaustedKeys.has(id))
+  );
+  if (availableKeyIds.size === 0) {
+    return {
+      allowed: false,
+      exceeded:
+        keyStatuses.find(s => s.scope_id === owners.keys[0]?.uuid) ??
+        keyStatuses[0]!,
+    };
+  }
+
+  return {
+    allowed: true,
+    availableKeyIds,
+    warnings: [...scopeStatuses, ...keyStatuses].filter(
+      s => s.state === "warning"
+    ),
+  };
+}
+
+/**
+ * Error message for a call blocked by a budget
+ */
+export function budgetExceededMessage(status: BudgetStatus): string {
+  return `Monthly budget exceeded for ${status.scope}`;
+}
@@ -0,0 +1,212 @@
+import { db, endpoints, usageAnalytics, responseCache } from "../db";
+import {
+  estimateCost,
+  getBilledUsage,
+  OutputValidationError,
+  RepairAttemptError,
+  type LLMRequest,
+} from "./llm";
+import type { EndpointExecution } from "./endpoint-executor";
+import { recordRequestLog } from "./request-logs";
+
+/**
+ * Extra request_metadata identifying what made the call (e.g. a pipeline
+ * step)
+ */
+export type CallMetadata = Record<string, unknown>;
+
+/**
+ * What the call was made with, for endpoints that log payloads
+ */
+export interface CallPayload {
+  input: unknown;
+  /** The request sent to the provider, or null if none was sent */
+  request: LLMRequest | null;
+}
+
+/**
+ * Calculate cost and log a successful request
+ * @returns The usage block for the response
+ */
+export async function recordSuccess(
+  endpoint: typeof endpoints.$inferSelect,
+  {
+    response: llmResponse,
+    repairAttempts,
+    llmKeyId,
+    failovers,
+    retryCount,
+  }: EndpointExecution,
+  payload: CallPayload,
+  metadata: CallMetadata = {}
+) {
+  const costCents = estimateCost(
+    llmResponse.model,
+    llmResponse.usage.promptTokens,
+    llmResponse.usage.completionTokens
+  );
+
+  const [analytics] = await db
+    .insert(usageAnalytics)
+    .values({
+      endpoint_id: endpoint.uuid,
+      success: true,
+      tokens_input: llmResponse.usage.promptTokens,
+      tokens_output: llmResponse.usage.completionTokens,
+      latency_ms: llmResponse.latencyMs,
+      estimated_cost_cents: Math.round(costCents * 100),
+      repair_attempts: repairAttempts,
+      retry_count: retryCount,
+      request_metadata: {
+        model: llmResponse.model,
+        provider: llmResponse.provider,
+        llm_key_id: llmKeyId,
+        ...(failovers.length > 0 && { failovers }),
+        ...metadata,
+      },
+    })
+    .returning({ uuid: usageAnalytics.uuid });
+
+  if (endpoint.log_payloads) {
+    await recordRequestLog(endpoint, analytics?.uuid ?? null, {
+      success: true,
+      input: payload.input,
+      request: payload.request,
+      rawResponse: llmResponse.rawResponse,
+      output: llmResponse.content,
+      errorMessage: null,
+    });
+  }
+
+  return {
+    tokens_input: llmResponse.usage.promptTokens,
+    tokens_output: llmResponse.usage.completionTokens,
+    latency_ms: llmResponse.latencyMs,
+    estimated_cost_cents: Math.round(costCents * 100),
+    repair_attempts: repairAttempts,
+    cache_hit: false,
+  };
+}
+
+/**
+ * Log a request served from the response cache. No tokens are billed.
+ * @returns The usage block for the response
+ */
+export async function recordCacheHit(
+  endpoint: typeof endpoints.$inferSelect,
+  cached: typeof responseCache.$inferSelect,
+  startTime: number,
+  payload: CallPayload,
+  metadata: CallMetadata = {}
+) {
+  const latencyMs = Date.now() - startTime;
+
+  const [analytics] = await db
+    .insert(usageAnalytics)
+    .values({
+      endpoint_id: endpoint.uuid,
+      success: true,
+      tokens_input: 0,
+      tokens_output: 0,
+      latency_ms: latencyMs,
+      estimated_cost_cents: 0,
+      repair_attempts: 0,
+      cache_hit: true,
+      request_metadata: {
+        model: cached.model,
+        provider: cached.provider,
+        cache_hit: true,
+        ...metadata,
+      },
+    })
+    .returning({ uuid: usageAnalytics.uuid });
+
+  if (endpoint.log_payloads) {
+    await recordRequestLog(endpoint, analytics?.uuid ?? null, {
+      success: true,
+      input: payload.input,
+      request: payload.request,
+      rawResponse: JSON.stringify(cached.output),
+      output: cached.output,
+      errorMessage: null,
+    });
+  }
+
+  return {
+    tokens_input: 0,
+    tokens_output: 0,
+    latency_ms: latencyMs,
+    estimated_cost_cents: 0,
+    repair_attempts: 0,
+    cache_hit: true,
+  };
+}
+
+/**
+ * Log a failed request
+ * @returns The error fields for the response
+ */
+export async function recordFailure(
+  endpoint: typeof endpoints.$inferSelect,
+  error: unknown,
+  startTime: number,
+  retryCount: number,
+  payload: CallPayload,
+  metadata: CallMetadata = {}
+) {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  const isOutputInvalid = error instanceof OutputValidationError;
+  const billed = getBilledUsage(error);
+
+  const [analytics] = await db
+    .insert(usageAnalytics)
+    .values({
+      endpoint_id: endpoint.uuid,
+      success: false,
+      error_message: errorMessage,
+      latency_ms: Date.now() - startTime,
+      // Every attempt of a failed repair loop was billed
+      ...(billed && {
+        tokens_input: billed.usage.promptTokens,
+        tokens_output: billed.usage.completionTokens,
+        estimated_cost_cents: Math.round(
+          estimateCost(
+            billed.model,
+            billed.usage.promptTokens,
+            billed.usage.completionTokens
+          ) * 100
+        ),
+      }),
+      repair_attempts:
+        isOutputInvalid || error instanceof RepairAttemptError
+          ? error.repairAttempts
+          : null,
+      retry_count: retryCount,
+      ...(Object.keys(metadata).length > 0 && { request_metadata: metadata }),
+    })
+    .returning({ uuid: usageAnalytics.uuid });
+
+  if (endpoint.log_payloads) {
+    await recordRequestLog(endpoint, analytics?.uuid ?? null, {
+      success: false,
+      input: payload.input,
+      request: payload.request,
+      rawResponse: isOutputInvalid ? error.rawResponse : null,
+      output: null,
+      errorMessage,
+    });
+  }
+
+  return {
+    error: `LLM processing failed: ${errorMessage}`,
+    ...(isOutputInvalid && {
+      validation_errors: error.violations,
+      raw_response: error.rawResponse,
+    }),
+  };
+}
+
+/**
+ * Usage block returned to the caller for a successful call
+ */
+export type EndpointUsage = Awaited<ReturnType<typeof recordSuccess>>;
@@ -0,0 +1,263 @@
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+import { endpoints } from "../db";
+import { mapWithConcurrency } from "../lib/concurrency";
+import { validateJsonSchema } from "../lib/schema-validator";
+import {
+  buildFallbackChain,
+  buildLLMRequest,
+  checkEndpointAttachments,
+  checkEndpointTemplates,
+  countRetries,
+  executeEndpoint,
+  type EndpointKeys,
+} from "./endpoint-executor";
+import {
+  recordCacheHit,
+  recordFailure,
+  recordSuccess,
+  type CallMetadata,
+  type EndpointUsage,
+} from "./endpoint-analytics";
+import {
+  checkRateLimits,
+  recordTokenUsage,
+  type RateLimitRule,
+} from "./rate-limiter";
+import {
+  budgetExceededMessage,
+  checkBudgets,
+  type BudgetOwners,
+} from "./budget";
+import { getBilledUsage } from "./llm";
+import {
+  buildCacheKey,
+  getCachedResponse,
+  storeCachedResponse,
+} from "./response-cache";
+
+type Endpoint = typeof endpoints.$inferSelect;
+
+/**
+ * Batch items processed at once unless the request asks otherwise
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/**
+ * What a call runs against
+ */
+export interface EndpointCallTarget {
+  endpoint: Endpoint;
+  keys: EndpointKeys;
+  /** Rate limits that apply to the call, for token accounting */
+  rateLimitRules: RateLimitRule[];
+  /** Keys within budget; others are left out of the fallback chain */
+  availableKeyIds?: Set<string>;
+  /** Budgets checked again before each validated call, so batches and
+   * queued jobs stop at the cap */
+  budgetOwners?: BudgetOwners;
+  /** Added to the request_metadata of the call's analytics row */
+  metadata?: CallMetadata;
+}
+
+/**
+ * Outcome of one call; failures carry the same error fields as the
+ * synchronous route's error response
+ */
+export type EndpointCallResult =
+  | { success: true; output: unknown; usage: EndpointUsage }
+  | ({ success: false; error: string } & Record<string, unknown>);
+
+export type BatchItemResult = EndpointCallResult & { index: number };
+
+/**
+ * Per-item results and aggregate usage for a batch
+ */
+export interface BatchResult {
+  results: BatchItemResult[];
+  usage: {
+    total_items: number;
+    succeeded: number;
+    failed: number;
+    cache_hits: number;
+    tokens_input: number;
+    tokens_output: number;
+    estimated_cost_cents: number;
+  };
+}
+
+/**
+ * Run one already-validated input: serve it from the response cache when
+ * possible, otherwise call the LLM. Either way the call is logged to usage
+ * analytics.
+ *
+ * Each call gets its own fallback chain so retry counts are not shared
+ * between concurrent calls.
+ */
+export async function runEndpointCall(
+  {
+    endpoint,
+    keys,
+    rateLimitRules,
+    availableKeyIds,
+    metadata,
+  }: EndpointCallTarget,
+  inputData: unknown
+): Promise<EndpointCallResult> {
+  const startTime = Date.now();
+
+  const cacheKey = endpoint.cache_ttl_seconds
+    ? buildCacheKey(endpoint, keys.llmKey.provider, endpoint.model, inputData)
+    : null;
+  if (cacheKey) {
+    const cached = await getCachedResponse(cacheKey);
+    if (cached) {
+      const usage = await recordCacheHit(
+        endpoint,
+        cached,
+        startTime,
+        { input: inputData, request: null },
+        metadata
+      );
+      return { success: true, output: cached.output, usage };
+    }
+  }
+
+  const candidates = buildFallbackChain(endpoint, keys).filter(
+    candidate => !availableKeyIds || availableKeyIds.has(candidate.llmKeyId)
+  );
+  const llmRequest = buildLLMRequest(endpoint, keys.llmKey.provider, inputData);
+  const payload = { input: inputData, request: llmRequest };
+
+  try {
+    const execution = await executeEndpoint(endpoint, candidates, llmRequest);
+    const llmResponse = execution.response;
+
+    const usage = await recordSuccess(endpoint, execution, payload, metadata);
+    await recordTokenUsage(rateLimitRules, llmResponse.usage.totalTokens);
+    if (cacheKey) {
+      await storeCachedResponse(endpoint, cacheKey, llmResponse);
+    }
+
+    return { success: true, output: llmResponse.content, usage };
+  } catch (error) {
+    const errorBody = await recordFailure(
+      endpoint,
+      error,
+      startTime,
+      countRetries(candidates),
+      payload,
+      metadata
+    );
+    const billed = getBilledUsage(error);
+    if (billed) {
+      await recordTokenUsage(rateLimitRules, billed.usage.totalTokens);
+    }
+    return { success: false, ...errorBody };
+  }
+}
+
+/**
+ * Run one input through the same steps as a single request: input
+ * validation, file limits, template rendering, rate limits, budgets, then
+ * the call itself
+ */
+export async function validateAndRunCall(
+  target: EndpointCallTarget,
+  inputData: unknown
+): Promise<EndpointCallResult> {
+  const inputSchema = target.endpoint.input_schema as JsonSchema | null;
+  if (inputSchema) {
+    const violations = validateJsonSchema(inputSchema, inputData);
+    if (violations.length > 0) {
+      return {
+        success: false,
+        error: "Input does not match input_schema",
+        validation_errors: violations,
+      };
+    }
+  }
+
+  const attachmentError = checkEndpointAttachments(
+    target.endpoint,
+    target.keys.llmKey.provider,
+    inputData
+  );
+  if (attachmentError) {
+    return { success: false, error: attachmentError.message };
+  }
+
+  const templateError = checkEndpointTemplates(target.endpoint, inputData);
+  if (templateError) {
+    return { success: false, error: templateError };
+  }
+
+  let availableKeyIds = target.availableKeyIds;
+  if (target.budgetOwners) {
+    const budget = await checkBudgets(target.budgetOwners);
+    if (!budget.allowed) {
+      return {
+        success: false,
+        error: budgetExceededMessage(budget.exceeded),
+        budget: budget.exceeded,
+      };
+    }
+    availableKeyIds = budget.availableKeyIds;
+  }
+
+  if (target.rateLimitRules.length > 0) {
+    const rateLimit = await checkRateLimits(target.rateLimitRules);
+    if (!rateLimit.allowed) {
+      return { success: false, error: rateLimit.message };
+    }
+  }
+
+  return runEndpointCall({ ...target, availableKeyIds }, inputData);
+}
+
+/**
+ * Drop the success flag from a failed call, leaving its error fields
+ */
+export function toErrorFields({
+  success: _success,
+  ...fields
+}: EndpointCallResult & { success: false }) {
+  return fields;
+}
+
+/**
+ * Run a batch of inputs with bounded concurrency. Items fail independently
+ * and each is logged as its own analytics row; results are returned in input
+ * order.
+ */
+export async function runBatch(
+  target: EndpointCallTarget,
+  inputs: unknown[],
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY
+): Promise<BatchResult> {
+  const results: BatchItemResult[] = await mapWithConcurrency(
+    inputs,
+    concurrency,
+    async (input, index) => ({
+      index,
+      ...(await validateAndRunCall(target, input)),
+    })
+  );
+
+  const succeeded = results.filter(result => result.success);
+  const sum = (
+    field: "tokens_input" | "tokens_output" | "estimated_cost_cents"
+  ) => succeeded.reduce((total, result) => total + result.usage[field], 0);
+
+  return {
+    results,
+    usage: {
+      total_items: results.length,
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      cache_hits: succeeded.filter(result => result.usage.cache_hit).length,
+      tokens_input: sum("tokens_input"),
+      tokens_output: sum("tokens_output"),
+      estimated_cost_cents: sum("estimated_cost_cents"),
+    },
+  };
+}
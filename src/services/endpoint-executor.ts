@@ -0,0 +1,344 @@
+import { and, eq, inArray } from "drizzle-orm";
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+import { db, endpoints, llmApiKeys } from "../db";
+import { decryptApiKey } from "../lib/encryption";
+import { ApiHelper } from "../lib/api-helper";
+import { buildUserPrompt } from "../lib/prompt-builder";
+import { renderTemplate, TemplateError } from "../lib/template";
+import {
+  estimateAttachmentTokens,
+  extractAttachments,
+  type AttachmentError,
+} from "../lib/attachments";
+import {
+  createLLMProvider,
+  generateWithFallback,
+  generateWithRepair,
+  RetryingLLMProvider,
+  DEFAULT_RETRY_POLICY,
+  FAILOVER_TRIGGERS,
+  type FailoverRecord,
+  type FailoverTrigger,
+  type FallbackCandidate,
+  type LLMProviderType,
+  type LLMRequest,
+  type LLMResponse,
+} from "./llm";
+
+type Endpoint = typeof endpoints.$inferSelect;
+type LlmKey = typeof llmApiKeys.$inferSelect;
+
+/**
+ * The keys an endpoint runs against
+ */
+export interface EndpointKeys {
+  llmKey: LlmKey;
+  /** Active fallback keys, in the endpoint's configured order */
+  fallbackKeys: LlmKey[];
+}
+
+/**
+ * Outcome of a successful endpoint execution
+ */
+export interface EndpointExecution {
+  response: LLMResponse;
+  repairAttempts: number;
+  /** The key that served the request */
+  llmKeyId: string;
+  failovers: FailoverRecord[];
+  retryCount: number;
+}
+
+/**
+ * Load an endpoint's LLM key and fallback keys, skipping fallbacks that were
+ * deleted or deactivated
+ * @returns The keys, or null if the primary key is missing or inactive
+ */
+export async function loadEndpointKeys(
+  endpoint: Endpoint
+): Promise<EndpointKeys | null> {
+  const keyRows = await db
+    .select()
+    .from(llmApiKeys)
+    .where(
+      and(
+        eq(llmApiKeys.uuid, endpoint.llm_key_id),
+        eq(llmApiKeys.is_active, true)
+      )
+    );
+
+  if (keyRows.length === 0) {
+    return null;
+  }
+
+  let fallbackKeys: LlmKey[] = [];
+  if (endpoint.fallback_key_ids?.length) {
+    const fallbackRows = await db
+      .select()
+      .from(llmApiKeys)
+      .where(
+        and(
+          inArray(llmApiKeys.uuid, endpoint.fallback_key_ids),
+          eq(llmApiKeys.is_active, true)
+        )
+      );
+    fallbackKeys = endpoint.fallback_key_ids.flatMap(
+      keyId => fallbackRows.find(row => row.uuid === keyId) ?? []
+    );
+  }
+
+  return { llmKey: keyRows[0]!, fallbackKeys };
+}
+
+/**
+ * Render an endpoint's instructions and context templates with the input,
+ * so inputs they cannot be rendered with are rejected before calling the LLM
+ * @returns An error message, or null if both render
+ */
+export function checkEndpointTemplates(
+  endpoint: Endpoint,
+  inputData: unknown
+): string | null {
+  for (const field of ["instructions", "context"] as const) {
+    const template = endpoint[field];
+    if (!template) continue;
+    try {
+      renderTemplate(template, inputData);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return `Template rendering failed in ${field}: ${error.message}`;
+      }
+      throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the files in an input against the type and size limits, and against
+ * what the endpoint's provider accepts (Ollama takes images only)
+ * @returns The rejection, or null if every file is accepted
+ */
+export function checkEndpointAttachments(
+  endpoint: Endpoint,
+  provider: LLMProviderType,
+  inputData: unknown
+): AttachmentError | null {
+  const extracted = extractAttachments(
+    endpoint.input_schema as JsonSchema | null,
+    inputData
+  );
+  if ("error" in extracted) {
+    return extracted.error;
+  }
+  if (
+    provider === "ollama" &&
+    extracted.attachments.some(
+      attachment => !attachment.mediaType.startsWith("image/")
+    )
+  ) {
+    return { status: 415, message: "Ollama accepts image attachments only" };
+  }
+  return null;
+}
+
+/**
+ * Build the LLM request for an endpoint call (providers expect
+ * system/user format). Files declared in input_schema are sent as
+ * attachments and referenced by position in the prompt.
+ */
+export function buildLLMRequest(
+  endpoint: Endpoint,
+  provider: LLMProviderType,
+  inputData: unknown
+): LLMRequest {
+  const extracted = extractAttachments(
+    endpoint.input_schema as JsonSchema | null,
+    inputData
+  );
+  if ("error" in extracted) {
+    throw new Error(extracted.error.message);
+  }
+
+  const prompts = ApiHelper.buildLegacyPrompts({
+    inputData: extracted.input,
+    outputSchema: endpoint.output_schema as JsonSchema | null,
+    instructions: endpoint.instructions,
+    context: endpoint.context,
+    provider,
+    examples: endpoint.examples,
+  });
+
+  return {
+    prompt: prompts.user,
+    systemPrompt: prompts.system,
+    attachments: extracted.attachments.length
+      ? extracted.attachments
+      : undefined,
+    examples: endpoint.examples?.map(example => ({
+      prompt: buildUserPrompt(example.input, true),
+      response: JSON.stringify(example.output),
+    })),
+    outputSchema: (endpoint.output_schema as JsonSchema) ?? { type: "object" },
+    temperature: endpoint.temperature ?? undefined,
+    topP: endpoint.top_p ?? undefined,
+    maxTokens: endpoint.max_tokens ?? undefined,
+    stopSequences: endpoint.stop_sequences ?? undefined,
+    seed: endpoint.seed ?? undefined,
+  };
+}
+
+/**
+ * Create the provider for an LLM key, wrapped with the retry policy.
+ * The endpoint's model only applies to keys of the primary provider;
+ * fallbacks to other providers use their default. Retry settings on the
+ * endpoint override those on the key.
+ */
+export function createProviderForKey(
+  llmKey: LlmKey,
+  endpoint: Endpoint,
+  primaryProvider: LLMProviderType
+): RetryingLLMProvider {
+  // Decrypt API key
+  let apiKey: string | undefined;
+  if (llmKey.encrypted_api_key && llmKey.encryption_iv) {
+    apiKey = decryptApiKey(llmKey.encrypted_api_key, llmKey.encryption_iv);
+  }
+  let headers: Record<string, string> | undefined;
+  if (llmKey.encrypted_headers && llmKey.headers_encryption_iv) {
+    headers = JSON.parse(
+      decryptApiKey(llmKey.encrypted_headers, llmKey.headers_encryption_iv)
+    ) as Record<string, string>;
+  }
+
+  const provider = createLLMProvider(llmKey.provider, {
+    apiKey,
+    endpointUrl: llmKey.endpoint_url ?? undefined,
+    deploymentName: llmKey.deployment_name ?? undefined,
+    apiVersion: llmKey.api_version ?? undefined,
+    headers,
+    requestTemplate: llmKey.request_template ?? undefined,
+    responseMapping: llmKey.response_mapping ?? undefined,
+    model:
+      llmKey.provider === primaryProvider
+        ? (endpoint.model ?? undefined)
+        : undefined,
+  });
+
+  return new RetryingLLMProvider(provider, {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries:
+      endpoint.max_retries ??
+      llmKey.max_retries ??
+      DEFAULT_RETRY_POLICY.maxRetries,
+    timeoutMs:
+      endpoint.timeout_ms ??
+      llmKey.timeout_ms ??
+      DEFAULT_RETRY_POLICY.timeoutMs,
+  });
+}
+
+/**
+ * Create the providers for an endpoint's keys, primary first. A key whose
+ * provider cannot be created (e.g. credentials that no longer decrypt) is
+ * left out, so the call fails over to the remaining keys, or fails and is
+ * logged like any other call when none remain.
+ */
+export function buildFallbackChain(
+  endpoint: Endpoint,
+  { llmKey, fallbackKeys }: EndpointKeys
+): FallbackCandidate[] {
+  return [llmKey, ...fallbackKeys].flatMap(key => {
+    try {
+      return [
+        {
+          llmKeyId: key.uuid,
+          provider: createProviderForKey(key, endpoint, llmKey.provider),
+        },
+      ];
+    } catch (error) {
+      console.error(`Skipping LLM key ${key.uuid}:`, error);
+      return [];
+    }
+  });
+}
+
+/**
+ * Total retries performed by the providers in a fallback chain
+ */
+export function countRetries(candidates: FallbackCandidate[]): number {
+  return candidates.reduce(
+    (total, { provider }) =>
+      total + (provider instanceof RetryingLLMProvider ? provider.retries : 0),
+    0
+  );
+}
+
+/**
+ * Error categories that trigger failover for an endpoint (all by default)
+ */
+export function getFallbackTriggers(
+  endpoint: Endpoint
+): readonly FailoverTrigger[] {
+  return (
+    (endpoint.fallback_on as FailoverTrigger[] | null) ?? FAILOVER_TRIGGERS
+  );
+}
+
+/**
+ * Run an endpoint call: generate against the fallback chain and validate
+ * against output_schema, re-prompting on violations. Provider failures move
+ * on to the next key in the chain.
+ *
+ * When onDelta is given the first attempt is streamed, and failover only
+ * happens before the first delta is emitted.
+ */
+export async function executeEndpoint(
+  endpoint: Endpoint,
+  candidates: FallbackCandidate[],
+  llmRequest: LLMRequest,
+  stream?: { onDelta: (delta: string) => void; signal: AbortSignal }
+): Promise<EndpointExecution> {
+  let deltaSent = false;
+  const onDelta = (delta: string) => {
+    deltaSent = true;
+    stream?.onDelta(delta);
+  };
+
+  const {
+    result: { response, repairAttempts },
+    served,
+    failovers,
+  } = await generateWithFallback(
+    candidates,
+    getFallbackTriggers(endpoint),
+    provider =>
+      generateWithRepair(
+        provider,
+        llmRequest,
+        endpoint.max_repair_attempts,
+        stream
+          ? () => provider.stream(llmRequest, onDelta, stream.signal)
+          : undefined
+      ),
+    () => !deltaSent && !stream?.signal.aborted
+  );
+
+  // Servers that report no usage are charged an estimate for the files
+  if (response.usage.promptTokens === 0 && llmRequest.attachments?.length) {
+    const attachmentTokens = estimateAttachmentTokens(llmRequest.attachments);
+    response.usage = {
+      ...response.usage,
+      promptTokens: attachmentTokens,
+      totalTokens: response.usage.totalTokens + attachmentTokens,
+    };
+  }
+
+  return {
+    response,
+    repairAttempts,
+    llmKeyId: served.llmKeyId,
+    failovers,
+    retryCount: countRetries(candidates),
+  };
+}
@@ -0,0 +1,201 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db, endpoints, endpointVersions } from "../db";
+import { stableStringify } from "../lib/stable-stringify";
+
+type Endpoint = typeof endpoints.$inferSelect;
+type EndpointVersion = typeof endpointVersions.$inferSelect;
+
+/**
+ * Endpoint fields captured by a version. Everything else (name, HTTP
+ * method, caching, retries, limits, visibility) stays live on the endpoint.
+ */
+export const VERSIONED_FIELDS = [
+  "llm_key_id",
+  "input_schema",
+  "output_schema",
+  "instructions",
+  "context",
+  "model",
+  "temperature",
+  "top_p",
+  "max_tokens",
+  "stop_sequences",
+  "seed",
+  "max_repair_attempts",
+  "fallback_key_ids",
+  "fallback_on",
+  "examples",
+] as const;
+
+export type EndpointSnapshot = Pick<
+  Endpoint,
+  (typeof VERSIONED_FIELDS)[number]
+>;
+
+/**
+ * A field that differs between two snapshots
+ */
+export interface SnapshotChange {
+  field: (typeof VERSIONED_FIELDS)[number];
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Version requested in a public URL: a number for `name@v3`, "draft" for
+ * `name@draft`, or null for the published version. The draft always needs
+ * a project token, even on public endpoints.
+ */
+export type VersionRef = number | "draft" | null;
+
+/**
+ * Split an endpoint name from the public URL into name and version
+ * (e.g. "classify@v3" -> { name: "classify", version: 3 })
+ */
+export function parseEndpointRef(ref: string): {
+  name: string;
+  version: VersionRef;
+} {
+  const at = ref.lastIndexOf("@");
+  if (at === -1) {
+    return { name: ref, version: null };
+  }
+
+  const suffix = ref.slice(at + 1);
+  return {
+    name: ref.slice(0, at),
+    version: suffix === "draft" ? "draft" : Number(suffix.slice(1)),
+  };
+}
+
+/**
+ * Capture the versioned fields of an endpoint
+ */
+export function snapshotEndpoint(endpoint: Endpoint): EndpointSnapshot {
+  return Object.fromEntries(
+    VERSIONED_FIELDS.map(field => [field, endpoint[field]])
+  ) as EndpointSnapshot;
+}
+
+/**
+ * List the fields that differ between two snapshots
+ */
+export function diffSnapshots(
+  from: EndpointSnapshot,
+  to: EndpointSnapshot
+): SnapshotChange[] {
+  return VERSIONED_FIELDS.filter(
+    field =>
+      stableStringify(from[field] ?? null) !==
+      stableStringify(to[field] ?? null)
+  ).map(field => ({
+    field,
+    from: from[field] ?? null,
+    to: to[field] ?? null,
+  }));
+}
+
+/**
+ * Snapshot the endpoint's draft as its next version and publish it
+ * @returns The new version
+ */
+export async function publishEndpointVersion(
+  endpoint: Endpoint,
+  notes: string | null
+): Promise<EndpointVersion> {
+  return db.transaction(async tx => {
+    // Serialize publishes of the same endpoint so version numbers stay dense
+    await tx
+      .select({ uuid: endpoints.uuid })
+      .from(endpoints)
+      .where(eq(endpoints.uuid, endpoint.uuid))
+      .for("update");
+
+    const latest = await tx
+      .select({
+        version: sql<number>`COALESCE(MAX(${endpointVersions.version}), 0)`,
+      })
+      .from(endpointVersions)
+      .where(eq(endpointVersions.endpoint_id, endpoint.uuid));
+
+    const rows = await tx
+      .insert(endpointVersions)
+      .values({
+        endpoint_id: endpoint.uuid,
+        version: Number(latest[0]?.version ?? 0) + 1,
+        snapshot: snapshotEndpoint(endpoint),
+        notes,
+      })
+      .returning();
+    const version = rows[0]!;
+
+    await tx
+      .update(endpoints)
+      .set({ published_version: version.version, updated_at: new Date() })
+      .where(eq(endpoints.uuid, endpoint.uuid));
+
+    return version;
+  });
+}
+
+/**
+ * List an endpoint's versions, newest first
+ */
+export async function listEndpointVersions(
+  endpointId: string
+): Promise<EndpointVersion[]> {
+  return db
+    .select()
+    .from(endpointVersions)
+    .where(eq(endpointVersions.endpoint_id, endpointId))
+    .orderBy(desc(endpointVersions.version));
+}
+
+/**
+ * Get one version of an endpoint
+ */
+export async function getEndpointVersion(
+  endpointId: string,
+  version: number
+): Promise<EndpointVersion | null> {
+  const rows = await db
+    .select()
+    .from(endpointVersions)
+    .where(
+      and(
+        eq(endpointVersions.endpoint_id, endpointId),
+        eq(endpointVersions.version, version)
+      )
+    );
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Resolve the configuration to serve for a request. Pinned versions and the
+ * published version are overlaid on the endpoint; the draft is served when
+ * requested explicitly or when nothing has been published yet.
+ *
+ * @returns The effective endpoint and the version it reflects (null for the
+ *   draft), or null if the requested version does not exist
+ */
+export async function resolveEndpointVersion(
+  endpoint: Endpoint,
+  requested: VersionRef
+): Promise<{ endpoint: Endpoint; version: number | null } | null> {
+  const versionNumber =
+    requested === "draft" ? null : (requested ?? endpoint.published_version);
+  if (versionNumber === null) {
+    return { endpoint, version: null };
+  }
+
+  const version = await getEndpointVersion(endpoint.uuid, versionNumber);
+  if (!version) {
+    return null;
+  }
+
+  return {
+    endpoint: { ...endpoint, ...(version.snapshot as EndpointSnapshot) },
+    version: version.version,
+  };
+}
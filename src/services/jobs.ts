@@ -0,0 +1,375 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import {
+  db,
+  aiJobs,
+  aiJobWebhookDeliveries,
+  endpoints,
+  projects,
+  users,
+  userSettings,
+} from "../db";
+import { encryptApiKey } from "../lib/encryption";
+import { loadEndpointKeys } from "./endpoint-executor";
+import { resolveEndpointVersion } from "./endpoint-versions";
+import { runBatch, runEndpointCall, toErrorFields } from "./endpoint-calls";
+import { getRateLimitRules } from "./rate-limiter";
+import { budgetExceededMessage, checkBudgets, getBudgetOwners } from "./budget";
+import { deliverPendingWebhooks } from "./webhooks";
+
+type AiJob = typeof aiJobs.$inferSelect;
+type WebhookDelivery = typeof aiJobWebhookDeliveries.$inferSelect;
+
+/**
+ * "single" runs one input; "batch" runs {inputs, concurrency} like the batch
+ * route
+ */
+export type JobKind = "single" | "batch";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * Where to post the result when a job completes, and the secret its body is
+ * signed with
+ */
+export interface JobWebhook {
+  url: string;
+  secret: string;
+}
+
+/**
+ * Times a job is started before it is failed. A job is only restarted when a
+ * worker stopped while running it.
+ */
+export const MAX_JOB_ATTEMPTS = 3;
+
+/**
+ * How often the worker running a job renews its heartbeat
+ */
+const JOB_HEARTBEAT_INTERVAL_MS = 30_000;
+
+/**
+ * A running job is assumed abandoned when its heartbeat is this old
+ */
+const STALE_JOB_MS = 4 * JOB_HEARTBEAT_INTERVAL_MS;
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+interface JobOutcome {
+  status: "succeeded" | "failed";
+  result: unknown;
+  error: unknown;
+}
+
+const failed = (error: string): JobOutcome => ({
+  status: "failed",
+  result: null,
+  error: { error },
+});
+
+/**
+ * Queue an endpoint call for the job worker
+ * @param version - The version resolved when the job was submitted, or null
+ * for the draft
+ */
+export async function createJob({
+  projectId,
+  endpointId,
+  version,
+  kind,
+  input,
+  webhook,
+}: {
+  projectId: string;
+  endpointId: string;
+  version: number | null;
+  kind: JobKind;
+  input: unknown;
+  webhook: JobWebhook | null;
+}): Promise<AiJob> {
+  const secret = webhook ? encryptApiKey(webhook.secret) : null;
+
+  const rows = await db
+    .insert(aiJobs)
+    .values({
+      project_id: projectId,
+      endpoint_id: endpointId,
+      version,
+      kind,
+      input,
+      webhook_url: webhook?.url ?? null,
+      encrypted_webhook_secret: secret?.encrypted ?? null,
+      webhook_secret_iv: secret?.iv ?? null,
+    })
+    .returning();
+
+  return rows[0]!;
+}
+
+/**
+ * Claim the oldest queued job, or a running job whose worker has gone away
+ * (its heartbeat stopped)
+ */
+async function claimNextJob(): Promise<AiJob | null> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_JOB_MS);
+  const rows = await db
+    .update(aiJobs)
+    .set({
+      status: "running",
+      attempts: sql`${aiJobs.attempts} + 1`,
+      started_at: now,
+      heartbeat_at: now,
+    })
+    .where(
+      inArray(
+        aiJobs.uuid,
+        sql`(
+          SELECT uuid FROM ${aiJobs}
+          WHERE status = 'queued'
+            OR (status = 'running' AND heartbeat_at < ${staleBefore.toISOString()})
+          ORDER BY created_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )`
+      )
+    )
+    .returning();
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Run a job against the endpoint version it was submitted for. Rate limits
+ * were checked at submission; batch items still count against the
+ * per-minute limits as they run. Budgets are checked again when the job
+ * runs and before each batch item, since spend may have reached a cap while
+ * the job was queued.
+ */
+async function executeJob(job: AiJob): Promise<JobOutcome> {
+  const endpointRows = await db
+    .select()
+    .from(endpoints)
+    .where(eq(endpoints.uuid, job.endpoint_id));
+  if (endpointRows.length === 0) {
+    return failed("Endpoint not found");
+  }
+
+  const resolved = await resolveEndpointVersion(
+    endpointRows[0]!,
+    job.version ?? "draft"
+  );
+  if (!resolved) {
+    return failed("Endpoint version not found");
+  }
+  const { endpoint } = resolved;
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.uuid, job.project_id));
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.uuid, project!.user_id));
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.user_id, user!.uuid));
+
+  const keys = await loadEndpointKeys(endpoint);
+  if (!keys) {
+    return failed("LLM API key not found or inactive");
+  }
+
+  const budgetOwners = getBudgetOwners(user!, settings ?? null, project!, keys);
+  const budget = await checkBudgets(budgetOwners);
+  if (!budget.allowed) {
+    return {
+      status: "failed",
+      result: null,
+      error: {
+        error: budgetExceededMessage(budget.exceeded),
+        budget: budget.exceeded,
+      },
+    };
+  }
+
+  const target = {
+    endpoint,
+    keys,
+    rateLimitRules: getRateLimitRules(
+      user!,
+      settings ?? null,
+      project!,
+      endpoint
+    ),
+    availableKeyIds: budget.availableKeyIds,
+    budgetOwners,
+  };
+
+  if (job.kind === "batch") {
+    const { inputs, concurrency } = job.input as {
+      inputs: unknown[];
+      concurrency?: number;
+    };
+    const batch = await runBatch(target, inputs, concurrency);
+    return { status: "succeeded", result: batch, error: null };
+  }
+
+  const call = await runEndpointCall(target, job.input);
+  if (call.success) {
+    return {
+      status: "succeeded",
+      result: { output: call.output, usage: call.usage },
+      error: null,
+    };
+  }
+  return { status: "failed", result: null, error: toErrorFields(call) };
+}
+
+/**
+ * Condition matching a job only while this worker's claim on it holds;
+ * another worker that reclaimed the job has raised its attempt count
+ */
+function heldClaim(job: AiJob) {
+  return and(
+    eq(aiJobs.uuid, job.uuid),
+    eq(aiJobs.status, "running"),
+    eq(aiJobs.attempts, job.attempts)
+  );
+}
+
+/**
+ * Renew a running job's heartbeat until stopped, so other workers do not
+ * reclaim it however long it runs
+ * @returns A function that stops the heartbeat
+ */
+function startHeartbeat(job: AiJob): () => void {
+  const timer = setInterval(async () => {
+    try {
+      await db
+        .update(aiJobs)
+        .set({ heartbeat_at: new Date() })
+        .where(heldClaim(job));
+    } catch (error) {
+      console.error("Job heartbeat error:", error);
+    }
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Store a job's outcome and schedule its webhook. Nothing is stored if
+ * another worker has reclaimed the job.
+ */
+async function finishJob(job: AiJob, outcome: JobOutcome): Promise<AiJob> {
+  const rows = await db
+    .update(aiJobs)
+    .set({
+      status: outcome.status,
+      result: outcome.result,
+      error: outcome.error,
+      completed_at: new Date(),
+      webhook_status: job.webhook_url ? "pending" : null,
+      next_webhook_at: job.webhook_url ? new Date() : null,
+    })
+    .where(heldClaim(job))
+    .returning();
+
+  return rows[0] ?? job;
+}
+
+/**
+ * Claim and run the next job
+ * @returns The finished job, or null if none was waiting
+ */
+export async function processNextJob(): Promise<AiJob | null> {
+  const job = await claimNextJob();
+  if (!job) {
+    return null;
+  }
+
+  if (job.attempts > MAX_JOB_ATTEMPTS) {
+    return finishJob(
+      job,
+      failed(`Job abandoned after ${MAX_JOB_ATTEMPTS} attempts`)
+    );
+  }
+
+  const stopHeartbeat = startHeartbeat(job);
+  let outcome: JobOutcome;
+  try {
+    outcome = await executeJob(job);
+  } catch (error) {
+    outcome = failed(error instanceof Error ? error.message : "Unknown error");
+  } finally {
+    stopHeartbeat();
+  }
+  return finishJob(job, outcome);
+}
+
+/**
+ * Poll for queued jobs and due webhooks until stopped. Each instance runs
+ * one job at a time, delivering due webhooks in between; jobs are claimed
+ * with SKIP LOCKED so several instances can share the queue.
+ * @returns A function that stops the worker
+ */
+export function startJobWorker(
+  pollIntervalMs: number = JOB_POLL_INTERVAL_MS
+): () => void {
+  let busy = false;
+
+  const timer = setInterval(async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      // Deliver due webhooks after every job, so steady job traffic can't
+      // hold them back
+      let job: AiJob | null;
+      do {
+        job = await processNextJob();
+        await deliverPendingWebhooks();
+      } while (job !== null);
+    } catch (error) {
+      console.error("Job worker error:", error);
+    } finally {
+      busy = false;
+    }
+  }, pollIntervalMs);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Job as returned to API consumers (the webhook secret is never returned)
+ */
+export function toJobResponse(job: AiJob, deliveries: WebhookDelivery[]) {
+  return {
+    job_id: job.uuid,
+    kind: job.kind,
+    status: job.status,
+    endpoint_id: job.endpoint_id,
+    version: job.version,
+    result: job.result,
+    error: job.error,
+    attempts: job.attempts,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    completed_at: job.completed_at,
+    webhook: job.webhook_url
+      ? {
+          url: job.webhook_url,
+          status: job.webhook_status,
+          attempts: job.webhook_attempts,
+          deliveries: deliveries.map(delivery => ({
+            attempt: delivery.attempt,
+            status_code: delivery.status_code,
+            error: delivery.error,
+            duration_ms: delivery.duration_ms,
+            created_at: delivery.created_at,
+          })),
+        }
+      : null,
+  };
+}
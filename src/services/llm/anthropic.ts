@@ -5,6 +5,7 @@ import type {
   LLMResponse,
   ProviderConfig,
 } from "./types";
+import { buildConversation } from "./conversation";
 
 const DEFAULT_MODEL = "claude-3-5-sonnet-20241022";
 
@@ -17,15 +18,55 @@ export class AnthropicProvider implements ILLMProvider {
     if (!config.apiKey) {
       throw new Error("Anthropic API key is required");
     }
-    this.client = new Anthropic({ apiKey: config.apiKey });
+    // Retries are handled by RetryingLLMProvider
+    this.client = new Anthropic({ apiKey: config.apiKey, maxRetries: 0 });
     this.defaultModel = config.model ?? DEFAULT_MODEL;
   }
 
-  async generate(request: LLMRequest): Promise<LLMResponse> {
-    const model = request.model ?? this.defaultModel;
-    const startTime = Date.now();
+  /**
+   * Build the messages, with attachments as image and document blocks
+   * ahead of the prompt text
+   */
+  private buildMessages(request: LLMRequest): Anthropic.MessageParam[] {
+    return buildConversation(request).map(turn => {
+      if (!turn.attachments?.length) {
+        return { role: turn.role, content: turn.content };
+      }
+
+      const blocks: Anthropic.ContentBlockParam[] = turn.attachments.map(
+        attachment =>
+          attachment.mediaType === "application/pdf"
+            ? {
+                type: "document",
+                source: {
+                  type: "base64",
+                  media_type: "application/pdf",
+                  data: attachment.data,
+                },
+              }
+            : {
+                type: "image",
+                source: {
+                  type: "base64",
+                  media_type:
+                    attachment.mediaType as Anthropic.Base64ImageSource["media_type"],
+                  data: attachment.data,
+                },
+              }
+      );
+      return {
+        role: turn.role,
+        content: [...blocks, { type: "text", text: turn.content }],
+      };
+    });
+  }
 
-    // Use tool_use for structured output
+  /**
+   * Build message params using tool_use for structured output
+   */
+  private buildParams(
+    request: LLMRequest
+  ): Anthropic.MessageCreateParamsNonStreaming {
     const tools: Anthropic.Tool[] = [
       {
         name: "structured_response",
@@ -34,15 +75,29 @@ export class AnthropicProvider implements ILLMProvider {
       },
     ];
 
-    const response = await this.client.messages.create({
-      model,
+    return {
+      model: request.model ?? this.defaultModel,
       max_tokens: request.maxTokens ?? 4096,
       system: request.systemPrompt,
-      messages: [{ role: "user", content: request.prompt }],
+      messages: this.buildMessages(request),
       tools,
       tool_choice: { type: "tool", name: "structured_response" },
       temperature: request.temperature ?? 0,
-    });
+      top_p: request.topP,
+      stop_sequences: request.stopSequences,
+    };
+  }
+
+  async generate(
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    const response = await this.client.messages.create(
+      this.buildParams(request),
+      { signal }
+    );
 
     const latencyMs = Date.now() - startTime;
 
@@ -72,6 +127,56 @@ export class AnthropicProvider implements ILLMProvider {
     };
   }
 
+  async stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    const stream = await this.client.messages.create(
+      { ...this.buildParams(request), stream: true },
+      { signal }
+    );
+
+    let rawResponse = "";
+    let model = request.model ?? this.defaultModel;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === "message_start") {
+        model = event.message.model;
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === "message_delta") {
+        outputTokens = event.usage.output_tokens;
+      } else if (
+        event.type === "content_block_delta" &&
+        event.delta.type === "input_json_delta"
+      ) {
+        rawResponse += event.delta.partial_json;
+        onDelta(event.delta.partial_json);
+      }
+    }
+
+    if (!rawResponse) {
+      throw new Error("Expected tool_use response from Anthropic");
+    }
+
+    return {
+      content: JSON.parse(rawResponse),
+      rawResponse,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      model,
+      provider: this.providerName,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
   buildApiPayload(request: LLMRequest): Record<string, unknown> {
     const model = request.model ?? this.defaultModel;
 
@@ -79,7 +184,7 @@ export class AnthropicProvider implements ILLMProvider {
       model,
       max_tokens: request.maxTokens ?? 4096,
       system: request.systemPrompt,
-      messages: [{ role: "user", content: request.prompt }],
+      messages: this.buildMessages(request),
       tools: [
         {
           name: "structured_response",
@@ -89,6 +194,8 @@ export class AnthropicProvider implements ILLMProvider {
       ],
       tool_choice: { type: "tool", name: "structured_response" },
       temperature: request.temperature ?? 0,
+      top_p: request.topP,
+      stop_sequences: request.stopSequences,
     };
   }
 }
@@ -0,0 +1,52 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type { LLMProviderType, ProviderConfig } from "./types";
+import { OpenAIProvider } from "./openai";
+
+const DEFAULT_API_VERSION = "2024-10-21";
+
+function trimEndpoint(endpointUrl: string): string {
+  return endpointUrl.replace(/\/+$/, "");
+}
+
+/**
+ * Azure OpenAI deployments. Requests and structured output work as with
+ * OpenAI; the deployment, not the model, selects what runs.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  override readonly providerName: LLMProviderType = "azure_openai";
+  private endpointUrl: string;
+
+  constructor(config: ProviderConfig) {
+    // Responses report the deployed model; the deployment name stands in
+    // until then
+    super({ ...config, model: config.model ?? config.deploymentName });
+    this.endpointUrl = `${trimEndpoint(config.endpointUrl!)}/openai/deployments/${config.deploymentName}/chat/completions?api-version=${config.apiVersion ?? DEFAULT_API_VERSION}`;
+  }
+
+  protected override createClient(config: ProviderConfig): OpenAI {
+    if (!config.apiKey) {
+      throw new Error("Azure OpenAI API key is required");
+    }
+    if (!config.endpointUrl || !config.deploymentName) {
+      throw new Error(
+        "Azure OpenAI resource endpoint and deployment name are required"
+      );
+    }
+
+    // Retries are handled by RetryingLLMProvider
+    return new AzureOpenAI({
+      apiKey: config.apiKey,
+      endpoint: trimEndpoint(config.endpointUrl),
+      deployment: config.deploymentName,
+      apiVersion: config.apiVersion ?? DEFAULT_API_VERSION,
+      maxRetries: 0,
+    });
+  }
+
+  /**
+   * Get the chat completions URL of the deployment
+   */
+  getEndpointUrl(): string {
+    return this.endpointUrl;
+  }
+}
@@ -0,0 +1,264 @@
+import type {
+  ILLMProvider,
+  LLMAttachment,
+  LLMRequest,
+  LLMResponse,
+  ProviderConfig,
+} from "./types";
+import { LLMHttpError } from "./errors";
+import { buildConversation, type ChatTurn } from "./conversation";
+import { signAwsRequest, type AwsCredentials } from "../../lib/aws-sigv4";
+
+const DEFAULT_MODEL = "anthropic.claude-3-5-sonnet-20241022-v2:0";
+
+/**
+ * Models that accept a forced tool choice in the Converse API: Claude 3 and
+ * later, and Mistral Large. Model IDs may carry a cross-region inference
+ * prefix such as "us.".
+ */
+const FORCED_TOOL_CHOICE_MODELS = [
+  /^(?:[a-z-]+\.)?anthropic\.claude-(?!v2|instant)/,
+  /^(?:[a-z-]+\.)?mistral\.mistral-large/,
+];
+
+function supportsForcedToolChoice(model: string): boolean {
+  return FORCED_TOOL_CHOICE_MODELS.some(pattern => pattern.test(model));
+}
+
+/**
+ * Parse a text answer, for models that reply with JSON instead of calling
+ * the tool (the system prompt asks for JSON only). Code fences are stripped.
+ */
+function parseTextContent(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1]! : text).trim());
+}
+
+/**
+ * AWS credentials and region of a Bedrock key. They are stored together,
+ * encrypted, in place of an API key.
+ */
+export interface BedrockCredentials extends AwsCredentials {
+  region: string;
+}
+
+/**
+ * Serialize Bedrock credentials for storage as the key's encrypted API key
+ */
+export function serializeBedrockCredentials(
+  credentials: BedrockCredentials
+): string {
+  return JSON.stringify(credentials);
+}
+
+function parseBedrockCredentials(apiKey: string): BedrockCredentials | null {
+  try {
+    const parsed = JSON.parse(apiKey) as Partial<BedrockCredentials>;
+    if (parsed.accessKeyId && parsed.secretAccessKey && parsed.region) {
+      return parsed as BedrockCredentials;
+    }
+  } catch {
+    // Not stored by serializeBedrockCredentials
+  }
+  return null;
+}
+
+/**
+ * Converse API content block for an attachment
+ */
+function toConverseBlock(attachment: LLMAttachment, index: number) {
+  const format = attachment.mediaType.split("/")[1]!;
+  return attachment.mediaType === "application/pdf"
+    ? {
+        document: {
+          format,
+          name: `attachment-${index + 1}`,
+          source: { bytes: attachment.data },
+        },
+      }
+    : { image: { format, source: { bytes: attachment.data } } };
+}
+
+/**
+ * AWS Bedrock through the Converse API, with structured output as a tool
+ * call: forced for models that support it, offered to the others, which may
+ * answer with JSON text instead. Requests are signed with SigV4; endpointUrl
+ * overrides the regional bedrock-runtime endpoint.
+ */
+export class BedrockProvider implements ILLMProvider {
+  readonly providerName = "bedrock" as const;
+  private credentials: BedrockCredentials;
+  private baseUrl: string;
+  private defaultModel: string;
+
+  constructor(config: ProviderConfig) {
+    const credentials = config.apiKey
+      ? parseBedrockCredentials(config.apiKey)
+      : null;
+    if (!credentials) {
+      throw new Error(
+        "AWS access key, secret access key and region are required for Bedrock"
+      );
+    }
+    this.credentials = credentials;
+    this.baseUrl = (
+      config.endpointUrl ??
+      `https://bedrock-runtime.${credentials.region}.amazonaws.com`
+    ).replace(/\/+$/, "");
+    this.defaultModel = config.model ?? DEFAULT_MODEL;
+  }
+
+  private buildMessages(turns: ChatTurn[]) {
+    return turns.map(turn => ({
+      role: turn.role,
+      content: [
+        ...(turn.attachments ?? []).map(toConverseBlock),
+        { text: turn.content },
+      ],
+    }));
+  }
+
+  /**
+   * Get the Converse URL for a model
+   */
+  getEndpointUrl(model: string = this.defaultModel): string {
+    return `${this.baseUrl}/model/${encodeURIComponent(model)}/converse`;
+  }
+
+  buildApiPayload(request: LLMRequest): Record<string, unknown> {
+    const model = request.model ?? this.defaultModel;
+    const inferenceConfig = {
+      temperature: request.temperature ?? 0,
+      topP: request.topP,
+      maxTokens: request.maxTokens,
+      stopSequences: request.stopSequences,
+    };
+
+    return {
+      messages: this.buildMessages(buildConversation(request)),
+      ...(request.systemPrompt && {
+        system: [{ text: request.systemPrompt }],
+      }),
+      inferenceConfig: Object.fromEntries(
+        Object.entries(inferenceConfig).filter(
+          ([, value]) => value !== undefined
+        )
+      ),
+      toolConfig: {
+        tools: [
+          {
+            toolSpec: {
+              name: "structured_response",
+              description: "Generate structured response matching the schema",
+              inputSchema: { json: request.outputSchema },
+            },
+          },
+        ],
+        toolChoice: supportsForcedToolChoice(model)
+          ? { tool: { name: "structured_response" } }
+          : { auto: {} },
+      },
+    };
+  }
+
+  async generate(
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const model = request.model ?? this.defaultModel;
+    const url = this.getEndpointUrl(model);
+    const body = JSON.stringify(this.buildApiPayload(request));
+
+    const headers = signAwsRequest(
+      {
+        method: "POST",
+        url,
+        headers: { "content-type": "application/json" },
+        body,
+      },
+      this.credentials,
+      this.credentials.region,
+      "bedrock"
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: "POST", headers, body, signal });
+    } catch (fetchError) {
+      const errorMsg =
+        fetchError instanceof Error ? fetchError.message : String(fetchError);
+      throw new Error(`Failed to connect to Bedrock at ${url}: ${errorMsg}`, {
+        cause: fetchError,
+      });
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMHttpError(
+        `Bedrock error (${response.status}): ${errorText}`,
+        response.status,
+        response.headers.get("retry-after")
+      );
+    }
+
+    const result = (await response.json()) as {
+      output?: {
+        message?: {
+          content?: {
+            text?: string;
+            toolUse?: { name: string; input: unknown };
+          }[];
+        };
+      };
+      usage?: { inputTokens?: number; outputTokens?: number };
+    };
+
+    const blocks = result.output?.message?.content ?? [];
+    const toolUse = blocks.find(
+      block => block.toolUse?.name === "structured_response"
+    )?.toolUse;
+    let content: unknown;
+    let rawResponse: string;
+    if (toolUse) {
+      content = toolUse.input;
+      rawResponse = JSON.stringify(toolUse.input);
+    } else {
+      rawResponse = blocks.map(block => block.text ?? "").join("");
+      if (!rawResponse) {
+        throw new Error("Expected tool use or text response from Bedrock");
+      }
+      content = parseTextContent(rawResponse);
+    }
+
+    const inputTokens = result.usage?.inputTokens ?? 0;
+    const outputTokens = result.usage?.outputTokens ?? 0;
+
+    return {
+      content,
+      rawResponse,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      model,
+      provider: this.providerName,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * ConverseStream answers in AWS's binary event-stream encoding, so the
+   * response is generated in one piece and emitted as a single delta
+   */
+  async stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const response = await this.generate(request, signal);
+    onDelta(response.rawResponse);
+    return response;
+  }
+}
@@ -0,0 +1,54 @@
+import type { LLMAttachment, LLMRequest } from "./types";
+
+/**
+ * One non-system message in a chat conversation
+ */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+  /** Files sent with the message (only on the final prompt) */
+  attachments?: LLMAttachment[];
+}
+
+/**
+ * Build the user/assistant turns for a request: each few-shot example as a
+ * user prompt answered by the example output, followed by the actual prompt
+ */
+export function buildConversation(request: LLMRequest): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+  for (const example of request.examples ?? []) {
+    turns.push(
+      { role: "user", content: example.prompt },
+      { role: "assistant", content: example.response }
+    );
+  }
+  turns.push({
+    role: "user",
+    content: request.prompt,
+    ...(request.attachments?.length && { attachments: request.attachments }),
+  });
+  return turns;
+}
+
+/**
+ * Message content in the OpenAI chat format: plain text, or text followed
+ * by image_url and file parts when the turn has attachments
+ */
+export function toOpenAIContent(turn: ChatTurn) {
+  if (!turn.attachments?.length) {
+    return turn.content;
+  }
+
+  return [
+    { type: "text" as const, text: turn.content },
+    ...turn.attachments.map((attachment, index) => {
+      const url = `data:${attachment.mediaType};base64,${attachment.data}`;
+      return attachment.mediaType.startsWith("image/")
+        ? { type: "image_url" as const, image_url: { url } }
+        : {
+            type: "file" as const,
+            file: { filename: `attachment-${index + 1}.pdf`, file_data: url },
+          };
+    }),
+  ];
+}
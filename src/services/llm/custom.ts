@@ -3,16 +3,27 @@ import type {
   LLMRequest,
   LLMResponse,
   ProviderConfig,
+  ResponseMapping,
 } from "./types";
+import { LLMHttpError } from "./errors";
+import { buildConversation, toOpenAIContent } from "./conversation";
+import { getAtJsonPath, MISSING } from "../../lib/object-path";
+import { renderRequestTemplate } from "../../lib/request-template";
 
 /**
  * Custom LLM Server provider that forwards requests to user's endpoint.
- * Expects the endpoint to follow OpenAI-compatible format.
+ * Expects the endpoint to follow OpenAI-compatible format. The key's API
+ * key, if any, is sent as a bearer token along with its custom headers.
+ * Keys can instead define a request body template and where the response
+ * holds the content and usage, for servers with other formats.
  */
 export class CustomLLMProvider implements ILLMProvider {
   readonly providerName = "llm_server" as const;
   private endpointUrl: string;
-  private timeout: number;
+  private defaultModel: string | undefined;
+  private headers: Headers;
+  private requestTemplate: Record<string, unknown> | undefined;
+  private responseMapping: ResponseMapping | undefined;
 
   constructor(config: ProviderConfig) {
     if (!config.endpointUrl) {
@@ -26,54 +37,182 @@ export class CustomLLMProvider implements ILLMProvider {
       url = url + "chat/completions";
     }
     this.endpointUrl = url;
-    this.timeout = 120_000; // 2 minutes
+    this.defaultModel = config.model;
+    this.requestTemplate = config.requestTemplate;
+    this.responseMapping = config.responseMapping;
+    this.headers = new Headers({ "Content-Type": "application/json" });
+    if (config.apiKey) {
+      this.headers.set("Authorization", `Bearer ${config.apiKey}`);
+    }
+    // Custom headers win, so a gateway can use another Authorization scheme
+    for (const [name, value] of Object.entries(config.headers ?? {})) {
+      this.headers.set(name, value);
+    }
   }
 
-  async generate(request: LLMRequest): Promise<LLMResponse> {
-    const startTime = Date.now();
-
-    const payload = this.buildApiPayload(request);
-
+  /**
+   * POST a payload to the LLM server, converting connection and HTTP errors
+   */
+  private async post(
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
     let response: Response;
     try {
       response = await fetch(this.endpointUrl, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: this.headers,
         body: JSON.stringify(payload),
-        signal: AbortSignal.timeout(this.timeout),
+        signal,
       });
     } catch (fetchError) {
       const errorMsg =
         fetchError instanceof Error ? fetchError.message : String(fetchError);
       throw new Error(
-        `Failed to connect to LLM Server at ${this.endpointUrl}: ${errorMsg}`
+        `Failed to connect to LLM Server at ${this.endpointUrl}: ${errorMsg}`,
+        { cause: fetchError }
       );
     }
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`LLM Server error (${response.status}): ${errorText}`);
+      throw new LLMHttpError(
+        `LLM Server error (${response.status}): ${errorText}`,
+        response.status,
+        response.headers.get("retry-after")
+      );
     }
 
+    return response;
+  }
+
+  async generate(
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    const payload = this.buildApiPayload(request);
+    const response = await this.post(payload, signal);
+
     const result = (await response.json()) as Record<string, unknown>;
     const latencyMs = Date.now() - startTime;
 
-    // Parse response - try multiple common formats
-    const { rawResponse, content } = this.parseResponse(result);
-    const usage = this.extractUsage(result);
+    // Parse response - with the key's mapping, or try multiple common formats
+    const { rawResponse, content } = this.responseMapping
+      ? this.parseMappedResponse(result, this.responseMapping)
+      : this.parseResponse(result);
+    const usage = this.responseMapping
+      ? this.extractMappedUsage(result, this.responseMapping)
+      : this.extractUsage(result);
 
     return {
       content,
       rawResponse,
       usage,
-      model: request.model ?? "custom",
+      model: request.model ?? this.defaultModel ?? "custom",
       provider: this.providerName,
       latencyMs,
     };
   }
 
+  async stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    // The stream format of servers with their own request format is
+    // unknown, so they answer in one piece
+    if (this.requestTemplate || this.responseMapping) {
+      const response = await this.generate(request, signal);
+      onDelta(response.rawResponse);
+      return response;
+    }
+
+    const startTime = Date.now();
+
+    const payload = {
+      ...this.buildApiPayload(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    const response = await this.post(payload, signal);
+
+    // Servers without streaming support answer with a regular JSON body
+    const contentType = response.headers.get("content-type") ?? "";
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      const result = (await response.json()) as Record<string, unknown>;
+      const { rawResponse, content } = this.parseResponse(result);
+      onDelta(rawResponse);
+
+      return {
+        content,
+        rawResponse,
+        usage: this.extractUsage(result),
+        model: request.model ?? this.defaultModel ?? "custom",
+        provider: this.providerName,
+        latencyMs: Date.now() - startTime,
+      };
+    }
+
+    // OpenAI-style SSE: "data: {chunk}" lines terminated by "data: [DONE]"
+    let rawResponse = "";
+    let usageSource: Record<string, unknown> = {};
+    let buffer = "";
+    const decoder = new TextDecoder();
+
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith("data:")) continue;
+        const json = data.slice(5).trim();
+        if (!json || json === "[DONE]") continue;
+
+        const chunk = JSON.parse(json) as Record<string, unknown>;
+        if (chunk.usage) {
+          usageSource = chunk;
+        }
+        const delta = this.extractStreamDelta(chunk);
+        if (delta) {
+          rawResponse += delta;
+          onDelta(delta);
+        }
+      }
+    }
+
+    return {
+      content: JSON.parse(this.extractJson(rawResponse)),
+      rawResponse,
+      usage: this.extractUsage(usageSource),
+      model: request.model ?? this.defaultModel ?? "custom",
+      provider: this.providerName,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Extract the text delta from an OpenAI-format stream chunk
+   */
+  private extractStreamDelta(chunk: Record<string, unknown>): string {
+    const choices = chunk.choices as Record<string, unknown>[] | undefined;
+    const delta = choices?.[0]?.delta as Record<string, unknown> | undefined;
+    if (!delta) return "";
+
+    const toolCalls = delta.tool_calls as Record<string, unknown>[] | undefined;
+    const func = toolCalls?.[0]?.function as
+      | Record<string, unknown>
+      | undefined;
+    if (typeof func?.arguments === "string") {
+      return func.arguments;
+    }
+
+    return typeof delta.content === "string" ? delta.content : "";
+  }
+
   /**
    * Parse response from custom endpoint - supports multiple formats
    */
@@ -138,6 +277,50 @@ export class CustomLLMProvider implements ILLMProvider {
     return { rawResponse, content };
   }
 
+  /**
+   * Read the content from a response with the key's response mapping
+   */
+  private parseMappedResponse(
+    result: Record<string, unknown>,
+    mapping: ResponseMapping
+  ): { rawResponse: string; content: unknown } {
+    const value = getAtJsonPath(result, mapping.content);
+    if (value === MISSING || value === null) {
+      throw new Error(
+        `LLM Server response has no content at ${mapping.content}`
+      );
+    }
+
+    if (typeof value !== "string") {
+      return { rawResponse: JSON.stringify(value), content: value };
+    }
+    return { rawResponse: value, content: JSON.parse(this.extractJson(value)) };
+  }
+
+  /**
+   * Read token usage from a response with the key's response mapping
+   */
+  private extractMappedUsage(
+    result: Record<string, unknown>,
+    mapping: ResponseMapping
+  ): {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  } {
+    const count = (path: string | undefined) => {
+      const value = path ? getAtJsonPath(result, path) : undefined;
+      return typeof value === "number" ? value : undefined;
+    };
+
+    const promptTokens = count(mapping.prompt_tokens) ?? 0;
+    const completionTokens = count(mapping.completion_tokens) ?? 0;
+    const totalTokens =
+      count(mapping.total_tokens) ?? promptTokens + completionTokens;
+
+    return { promptTokens, completionTokens, totalTokens };
+  }
+
   /**
    * Extract JSON from response that might contain extra text
    */
@@ -195,19 +378,43 @@ export class CustomLLMProvider implements ILLMProvider {
   }
 
   buildApiPayload(request: LLMRequest): Record<string, unknown> {
-    // Build OpenAI-compatible payload
-    const messages: { role: string; content: string }[] = [];
+    // Build OpenAI-compatible payload (attachments as image_url/file parts)
+    const messages: {
+      role: string;
+      content: ReturnType<typeof toOpenAIContent>;
+    }[] = [];
     if (request.systemPrompt) {
       messages.push({ role: "system", content: request.systemPrompt });
     }
-    messages.push({ role: "user", content: request.prompt });
+    for (const turn of buildConversation(request)) {
+      messages.push({ role: turn.role, content: toOpenAIContent(turn) });
+    }
+
+    if (this.requestTemplate) {
+      return renderRequestTemplate(this.requestTemplate, {
+        prompt: request.prompt,
+        system_prompt: request.systemPrompt,
+        messages,
+        output_schema: request.outputSchema,
+        model: request.model ?? this.defaultModel,
+        temperature: request.temperature ?? 0,
+        top_p: request.topP,
+        max_tokens: request.maxTokens,
+        stop: request.stopSequences,
+        seed: request.seed,
+      });
+    }
 
     // Use simple payload for custom LLM servers - rely on system prompt for JSON formatting
     // Many servers don't support response_format or tools
     return {
+      model: request.model ?? this.defaultModel,
       messages,
       temperature: request.temperature ?? 0,
+      top_p: request.topP,
       max_tokens: request.maxTokens,
+      stop: request.stopSequences,
+      seed: request.seed,
     };
   }
 
@@ -0,0 +1,175 @@
+/**
+ * Categories of provider failure that can trigger failover to a fallback key
+ */
+export const FAILOVER_TRIGGERS = [
+  "timeout",
+  "rate_limit",
+  "server_error",
+  "invalid_json",
+] as const;
+
+export type FailoverTrigger = (typeof FAILOVER_TRIGGERS)[number];
+
+/**
+ * Categories of provider failure that are worth retrying on the same key
+ */
+export type RetryReason = "rate_limit" | "server_error" | "timeout" | "network";
+
+/** Socket-level error codes that indicate a transient network failure */
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * HTTP error returned by an LLM server, carrying the response status
+ * and any Retry-After hint
+ */
+export class LLMHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, status: number, retryAfter?: string | null) {
+    super(message);
+    this.name = "LLMHttpError";
+    this.status = status;
+    this.retryAfterMs = parseRetryAfter(retryAfter);
+  }
+}
+
+/**
+ * Thrown when a provider call exceeds the configured timeout
+ */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number, options?: ErrorOptions) {
+    super(`LLM request timed out after ${timeoutMs}ms`, options);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if absent or unparseable
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Walk an error and its causes
+ */
+function* errorChain(error: unknown): Generator<Record<string, unknown>> {
+  let current = error;
+  for (
+    let depth = 0;
+    current && typeof current === "object" && depth < 5;
+    depth++
+  ) {
+    yield current as Record<string, unknown>;
+    current = (current as { cause?: unknown }).cause;
+  }
+}
+
+/**
+ * Classify a provider error into a failover category.
+ * Works with the OpenAI, Anthropic and Gemini SDK errors (which expose an
+ * HTTP `status`), LLMHttpError, fetch timeouts and JSON parse failures.
+ *
+ * @returns The category, or null if the error is not a provider failure
+ *   (e.g. a 400 for a bad request, or output schema violations)
+ */
+export function classifyProviderError(error: unknown): FailoverTrigger | null {
+  for (const err of errorChain(error)) {
+    if (err instanceof SyntaxError) {
+      return "invalid_json";
+    }
+
+    // The OpenAI and Anthropic SDKs don't set name on their error classes
+    if (
+      err instanceof LLMTimeoutError ||
+      err.name === "TimeoutError" ||
+      err.constructor?.name === "APIConnectionTimeoutError"
+    ) {
+      return "timeout";
+    }
+
+    const status = typeof err.status === "number" ? err.status : undefined;
+    if (status === 408) return "timeout";
+    if (status === 429) return "rate_limit";
+    if (status !== undefined && status >= 500) return "server_error";
+  }
+
+  return null;
+}
+
+/**
+ * Classify a provider error for retrying on the same key
+ * @returns The reason, or null if the error should not be retried
+ */
+export function classifyRetryableError(error: unknown): RetryReason | null {
+  const category = classifyProviderError(error);
+  if (
+    category === "timeout" ||
+    category === "rate_limit" ||
+    category === "server_error"
+  ) {
+    return category;
+  }
+
+  for (const err of errorChain(error)) {
+    if (
+      err.constructor?.name === "APIConnectionError" ||
+      (typeof err.code === "string" && NETWORK_ERROR_CODES.has(err.code)) ||
+      (err instanceof TypeError && err.message === "fetch failed")
+    ) {
+      return "network";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the server's Retry-After hint from a provider error.
+ * SDK errors expose the response headers as a plain object.
+ * @returns Delay in milliseconds, or null if the server gave none
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  for (const err of errorChain(error)) {
+    if (err instanceof LLMHttpError) {
+      return err.retryAfterMs;
+    }
+
+    const headers = err.headers as
+      | Record<string, string | null | undefined>
+      | undefined;
+    if (headers && typeof headers === "object") {
+      const retryAfterMs = Number(headers["retry-after-ms"] || NaN);
+      if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+        return retryAfterMs;
+      }
+      const retryAfter = parseRetryAfter(headers["retry-after"]);
+      if (retryAfter !== null) {
+        return retryAfter;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,76 @@
+import { classifyProviderError, type FailoverTrigger } from "./errors";
+import type { ILLMProvider, LLMProviderType } from "./types";
+
+/**
+ * A provider in an endpoint's fallback chain
+ */
+export interface FallbackCandidate {
+  llmKeyId: string;
+  provider: ILLMProvider;
+}
+
+/**
+ * A candidate that failed and was skipped
+ */
+export interface FailoverRecord {
+  llm_key_id: string;
+  provider: LLMProviderType;
+  reason: FailoverTrigger;
+  error: string;
+}
+
+/**
+ * Result of running an attempt against a fallback chain
+ */
+export interface FallbackResult<T> {
+  result: T;
+  /** The candidate that served the request */
+  served: FallbackCandidate;
+  /** Candidates that failed before it, in order */
+  failovers: FailoverRecord[];
+}
+
+/**
+ * Run an attempt against each candidate in order until one succeeds.
+ * Moves on to the next candidate only when the error is classified as one
+ * of the fallbackOn triggers; any other error is thrown straight away, as is
+ * the last candidate's error.
+ *
+ * @param candidates - Primary provider first, then fallbacks
+ * @param fallbackOn - Error categories that trigger failover
+ * @param attempt - Runs the request against one provider
+ * @param canFailover - Checked after a failure; return false once the
+ *   failure can no longer be hidden from the client (e.g. partial output
+ *   has already been streamed)
+ */
+export async function generateWithFallback<T>(
+  candidates: FallbackCandidate[],
+  fallbackOn: readonly FailoverTrigger[],
+  attempt: (provider: ILLMProvider) => Promise<T>,
+  canFailover: () => boolean = () => true
+): Promise<FallbackResult<T>> {
+  const failovers: FailoverRecord[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    const candidate = candidates[i]!;
+    try {
+      const result = await attempt(candidate.provider);
+      return { result, served: candidate, failovers };
+    } catch (error) {
+      const reason = classifyProviderError(error);
+      const isLast = i === candidates.length - 1;
+      if (isLast || !reason || !fallbackOn.includes(reason) || !canFailover()) {
+        throw error;
+      }
+
+      failovers.push({
+        llm_key_id: candidate.llmKeyId,
+        provider: candidate.provider.providerName,
+        reason,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw new Error("No LLM providers configured");
+}
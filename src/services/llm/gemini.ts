@@ -1,6 +1,9 @@
 import {
   GoogleGenerativeAI,
+  type Content,
   type GenerationConfig,
+  type GenerateContentRequest,
+  type GenerativeModel,
 } from "@google/generative-ai";
 import type {
   ILLMProvider,
@@ -8,6 +11,7 @@ import type {
   LLMResponse,
   ProviderConfig,
 } from "./types";
+import { buildConversation } from "./conversation";
 
 const DEFAULT_MODEL = "gemini-1.5-flash";
 
@@ -24,28 +28,46 @@ export class GeminiProvider implements ILLMProvider {
     this.defaultModel = config.model ?? DEFAULT_MODEL;
   }
 
-  async generate(request: LLMRequest): Promise<LLMResponse> {
-    const modelName = request.model ?? this.defaultModel;
-    const startTime = Date.now();
-
-    // Create model with system instruction
+  /**
+   * Create the model (with system instruction) and the content request
+   * configured for JSON output with schema
+   */
+  private prepare(request: LLMRequest): {
+    model: GenerativeModel;
+    contentRequest: GenerateContentRequest;
+  } {
     const model = this.genAI.getGenerativeModel({
-      model: modelName,
+      model: request.model ?? this.defaultModel,
       systemInstruction: request.systemPrompt,
     });
 
-    // Configure for JSON output with schema
     const generationConfig: GenerationConfig = {
       responseMimeType: "application/json",
       responseSchema: this.convertToGeminiSchema(request.outputSchema),
       temperature: request.temperature ?? 0,
+      topP: request.topP,
       maxOutputTokens: request.maxTokens,
+      stopSequences: request.stopSequences,
     };
 
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: request.prompt }] }],
-      generationConfig,
-    });
+    return {
+      model,
+      contentRequest: {
+        contents: this.buildContents(request),
+        generationConfig,
+      },
+    };
+  }
+
+  async generate(
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const modelName = request.model ?? this.defaultModel;
+    const startTime = Date.now();
+
+    const { model, contentRequest } = this.prepare(request);
+    const result = await model.generateContent(contentRequest, { signal });
 
     const latencyMs = Date.now() - startTime;
 
@@ -70,6 +92,61 @@ export class GeminiProvider implements ILLMProvider {
     };
   }
 
+  async stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const modelName = request.model ?? this.defaultModel;
+    const startTime = Date.now();
+
+    const { model, contentRequest } = this.prepare(request);
+    const result = await model.generateContentStream(contentRequest, {
+      signal,
+    });
+
+    let rawResponse = "";
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        rawResponse += delta;
+        onDelta(delta);
+      }
+    }
+
+    // The aggregated response carries the final usage metadata
+    const usageMetadata = (await result.response).usageMetadata;
+
+    return {
+      content: JSON.parse(rawResponse),
+      rawResponse,
+      usage: {
+        promptTokens: usageMetadata?.promptTokenCount ?? 0,
+        completionTokens: usageMetadata?.candidatesTokenCount ?? 0,
+        totalTokens: usageMetadata?.totalTokenCount ?? 0,
+      },
+      model: modelName,
+      provider: this.providerName,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Build the conversation contents (Gemini calls the assistant "model"),
+   * with attachments as inline data parts
+   */
+  private buildContents(request: LLMRequest): Content[] {
+    return buildConversation(request).map(turn => ({
+      role: turn.role === "assistant" ? "model" : "user",
+      parts: [
+        { text: turn.content },
+        ...(turn.attachments ?? []).map(attachment => ({
+          inlineData: { mimeType: attachment.mediaType, data: attachment.data },
+        })),
+      ],
+    }));
+  }
+
   /**
    * Convert standard JSON Schema to Gemini's schema format
    */
@@ -93,7 +170,7 @@ export class GeminiProvider implements ILLMProvider {
 
     return {
       model: modelName,
-      contents: [{ parts: [{ text: request.prompt }] }],
+      contents: this.buildContents(request),
       systemInstruction: request.systemPrompt
         ? { parts: [{ text: request.systemPrompt }] }
         : undefined,
@@ -101,7 +178,9 @@ export class GeminiProvider implements ILLMProvider {
         responseMimeType: "application/json",
         responseSchema: this.convertToGeminiSchema(request.outputSchema),
         temperature: request.temperature ?? 0,
+        topP: request.topP,
         maxOutputTokens: request.maxTokens,
+        stopSequences: request.stopSequences,
       },
     };
   }
@@ -0,0 +1,74 @@
+import type { LLMProviderType } from "./types";
+
+/**
+ * Per-endpoint generation parameters
+ */
+export interface GenerationConfig {
+  model?: string | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  max_tokens?: number | null;
+  stop_sequences?: string[] | null;
+  seed?: number | null;
+}
+
+/**
+ * What each provider accepts for the generation parameters
+ */
+interface ProviderLimits {
+  maxTemperature: number;
+  maxStopSequences: number | null;
+  supportsSeed: boolean;
+}
+
+const PROVIDER_LIMITS: Record<LLMProviderType, ProviderLimits> = {
+  openai: { maxTemperature: 2, maxStopSequences: 4, supportsSeed: true },
+  anthropic: { maxTemperature: 1, maxStopSequences: null, supportsSeed: false },
+  gemini: { maxTemperature: 2, maxStopSequences: 5, supportsSeed: false },
+  llm_server: { maxTemperature: 2, maxStopSequences: null, supportsSeed: true },
+  azure_openai: { maxTemperature: 2, maxStopSequences: 4, supportsSeed: true },
+  bedrock: { maxTemperature: 1, maxStopSequences: 4, supportsSeed: false },
+  ollama: { maxTemperature: 2, maxStopSequences: null, supportsSeed: true },
+};
+
+/**
+ * Validate generation parameters against what the provider supports
+ * @returns A list of error messages (empty if the config is valid)
+ */
+export function validateGenerationConfig(
+  provider: LLMProviderType,
+  config: GenerationConfig
+): string[] {
+  const limits = PROVIDER_LIMITS[provider];
+  const errors: string[] = [];
+
+  if (
+    config.temperature !== undefined &&
+    config.temperature !== null &&
+    config.temperature > limits.maxTemperature
+  ) {
+    errors.push(
+      `temperature must be between 0 and ${limits.maxTemperature} for ${provider}`
+    );
+  }
+
+  if (
+    config.stop_sequences &&
+    limits.maxStopSequences !== null &&
+    config.stop_sequences.length > limits.maxStopSequences
+  ) {
+    errors.push(
+      `${provider} supports at most ${limits.maxStopSequences} stop sequences`
+    );
+  }
+
+  if (
+    config.seed !== undefined &&
+    config.seed !== null &&
+    !limits.supportsSeed
+  ) {
+    errors.push(`seed is not supported by ${provider}`);
+  }
+
+  return errors;
+}
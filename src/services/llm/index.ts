@@ -1,23 +1,71 @@
-import type { LlmProvider } from "@sudobility/shapeshyft_types";
-import type { ILLMProvider, ProviderConfig } from "./types";
+import type { ILLMProvider, LLMProviderType, ProviderConfig } from "./types";
 import { OpenAIProvider } from "./openai";
 import { AnthropicProvider } from "./anthropic";
 import { GeminiProvider } from "./gemini";
 import { CustomLLMProvider } from "./custom";
+import { AzureOpenAIProvider } from "./azure-openai";
+import { BedrockProvider } from "./bedrock";
+import { OllamaProvider } from "./ollama";
 
 export type {
   ILLMProvider,
+  LLMAttachment,
+  LLMExample,
+  LLMProviderType,
   LLMRequest,
   LLMResponse,
   ProviderConfig,
+  ResponseMapping,
 } from "./types";
 export { estimateCost } from "./types";
+export {
+  serializeBedrockCredentials,
+  type BedrockCredentials,
+} from "./bedrock";
+export { listOllamaModels, type OllamaModel } from "./ollama";
+export {
+  buildConversation,
+  toOpenAIContent,
+  type ChatTurn,
+} from "./conversation";
+export {
+  validateGenerationConfig,
+  type GenerationConfig,
+} from "./generation-config";
+export {
+  generateWithRepair,
+  getBilledUsage,
+  OutputValidationError,
+  RepairAttemptError,
+  type ValidatedGeneration,
+} from "./repair";
+export {
+  classifyProviderError,
+  classifyRetryableError,
+  LLMHttpError,
+  LLMTimeoutError,
+  FAILOVER_TRIGGERS,
+  type FailoverTrigger,
+  type RetryReason,
+} from "./errors";
+export {
+  RetryingLLMProvider,
+  DEFAULT_RETRY_POLICY,
+  computeBackoffDelay,
+  type RetryPolicy,
+} from "./retry";
+export {
+  generateWithFallback,
+  type FallbackCandidate,
+  type FailoverRecord,
+  type FallbackResult,
+} from "./fallback";
 
 /**
  * Create an LLM provider instance based on provider type
  */
 export function createLLMProvider(
-  providerType: LlmProvider,
+  providerType: LLMProviderType,
   config: ProviderConfig
 ): ILLMProvider {
   switch (providerType) {
@@ -29,6 +77,12 @@ export function createLLMProvider(
       return new GeminiProvider(config);
     case "llm_server":
       return new CustomLLMProvider(config);
+    case "azure_openai":
+      return new AzureOpenAIProvider(config);
+    case "bedrock":
+      return new BedrockProvider(config);
+    case "ollama":
+      return new OllamaProvider(config);
     default:
       throw new Error(`Unknown provider type: ${providerType}`);
   }
@@ -37,10 +91,15 @@ export function createLLMProvider(
 /**
  * Provider endpoint hints for Type 3/4 endpoints
  */
-export const PROVIDER_ENDPOINTS: Record<LlmProvider, string> = {
+export const PROVIDER_ENDPOINTS: Record<LLMProviderType, string> = {
   openai: "https://api.openai.com/v1/chat/completions",
   anthropic: "https://api.anthropic.com/v1/messages",
   gemini:
     "https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent",
   llm_server: "{custom_endpoint}",
+  azure_openai:
+    "https://{resource}.openai.azure.com/openai/deployments/{deployment}/chat/completions?api-version={api_version}",
+  bedrock:
+    "https://bedrock-runtime.{region}.amazonaws.com/model/{model}/converse",
+  ollama: "http://localhost:11434/api/chat",
 };
@@ -0,0 +1,281 @@
+import type {
+  ILLMProvider,
+  LLMRequest,
+  LLMResponse,
+  ProviderConfig,
+} from "./types";
+import { LLMHttpError } from "./errors";
+import { buildConversation } from "./conversation";
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+const DEFAULT_MODEL = "llama3.1";
+
+/**
+ * A model pulled onto an Ollama server
+ */
+export interface OllamaModel {
+  name: string;
+  /** Size on disk in bytes */
+  size: number;
+  modified_at: string;
+  family: string | null;
+  parameter_size: string | null;
+  quantization_level: string | null;
+}
+
+/**
+ * Final (or only) chunk of an /api/chat response
+ */
+interface OllamaChatChunk {
+  model?: string;
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Server root from a key's endpoint URL, which may include the /api prefix
+ */
+function resolveBaseUrl(endpointUrl: string | undefined): string {
+  return (endpointUrl ?? DEFAULT_BASE_URL)
+    .replace(/\/+$/, "")
+    .replace(/\/api$/, "");
+}
+
+function buildHeaders(apiKey: string | undefined): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+  };
+}
+
+/**
+ * Fetch from an Ollama server, converting connection and HTTP errors
+ */
+async function ollamaFetch(
+  url: string,
+  init: RequestInit & { headers: Record<string, string> }
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (fetchError) {
+    const errorMsg =
+      fetchError instanceof Error ? fetchError.message : String(fetchError);
+    throw new Error(`Failed to connect to Ollama at ${url}: ${errorMsg}`, {
+      cause: fetchError,
+    });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new LLMHttpError(
+      `Ollama error (${response.status}): ${errorText}`,
+      response.status,
+      response.headers.get("retry-after")
+    );
+  }
+
+  return response;
+}
+
+/**
+ * List the models pulled onto an Ollama server
+ * @param config - The key's endpoint URL and, for servers behind an
+ * authenticating proxy, API key
+ */
+export async function listOllamaModels(
+  config: Pick<ProviderConfig, "apiKey" | "endpointUrl">,
+  signal?: AbortSignal
+): Promise<OllamaModel[]> {
+  const response = await ollamaFetch(
+    `${resolveBaseUrl(config.endpointUrl)}/api/tags`,
+    { method: "GET", headers: buildHeaders(config.apiKey), signal }
+  );
+
+  const result = (await response.json()) as {
+    models?: {
+      name: string;
+      size?: number;
+      modified_at?: string;
+      details?: {
+        family?: string;
+        parameter_size?: string;
+        quantization_level?: string;
+      };
+    }[];
+  };
+
+  return (result.models ?? []).map(model => ({
+    name: model.name,
+    size: model.size ?? 0,
+    modified_at: model.modified_at ?? "",
+    family: model.details?.family ?? null,
+    parameter_size: model.details?.parameter_size ?? null,
+    quantization_level: model.details?.quantization_level ?? null,
+  }));
+}
+
+/**
+ * Ollama through its native /api/chat, with structured output enforced by
+ * passing the output schema as the format. endpointUrl is the server root
+ * (http://localhost:11434 by default).
+ */
+export class OllamaProvider implements ILLMProvider {
+  readonly providerName = "ollama" as const;
+  private apiKey: string | undefined;
+  private baseUrl: string;
+  private defaultModel: string;
+
+  constructor(config: ProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = resolveBaseUrl(config.endpointUrl);
+    this.defaultModel = config.model ?? DEFAULT_MODEL;
+  }
+
+  /**
+   * Get the chat URL of the server
+   */
+  getEndpointUrl(): string {
+    return `${this.baseUrl}/api/chat`;
+  }
+
+  buildApiPayload(request: LLMRequest): Record<string, unknown> {
+    const messages: Record<string, unknown>[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+    for (const turn of buildConversation(request)) {
+      const attachments = turn.attachments ?? [];
+      if (attachments.some(a => !a.mediaType.startsWith("image/"))) {
+        throw new Error("Ollama accepts image attachments only");
+      }
+      messages.push({
+        role: turn.role,
+        content: turn.content,
+        ...(attachments.length > 0 && {
+          images: attachments.map(attachment => attachment.data),
+        }),
+      });
+    }
+
+    const options = {
+      temperature: request.temperature ?? 0,
+      top_p: request.topP,
+      num_predict: request.maxTokens,
+      stop: request.stopSequences,
+      seed: request.seed,
+    };
+
+    return {
+      model: request.model ?? this.defaultModel,
+      messages,
+      format: request.outputSchema,
+      options: Object.fromEntries(
+        Object.entries(options).filter(([, value]) => value !== undefined)
+      ),
+    };
+  }
+
+  private post(
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return ollamaFetch(this.getEndpointUrl(), {
+      method: "POST",
+      headers: buildHeaders(this.apiKey),
+      body: JSON.stringify(payload),
+      signal,
+    });
+  }
+
+  private toResponse(
+    rawResponse: string,
+    chunk: OllamaChatChunk,
+    request: LLMRequest,
+    startTime: number
+  ): LLMResponse {
+    const promptTokens = chunk.prompt_eval_count ?? 0;
+    const completionTokens = chunk.eval_count ?? 0;
+
+    return {
+      content: JSON.parse(rawResponse),
+      rawResponse,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      model: chunk.model ?? request.model ?? this.defaultModel,
+      provider: this.providerName,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  async generate(
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const response = await this.post(
+      { ...this.buildApiPayload(request), stream: false },
+      signal
+    );
+
+    const result = (await response.json()) as OllamaChatChunk;
+    const rawResponse = result.message?.content;
+    if (typeof rawResponse !== "string") {
+      throw new Error("Expected message content from Ollama");
+    }
+
+    return this.toResponse(rawResponse, result, request, startTime);
+  }
+
+  /**
+   * Ollama streams newline-delimited JSON chunks; the last one, marked done,
+   * carries the token counts
+   */
+  async stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const response = await this.post(
+      { ...this.buildApiPayload(request), stream: true },
+      signal
+    );
+    if (!response.body) {
+      throw new Error("Ollama returned an empty stream");
+    }
+
+    let rawResponse = "";
+    let finalChunk: OllamaChatChunk = {};
+    let buffer = "";
+    const decoder = new TextDecoder();
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const chunk = JSON.parse(line) as OllamaChatChunk;
+      const delta = chunk.message?.content;
+      if (delta) {
+        rawResponse += delta;
+        onDelta(delta);
+      }
+      if (chunk.done) {
+        finalChunk = chunk;
+      }
+    };
+
+    for await (const bytes of response.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    return this.toResponse(rawResponse, finalChunk, request, startTime);
+  }
+}
@@ -1,38 +1,65 @@
 import OpenAI from "openai";
 import type {
   ILLMProvider,
+  LLMProviderType,
   LLMRequest,
   LLMResponse,
   ProviderConfig,
 } from "./types";
+import { buildConversation, toOpenAIContent } from "./conversation";
 
 const DEFAULT_MODEL = "gpt-4o-mini";
 
 export class OpenAIProvider implements ILLMProvider {
-  readonly providerName = "openai" as const;
+  readonly providerName: LLMProviderType = "openai";
   private client: OpenAI;
   private defaultModel: string;
 
   constructor(config: ProviderConfig) {
+    this.client = this.createClient(config);
+    this.defaultModel = config.model ?? DEFAULT_MODEL;
+  }
+
+  /**
+   * Create the API client. Subclasses override this for OpenAI-compatible
+   * services that use the same request format.
+   */
+  protected createClient(config: ProviderConfig): OpenAI {
     if (!config.apiKey) {
       throw new Error("OpenAI API key is required");
     }
-    this.client = new OpenAI({ apiKey: config.apiKey });
-    this.defaultModel = config.model ?? DEFAULT_MODEL;
+    // Retries are handled by RetryingLLMProvider
+    return new OpenAI({ apiKey: config.apiKey, maxRetries: 0 });
   }
 
-  async generate(request: LLMRequest): Promise<LLMResponse> {
-    const model = request.model ?? this.defaultModel;
-    const startTime = Date.now();
-
-    // Build messages
+  /**
+   * Build the chat messages, with attachments as image and file parts
+   */
+  private buildMessages(
+    request: LLMRequest
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
     const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
     if (request.systemPrompt) {
       messages.push({ role: "system", content: request.systemPrompt });
     }
-    messages.push({ role: "user", content: request.prompt });
+    for (const turn of buildConversation(request)) {
+      messages.push(
+        turn.role === "user"
+          ? { role: "user", content: toOpenAIContent(turn) }
+          : { role: "assistant", content: turn.content }
+      );
+    }
+    return messages;
+  }
+
+  /**
+   * Build chat completion params using function calling for structured output
+   */
+  private buildParams(
+    request: LLMRequest
+  ): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    const messages = this.buildMessages(request);
 
-    // Use function calling for structured output
     const tools: OpenAI.Chat.ChatCompletionTool[] = [
       {
         type: "function",
@@ -44,8 +71,8 @@ export class OpenAIProvider implements ILLMProvider {
       },
     ];
 
-    const response = await this.client.chat.completions.create({
-      model,
+    return {
+      model: request.model ?? this.defaultModel,
       messages,
       tools,
       tool_choice: {
@@ -53,8 +80,23 @@ export class OpenAIProvider implements ILLMProvider {
         function: { name: "structured_response" },
       },
       temperature: request.temperature ?? 0,
+      top_p: request.topP,
       max_tokens: request.maxTokens,
-    });
+      stop: request.stopSequences,
+      seed: request.seed,
+    };
+  }
+
+  async generate(
+    request: LLMRequest,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    const response = await this.client.chat.completions.create(
+      this.buildParams(request),
+      { signal }
+    );
 
     const latencyMs = Date.now() - startTime;
 
@@ -81,18 +123,63 @@ export class OpenAIProvider implements ILLMProvider {
     };
   }
 
-  buildApiPayload(request: LLMRequest): Record<string, unknown> {
-    const model = request.model ?? this.defaultModel;
+  async stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
 
-    const messages: { role: string; content: string }[] = [];
-    if (request.systemPrompt) {
-      messages.push({ role: "system", content: request.systemPrompt });
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal }
+    );
+
+    let rawResponse = "";
+    let model = request.model ?? this.defaultModel;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      const delta =
+        chunk.choices[0]?.delta.tool_calls?.[0]?.function?.arguments;
+      if (delta) {
+        rawResponse += delta;
+        onDelta(delta);
+      }
+    }
+
+    if (!rawResponse) {
+      throw new Error("Expected function call response from OpenAI");
     }
-    messages.push({ role: "user", content: request.prompt });
 
     return {
+      content: JSON.parse(rawResponse),
+      rawResponse,
+      usage: {
+        promptTokens: usage?.prompt_tokens ?? 0,
+        completionTokens: usage?.completion_tokens ?? 0,
+        totalTokens: usage?.total_tokens ?? 0,
+      },
       model,
-      messages,
+      provider: this.providerName,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  buildApiPayload(request: LLMRequest): Record<string, unknown> {
+    const model = request.model ?? this.defaultModel;
+
+    return {
+      model,
+      messages: this.buildMessages(request),
       tools: [
         {
           type: "function",
@@ -108,7 +195,10 @@ export class OpenAIProvider implements ILLMProvider {
         function: { name: "structured_response" },
       },
       temperature: request.temperature ?? 0,
+      top_p: request.topP,
       max_tokens: request.maxTokens,
+      stop: request.stopSequences,
+      seed: request.seed,
     };
   }
 }
@@ -0,0 +1,159 @@
+import {
+  validateJsonSchema,
+  type SchemaViolation,
+} from "../../lib/schema-validator";
+import { buildRepairPrompt } from "../../lib/prompt-builder";
+import type { ILLMProvider, LLMRequest, LLMResponse } from "./types";
+
+/**
+ * Thrown when the LLM output still fails output_schema validation after all
+ * repair attempts have been used. The usage covers every attempt, since all
+ * of them were billed.
+ */
+export class OutputValidationError extends Error {
+  readonly violations: SchemaViolation[];
+  readonly rawResponse: string;
+  readonly repairAttempts: number;
+  readonly model: string;
+  readonly usage: LLMResponse["usage"];
+
+  constructor(
+    violations: SchemaViolation[],
+    rawResponse: string,
+    repairAttempts: number,
+    model: string,
+    usage: LLMResponse["usage"]
+  ) {
+    super(
+      `Output does not match output_schema after ${repairAttempts} repair attempt(s)`
+    );
+    this.name = "OutputValidationError";
+    this.violations = violations;
+    this.rawResponse = rawResponse;
+    this.repairAttempts = repairAttempts;
+    this.model = model;
+    this.usage = usage;
+  }
+}
+
+/**
+ * Thrown when a repair attempt fails (e.g. a timeout or provider error).
+ * Wraps the provider error as the cause, so it is classified the same way,
+ * and carries the usage of the earlier attempts, which were billed.
+ */
+export class RepairAttemptError extends Error {
+  readonly repairAttempts: number;
+  readonly model: string;
+  readonly usage: LLMResponse["usage"];
+
+  constructor(
+    cause: unknown,
+    repairAttempts: number,
+    model: string,
+    usage: LLMResponse["usage"]
+  ) {
+    super(cause instanceof Error ? cause.message : "Repair attempt failed", {
+      cause,
+    });
+    this.name = "RepairAttemptError";
+    this.repairAttempts = repairAttempts;
+    this.model = model;
+    this.usage = usage;
+  }
+}
+
+/**
+ * Usage billed before a repair loop failed
+ * @returns The model and usage, or null if the error carries none
+ */
+export function getBilledUsage(
+  error: unknown
+): { model: string; usage: LLMResponse["usage"] } | null {
+  if (
+    error instanceof OutputValidationError ||
+    error instanceof RepairAttemptError
+  ) {
+    return { model: error.model, usage: error.usage };
+  }
+  return null;
+}
+
+/**
+ * Result of a generation with output validation
+ */
+export interface ValidatedGeneration {
+  /** The final, valid response. Usage and latency cover every attempt. */
+  response: LLMResponse;
+  repairAttempts: number;
+}
+
+/**
+ * Generate a response and validate it against the request's output schema.
+ * When validation fails, the model is re-prompted with its previous response
+ * and the list of violations, up to maxRepairAttempts times.
+ *
+ * @param provider - The LLM provider to call
+ * @param request - The original LLM request
+ * @param maxRepairAttempts - Maximum number of re-prompts (0 disables repair)
+ * @param firstAttempt - Produces the first response (e.g. a streamed one).
+ *   Repair attempts always use provider.generate.
+ * @throws OutputValidationError if the output is still invalid afterwards
+ * @throws RepairAttemptError if a repair attempt fails
+ */
+export async function generateWithRepair(
+  provider: ILLMProvider,
+  request: LLMRequest,
+  maxRepairAttempts: number,
+  firstAttempt: () => Promise<LLMResponse> = () => provider.generate(request)
+): Promise<ValidatedGeneration> {
+  let response = await firstAttempt();
+  const usage = { ...response.usage };
+  let latencyMs = response.latencyMs;
+  let repairAttempts = 0;
+
+  let violations = validateJsonSchema(request.outputSchema, response.content);
+
+  while (violations.length > 0 && repairAttempts < maxRepairAttempts) {
+    repairAttempts++;
+
+    try {
+      response = await provider.generate({
+        ...request,
+        prompt: buildRepairPrompt(
+          request.prompt,
+          response.rawResponse,
+          violations
+        ),
+      });
+    } catch (error) {
+      throw new RepairAttemptError(
+        error,
+        repairAttempts,
+        response.model,
+        usage
+      );
+    }
+
+    usage.promptTokens += response.usage.promptTokens;
+    usage.completionTokens += response.usage.completionTokens;
+    usage.totalTokens += response.usage.totalTokens;
+    latencyMs += response.latencyMs;
+
+    violations = validateJsonSchema(request.outputSchema, response.content);
+  }
+
+  if (violations.length > 0) {
+    throw new OutputValidationError(
+      violations,
+      response.rawResponse,
+      repairAttempts,
+      response.model,
+      usage
+    );
+  }
+
+  return {
+    response: { ...response, usage, latencyMs },
+    repairAttempts,
+  };
+}
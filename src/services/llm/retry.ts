@@ -0,0 +1,167 @@
+import {
+  classifyRetryableError,
+  getRetryAfterMs,
+  LLMTimeoutError,
+} from "./errors";
+import type { ILLMProvider, LLMRequest, LLMResponse } from "./types";
+
+/**
+ * Retry and timeout policy for provider calls
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Timeout for each attempt */
+  timeoutMs: number;
+  /** Delay before the first retry; doubles on each subsequent retry */
+  baseDelayMs: number;
+  /** Upper bound for the exponential delay */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  timeoutMs: 120_000,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/**
+ * Longest Retry-After we are willing to wait. Beyond this the error is
+ * returned so a fallback key can take over instead.
+ */
+const MAX_RETRY_AFTER_MS = 30_000;
+
+/**
+ * Compute the delay before a retry: exponential backoff with equal jitter,
+ * but never shorter than the server's Retry-After hint
+ *
+ * @param retry - Zero-based retry number
+ * @returns Delay in milliseconds, or null if the Retry-After is too long
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: RetryPolicy,
+  retryAfterMs: number | null
+): number | null {
+  if (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS) {
+    return null;
+  }
+
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** retry
+  );
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/**
+ * Provider wrapper that applies a timeout to every attempt and retries
+ * transient failures (rate limits, 5xx, timeouts, network errors).
+ * Streams are only retried if no partial output was emitted.
+ */
+export class RetryingLLMProvider implements ILLMProvider {
+  readonly providerName: ILLMProvider["providerName"];
+  private retryCount = 0;
+
+  constructor(
+    private readonly inner: ILLMProvider,
+    private readonly policy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {
+    this.providerName = inner.providerName;
+  }
+
+  /**
+   * Number of retries performed across all calls on this instance
+   */
+  get retries(): number {
+    return this.retryCount;
+  }
+
+  /**
+   * The wrapped provider
+   */
+  unwrap(): ILLMProvider {
+    return this.inner;
+  }
+
+  generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    return this.withRetry(
+      attemptSignal => this.inner.generate(request, attemptSignal),
+      signal
+    );
+  }
+
+  stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    let deltaSent = false;
+    return this.withRetry(
+      attemptSignal =>
+        this.inner.stream(
+          request,
+          delta => {
+            deltaSent = true;
+            onDelta(delta);
+          },
+          attemptSignal
+        ),
+      signal,
+      () => !deltaSent
+    );
+  }
+
+  buildApiPayload(request: LLMRequest): Record<string, unknown> {
+    return this.inner.buildApiPayload(request);
+  }
+
+  private async withRetry<T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      const timeout = new AbortController();
+      const timer = setTimeout(() => timeout.abort(), this.policy.timeoutMs);
+      const attemptSignal = signal
+        ? AbortSignal.any([signal, timeout.signal])
+        : timeout.signal;
+
+      try {
+        return await attempt(attemptSignal);
+      } catch (error) {
+        const failure =
+          timeout.signal.aborted && !signal?.aborted
+            ? new LLMTimeoutError(this.policy.timeoutMs, { cause: error })
+            : error;
+
+        if (
+          retry >= this.policy.maxRetries ||
+          signal?.aborted ||
+          !canRetry() ||
+          !classifyRetryableError(failure)
+        ) {
+          throw failure;
+        }
+
+        const delay = computeBackoffDelay(
+          retry,
+          this.policy,
+          getRetryAfterMs(failure)
+        );
+        if (delay === null) {
+          throw failure;
+        }
+
+        this.retryCount++;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
@@ -1,15 +1,51 @@
 import type { JsonSchema, LlmProvider } from "@sudobility/shapeshyft_types";
 
+/**
+ * Provider types this API supports: the shared LlmProvider plus providers
+ * not yet in @sudobility/shapeshyft_types
+ */
+export type LLMProviderType =
+  | LlmProvider
+  | "azure_openai"
+  | "bedrock"
+  | "ollama";
+
+/**
+ * A worked example sent ahead of the prompt as a user/assistant turn pair
+ */
+export interface LLMExample {
+  /** User prompt built from the example input */
+  prompt: string;
+  /** The example output, as JSON */
+  response: string;
+}
+
+/**
+ * A file sent alongside the prompt as an image or document content part
+ */
+export interface LLMAttachment {
+  /** Detected from the file contents, e.g. "image/png" or "application/pdf" */
+  mediaType: string;
+  /** Base64 data, without a data URL prefix */
+  data: string;
+}
+
 /**
  * Request to an LLM provider
  */
 export interface LLMRequest {
   prompt: string;
   systemPrompt?: string;
+  examples?: LLMExample[];
+  /** Files for the prompt; examples are text only */
+  attachments?: LLMAttachment[];
   outputSchema: JsonSchema;
   model?: string;
   temperature?: number;
+  topP?: number;
   maxTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
 }
 
 /**
@@ -24,29 +60,64 @@ export interface LLMResponse {
     totalTokens: number;
   };
   model: string;
-  provider: LlmProvider;
+  provider: LLMProviderType;
   latencyMs: number;
 }
 
+/**
+ * Where a custom LLM server's response holds the content and token usage,
+ * as JSONPath-style paths (e.g. "$.outputs[0].text")
+ */
+export interface ResponseMapping {
+  /** The output: a JSON string (possibly with surrounding text) or the
+   * output value itself */
+  content: string;
+  prompt_tokens?: string;
+  completion_tokens?: string;
+  /** Defaults to prompt plus completion tokens */
+  total_tokens?: string;
+}
+
 /**
  * Provider configuration
  */
 export interface ProviderConfig {
+  /** For bedrock, the credentials from serializeBedrockCredentials */
   apiKey?: string;
   endpointUrl?: string;
   model?: string;
+  /** Azure OpenAI deployment name */
+  deploymentName?: string;
+  /** Azure OpenAI API version */
+  apiVersion?: string;
+  /** llm_server: extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** llm_server: request body template (see lib/request-template) */
+  requestTemplate?: Record<string, unknown>;
+  /** llm_server: where to read content and usage from the response */
+  responseMapping?: ResponseMapping;
 }
 
 /**
  * LLM Provider interface
  */
 export interface ILLMProvider {
-  readonly providerName: LlmProvider;
+  readonly providerName: LLMProviderType;
 
   /**
    * Generate a structured response from the LLM
    */
-  generate(request: LLMRequest): Promise<LLMResponse>;
+  generate(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+
+  /**
+   * Generate a structured response, reporting partial JSON text as it
+   * arrives. Resolves with the complete parsed response once the stream ends.
+   */
+  stream(
+    request: LLMRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
 
   /**
    * Build the API payload without calling the LLM
@@ -78,6 +149,10 @@ export const COST_PER_MILLION_TOKENS: Record<
   "gemini-1.5-flash": { input: 7.5, output: 30 },
   "gemini-2.0-flash-exp": { input: 0, output: 0 }, // Free tier
 
+  // AWS Bedrock
+  "anthropic.claude-3-5-sonnet-20241022-v2:0": { input: 300, output: 1500 },
+  "meta.llama3-70b-instruct-v1:0": { input: 265, output: 350 },
+
   // Default for unknown models
   default: { input: 100, output: 300 },
 };
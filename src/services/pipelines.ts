@@ -0,0 +1,229 @@
+import { pipelines, type PipelineStep } from "../db";
+import { getAtPath, MISSING } from "../lib/object-path";
+import {
+  toErrorFields,
+  validateAndRunCall,
+  type EndpointCallTarget,
+} from "./endpoint-calls";
+import type { EndpointUsage } from "./endpoint-analytics";
+
+type Pipeline = typeof pipelines.$inferSelect;
+
+/**
+ * Outcome of one step. Steps whose dependencies did not succeed are skipped.
+ */
+export interface PipelineStepResult {
+  id: string;
+  endpoint_id: string;
+  status: "succeeded" | "failed" | "skipped";
+  output: unknown;
+  usage: EndpointUsage | null;
+  /** Error fields, as in the response of a failed endpoint call */
+  error: Record<string, unknown> | null;
+}
+
+/**
+ * Combined response of a pipeline run. output is the output of the last
+ * step in the definition.
+ */
+export interface PipelineResult {
+  success: boolean;
+  output: unknown;
+  steps: PipelineStepResult[];
+  usage: {
+    tokens_input: number;
+    tokens_output: number;
+    estimated_cost_cents: number;
+    /** Wall-clock time of the whole run */
+    latency_ms: number;
+  };
+}
+
+/**
+ * Ids of the steps a step's input mapping reads from
+ */
+export function getStepDependencies(step: PipelineStep): string[] {
+  const dependencies = new Set<string>();
+  for (const source of Object.values(step.input ?? {})) {
+    if (typeof source === "string" && source.startsWith("steps.")) {
+      dependencies.add(source.split(".")[1]!);
+    }
+  }
+  return [...dependencies];
+}
+
+/**
+ * Group steps into levels that only depend on earlier levels, so the steps
+ * of a level can run in parallel
+ * @returns The levels, or an error message if the steps do not form a DAG
+ */
+export function planPipeline(
+  steps: PipelineStep[]
+): { levels: PipelineStep[][] } | { error: string } {
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      return { error: `Duplicate step id "${step.id}"` };
+    }
+    ids.add(step.id);
+  }
+
+  for (const step of steps) {
+    const unknown = getStepDependencies(step).find(id => !ids.has(id));
+    if (unknown) {
+      return {
+        error: `Step "${step.id}" references unknown step "${unknown}"`,
+      };
+    }
+  }
+
+  const levels: PipelineStep[][] = [];
+  const planned = new Set<string>();
+  let remaining = steps;
+  while (remaining.length > 0) {
+    const ready = remaining.filter(step =>
+      getStepDependencies(step).every(id => planned.has(id))
+    );
+    if (ready.length === 0) {
+      return {
+        error: `Steps ${remaining.map(step => `"${step.id}"`).join(", ")} form a cycle`,
+      };
+    }
+    levels.push(ready);
+    ready.forEach(step => planned.add(step.id));
+    remaining = remaining.filter(step => !planned.has(step.id));
+  }
+
+  return { levels };
+}
+
+/**
+ * Check a pipeline definition: every step must use an endpoint of the
+ * project, and the mappings must form a DAG
+ * @returns An error message, or null if the definition is valid
+ */
+export function validatePipelineSteps(
+  steps: PipelineStep[],
+  projectEndpointIds: Set<string>
+): string | null {
+  for (const step of steps) {
+    if (!projectEndpointIds.has(step.endpoint_id)) {
+      return `Step "${step.id}": endpoint ${step.endpoint_id} not found in this project`;
+    }
+  }
+
+  const plan = planPipeline(steps);
+  return "error" in plan ? plan.error : null;
+}
+
+/**
+ * Build a step's input from the pipeline input and the outputs of earlier
+ * steps. Fields whose source path does not exist are left out.
+ */
+export function buildStepInput(
+  step: PipelineStep,
+  pipelineInput: unknown,
+  outputs: Record<string, unknown>
+): unknown {
+  if (!step.input) {
+    return pipelineInput;
+  }
+
+  const sources = { input: pipelineInput, steps: outputs };
+  const input: Record<string, unknown> = {};
+  for (const [field, source] of Object.entries(step.input)) {
+    const value =
+      typeof source === "string" ? getAtPath(sources, source) : source.const;
+    if (value !== MISSING) {
+      input[field] = value;
+    }
+  }
+  return input;
+}
+
+/**
+ * Run a pipeline level by level. Each step goes through the same pipeline
+ * as a single request to its endpoint and is logged as its own analytics
+ * row. A failed step does not stop independent steps; steps that depend on
+ * it are skipped.
+ *
+ * @param targets - The endpoint, keys and limits for each step, by step id
+ */
+export async function runPipeline(
+  pipeline: Pipeline,
+  targets: Record<string, EndpointCallTarget>,
+  pipelineInput: unknown
+): Promise<PipelineResult> {
+  const startTime = Date.now();
+  const plan = planPipeline(pipeline.steps);
+  if ("error" in plan) {
+    throw new Error(plan.error);
+  }
+
+  const outputs: Record<string, unknown> = {};
+  const results = new Map<string, PipelineStepResult>();
+
+  for (const level of plan.levels) {
+    const levelResults = await Promise.all(
+      level.map(async (step): Promise<PipelineStepResult> => {
+        const base = {
+          id: step.id,
+          endpoint_id: step.endpoint_id,
+          output: null,
+          usage: null,
+        };
+
+        const blockedBy = getStepDependencies(step).find(
+          id => results.get(id)?.status !== "succeeded"
+        );
+        if (blockedBy) {
+          return {
+            ...base,
+            status: "skipped",
+            error: { error: `Step "${blockedBy}" did not succeed` },
+          };
+        }
+
+        const call = await validateAndRunCall(
+          targets[step.id]!,
+          buildStepInput(step, pipelineInput, outputs)
+        );
+        if (!call.success) {
+          return { ...base, status: "failed", error: toErrorFields(call) };
+        }
+        return {
+          ...base,
+          status: "succeeded",
+          output: call.output,
+          usage: call.usage,
+          error: null,
+        };
+      })
+    );
+
+    for (const result of levelResults) {
+      results.set(result.id, result);
+      if (result.status === "succeeded") {
+        outputs[result.id] = result.output;
+      }
+    }
+  }
+
+  const steps = pipeline.steps.map(step => results.get(step.id)!);
+  const sum = (
+    field: "tokens_input" | "tokens_output" | "estimated_cost_cents"
+  ) => steps.reduce((total, step) => total + (step.usage?.[field] ?? 0), 0);
+  const lastStep = steps[steps.length - 1]!;
+
+  return {
+    success: steps.every(step => step.status === "succeeded"),
+    output: lastStep.output,
+    steps,
+    usage: {
+      tokens_input: sum("tokens_input"),
+      tokens_output: sum("tokens_output"),
+      estimated_cost_cents: sum("estimated_cost_cents"),
+      latency_ms: Date.now() - startTime,
+    },
+  };
+}
@@ -0,0 +1,346 @@
+import { and, eq, lt, sql } from "drizzle-orm";
+import {
+  db,
+  rateLimitCounters,
+  users,
+  userSettings,
+  projects,
+  endpoints,
+} from "../db";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Level at which a limit is configured
+ */
+export type RateLimitScope = "organization" | "project" | "endpoint";
+
+/**
+ * Limits configured at one level. Null means unlimited.
+ */
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  scopeId: string;
+  requestsPerMinute: number | null;
+  tokensPerDay: number | null;
+}
+
+type Metric = "requests" | "tokens";
+
+/**
+ * State of the most restrictive limit of one kind, for the RateLimit and
+ * RateLimit-Policy headers
+ */
+export interface RateLimitStatus {
+  /** "requests" per minute or "tokens" per day */
+  policy: Metric;
+  limit: number;
+  remaining: number;
+  /** Length of the window in seconds */
+  windowSeconds: number;
+  /** Seconds until the window resets */
+  resetSeconds: number;
+}
+
+/**
+ * Outcome of a rate limit check, with one status per kind of limit that
+ * applies. A rejection also carries the limit that was reached.
+ */
+export type RateLimitResult =
+  | { allowed: true; statuses: RateLimitStatus[] }
+  | {
+      allowed: false;
+      statuses: RateLimitStatus[];
+      exceeded: RateLimitStatus;
+      message: string;
+    };
+
+/**
+ * Collect the limits configured on the endpoint, its project and the
+ * organization, most specific first
+ */
+export function getRateLimitRules(
+  user: typeof users.$inferSelect,
+  settings: typeof userSettings.$inferSelect | null,
+  project: typeof projects.$inferSelect,
+  endpoint: typeof endpoints.$inferSelect
+): RateLimitRule[] {
+  const rules: RateLimitRule[] = [
+    {
+      scope: "endpoint",
+      scopeId: endpoint.uuid,
+      requestsPerMinute: endpoint.rate_limit_rpm,
+      tokensPerDay: endpoint.daily_token_limit,
+    },
+    {
+      scope: "project",
+      scopeId: project.uuid,
+      requestsPerMinute: project.rate_limit_rpm,
+      tokensPerDay: project.daily_token_limit,
+    },
+    {
+      scope: "organization",
+      scopeId: user.uuid,
+      requestsPerMinute: settings?.rate_limit_rpm ?? null,
+      tokensPerDay: settings?.daily_token_limit ?? null,
+    },
+  ];
+
+  return rules.filter(
+    rule => rule.requestsPerMinute !== null || rule.tokensPerDay !== null
+  );
+}
+
+/**
+ * Start of the fixed window containing now
+ */
+function windowStart(now: Date, windowMs: number): Date {
+  return new Date(Math.floor(now.getTime() / windowMs) * windowMs);
+}
+
+function secondsUntil(start: Date, windowMs: number, now: Date): number {
+  return Math.max(
+    1,
+    Math.ceil((start.getTime() + windowMs - now.getTime()) / 1000)
+  );
+}
+
+/**
+ * Keep the status with the fewest remaining units for each kind of limit
+ */
+function mostRestrictive(statuses: RateLimitStatus[]): RateLimitStatus[] {
+  const byPolicy = new Map<Metric, RateLimitStatus>();
+  for (const status of statuses) {
+    const current = byPolicy.get(status.policy);
+    if (!current || status.remaining < current.remaining) {
+      byPolicy.set(status.policy, status);
+    }
+  }
+  return [...byPolicy.values()];
+}
+
+/**
+ * Count a request against the per-minute limit of a rule. The increment only
+ * happens while the counter is below the limit, so a request that loses a
+ * race for the last slot is not counted.
+ * @returns The counter value, or null if the limit is already reached
+ */
+async function incrementRequests(
+  rule: RateLimitRule,
+  start: Date,
+  limit: number
+): Promise<number | null> {
+  const rows = await db
+    .insert(rateLimitCounters)
+    .values({
+      scope: rule.scope,
+      scope_id: rule.scopeId,
+      metric: "requests" satisfies Metric,
+      window_start: start,
+      count: 1,
+    })
+    .onConflictDoUpdate({
+      target: [
+        rateLimitCounters.scope,
+        rateLimitCounters.scope_id,
+        rateLimitCounters.metric,
+        rateLimitCounters.window_start,
+      ],
+      set: { count: sql`${rateLimitCounters.count} + 1` },
+      setWhere: lt(rateLimitCounters.count, limit),
+    })
+    .returning({ count: rateLimitCounters.count });
+
+  const count = rows[0]?.count ?? null;
+
+  // First request of a new window: drop this scope's expired counters
+  if (count === 1) {
+    await db
+      .delete(rateLimitCounters)
+      .where(
+        and(
+          eq(rateLimitCounters.scope, rule.scope),
+          eq(rateLimitCounters.scope_id, rule.scopeId),
+          lt(rateLimitCounters.window_start, new Date(start.getTime() - DAY_MS))
+        )
+      );
+  }
+
+  return count;
+}
+
+/**
+ * Undo a request counted by incrementRequests
+ */
+async function decrementRequests(rule: RateLimitRule, start: Date) {
+  await db
+    .update(rateLimitCounters)
+    .set({ count: sql`${rateLimitCounters.count} - 1` })
+    .where(
+      and(
+        eq(rateLimitCounters.scope, rule.scope),
+        eq(rateLimitCounters.scope_id, rule.scopeId),
+        eq(rateLimitCounters.metric, "requests" satisfies Metric),
+        eq(rateLimitCounters.window_start, start)
+      )
+    );
+}
+
+/**
+ * Read a rule's counter for a window
+ */
+async function getCount(rule: RateLimitRule, metric: Metric, start: Date) {
+  const rows = await db
+    .select({ count: rateLimitCounters.count })
+    .from(rateLimitCounters)
+    .where(
+      and(
+        eq(rateLimitCounters.scope, rule.scope),
+        eq(rateLimitCounters.scope_id, rule.scopeId),
+        eq(rateLimitCounters.metric, metric),
+        eq(rateLimitCounters.window_start, start)
+      )
+    );
+
+  return rows[0]?.count ?? 0;
+}
+
+function exceededMessage(rule: RateLimitRule, metric: Metric): string {
+  return metric === "tokens"
+    ? `Daily token limit of ${rule.tokensPerDay} exceeded for ${rule.scope}`
+    : `Rate limit of ${rule.requestsPerMinute} requests per minute exceeded for ${rule.scope}`;
+}
+
+/**
+ * Check and consume the limits for a request. Every limit is checked before
+ * any is consumed, so a request rejected by one rule is not counted against
+ * the others. Requests per minute are counted here; tokens per day are
+ * checked against usage recorded so far (see recordTokenUsage).
+ */
+export async function checkRateLimits(
+  rules: RateLimitRule[],
+  now = new Date()
+): Promise<RateLimitResult> {
+  const minuteStart = windowStart(now, MINUTE_MS);
+  const dayStart = windowStart(now, DAY_MS);
+  const tokenStatus = (rule: RateLimitRule, used: number) => ({
+    policy: "tokens" as const,
+    limit: rule.tokensPerDay!,
+    remaining: Math.max(0, rule.tokensPerDay! - used),
+    windowSeconds: DAY_MS / 1000,
+    resetSeconds: secondsUntil(dayStart, DAY_MS, now),
+  });
+  const requestStatus = (rule: RateLimitRule, count: number) => ({
+    policy: "requests" as const,
+    limit: rule.requestsPerMinute!,
+    remaining: Math.max(0, rule.requestsPerMinute! - count),
+    windowSeconds: MINUTE_MS / 1000,
+    resetSeconds: secondsUntil(minuteStart, MINUTE_MS, now),
+  });
+
+  // Check every limit without consuming any
+  const statuses: RateLimitStatus[] = [];
+  let rejection: { exceeded: RateLimitStatus; message: string } | null = null;
+  for (const rule of rules) {
+    if (rule.tokensPerDay !== null) {
+      const status = tokenStatus(
+        rule,
+        await getCount(rule, "tokens", dayStart)
+      );
+      statuses.push(status);
+      if (status.remaining === 0) {
+        rejection ??= {
+          exceeded: status,
+          message: exceededMessage(rule, "tokens"),
+        };
+      }
+    }
+    if (rule.requestsPerMinute !== null) {
+      const status = requestStatus(
+        rule,
+        await getCount(rule, "requests", minuteStart)
+      );
+      statuses.push(status);
+      if (status.remaining === 0) {
+        rejection ??= {
+          exceeded: status,
+          message: exceededMessage(rule, "requests"),
+        };
+      }
+    }
+  }
+  if (rejection) {
+    return {
+      allowed: false,
+      statuses: mostRestrictive(statuses),
+      ...rejection,
+    };
+  }
+
+  // Count the request against each per-minute limit. A concurrent request
+  // may take the last slot in between; if so, undo the counts made so far.
+  const counted: RateLimitRule[] = [];
+  const consumed = statuses.filter(status => status.policy === "tokens");
+  for (const rule of rules) {
+    if (rule.requestsPerMinute === null) continue;
+
+    const count = await incrementRequests(
+      rule,
+      minuteStart,
+      rule.requestsPerMinute
+    );
+    if (count === null) {
+      for (const countedRule of counted) {
+        await decrementRequests(countedRule, minuteStart);
+      }
+      const exceeded = requestStatus(rule, rule.requestsPerMinute);
+      return {
+        allowed: false,
+        statuses: mostRestrictive([...statuses, exceeded]),
+        exceeded,
+        message: exceededMessage(rule, "requests"),
+      };
+    }
+    counted.push(rule);
+    consumed.push(requestStatus(rule, count));
+  }
+
+  return { allowed: true, statuses: mostRestrictive(consumed) };
+}
+
+/**
+ * Add the tokens used by a request to the daily counters of every rule
+ * that has a token limit
+ */
+export async function recordTokenUsage(
+  rules: RateLimitRule[],
+  tokens: number,
+  now = new Date()
+): Promise<void> {
+  if (tokens <= 0) return;
+
+  const dayStart = windowStart(now, DAY_MS);
+  for (const rule of rules) {
+    if (rule.tokensPerDay === null) continue;
+
+    await db
+      .insert(rateLimitCounters)
+      .values({
+        scope: rule.scope,
+        scope_id: rule.scopeId,
+        metric: "tokens" satisfies Metric,
+        window_start: dayStart,
+        count: tokens,
+      })
+      .onConflictDoUpdate({
+        target: [
+          rateLimitCounters.scope,
+          rateLimitCounters.scope_id,
+          rateLimitCounters.metric,
+          rateLimitCounters.window_start,
+        ],
+        set: { count: sql`${rateLimitCounters.count} + ${tokens}` },
+      });
+  }
+}
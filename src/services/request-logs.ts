@@ -0,0 +1,202 @@
+import { sql } from "drizzle-orm";
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+import { db, endpoints, requestLogs } from "../db";
+import { extractAttachments } from "../lib/attachments";
+import type { LLMRequest } from "./llm";
+
+type Endpoint = typeof endpoints.$inferSelect;
+
+/**
+ * Days payload logs are kept when the endpoint sets no retention
+ */
+export const DEFAULT_LOG_RETENTION_DAYS = 30;
+
+const PURGE_INTERVAL_MS = 60 * 60_000;
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Redacted values shorter than this are not scrubbed from free text, where
+ * they would match too much
+ */
+const MIN_SCRUB_LENGTH = 4;
+
+/**
+ * What was sent and received in one endpoint call
+ */
+export interface RequestLogEntry {
+  success: boolean;
+  input: unknown;
+  request: LLMRequest | null;
+  rawResponse: string | null;
+  output: unknown;
+  errorMessage: string | null;
+}
+
+/**
+ * Replace the values at the redaction paths. Each path is dot-separated and
+ * "*" matches any key or array index.
+ * @param found - Collects the values that were replaced
+ */
+export function redactFields(
+  value: unknown,
+  paths: string[],
+  found: unknown[] = []
+): unknown {
+  const redact = (current: unknown, segments: string[]): unknown => {
+    if (current === null || typeof current !== "object") return current;
+
+    const [segment, ...rest] = segments;
+    const entries = Array.isArray(current)
+      ? current.map((item, index) => [String(index), item] as const)
+      : Object.entries(current);
+
+    const redacted = entries.map(([key, item]) => {
+      if (segment !== "*" && segment !== key) return [key, item] as const;
+      if (rest.length > 0) return [key, redact(item, rest)] as const;
+      found.push(item);
+      return [key, REDACTED] as const;
+    });
+
+    return Array.isArray(current)
+      ? redacted.map(([, item]) => item)
+      : Object.fromEntries(redacted);
+  };
+
+  return paths.reduce(
+    (current, path) => redact(current, path.split(".")),
+    value
+  );
+}
+
+/**
+ * The string and number leaves of a redacted value; redacting an object or
+ * array redacts everything inside it
+ */
+function collectLeaves(value: unknown): string[] {
+  if (typeof value === "string" || typeof value === "number") {
+    return [String(value)];
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.values(value).flatMap(collectLeaves);
+  }
+  return [];
+}
+
+/**
+ * Remove redacted values from free text such as prompts, where the input
+ * appears serialized
+ */
+function scrubText(text: string | null, values: unknown[]): string | null {
+  if (text === null) return null;
+
+  // Longest first, so values containing other redacted values still match
+  const needles = values
+    .flatMap(collectLeaves)
+    .filter(needle => needle.length >= MIN_SCRUB_LENGTH)
+    .sort((a, b) => b.length - a.length);
+
+  return needles.reduce(
+    (current, needle) => current.split(needle).join(REDACTED),
+    text
+  );
+}
+
+/**
+ * Copy of an LLM request that is safe to return to the caller in error
+ * details: files are reduced to their media type and size, and values at the
+ * endpoint's redaction paths are scrubbed from the prompts
+ */
+export function toDebugRequest(
+  endpoint: Endpoint,
+  input: unknown,
+  request: LLMRequest
+) {
+  const found: unknown[] = [];
+  redactFields(input, endpoint.log_redact_fields ?? [], found);
+  const { attachments, ...rest } = request;
+
+  return {
+    ...rest,
+    systemPrompt: scrubText(request.systemPrompt ?? null, found) ?? undefined,
+    prompt: scrubText(request.prompt, found)!,
+    attachments: attachments?.map(attachment => ({
+      mediaType: attachment.mediaType,
+      size_bytes: Buffer.byteLength(attachment.data, "base64"),
+    })),
+  };
+}
+
+/**
+ * Store the payload of an endpoint call, with the endpoint's redaction rules
+ * applied. Files are logged as the placeholders the prompt refers to them by.
+ * @param analyticsId - The usage_analytics row for the call
+ */
+export async function recordRequestLog(
+  endpoint: Endpoint,
+  analyticsId: string | null,
+  entry: RequestLogEntry
+): Promise<void> {
+  const extracted = extractAttachments(
+    endpoint.input_schema as JsonSchema | null,
+    entry.input
+  );
+  const input = "error" in extracted ? entry.input : extracted.input;
+
+  const paths = endpoint.log_redact_fields ?? [];
+  const found: unknown[] = [];
+  const redactedInput = redactFields(input, paths, found);
+  const redactedOutput = redactFields(entry.output, paths, found);
+
+  await db.insert(requestLogs).values({
+    endpoint_id: endpoint.uuid,
+    analytics_id: analyticsId,
+    success: entry.success,
+    input: redactedInput ?? null,
+    system_prompt: scrubText(entry.request?.systemPrompt ?? null, found),
+    user_prompt: scrubText(entry.request?.prompt ?? null, found),
+    raw_response: scrubText(entry.rawResponse, found),
+    output: redactedOutput ?? null,
+    error_message: scrubText(entry.errorMessage, found),
+  });
+}
+
+/**
+ * Delete payload logs older than their endpoint's retention window
+ * @returns The number of logs deleted
+ */
+export async function purgeExpiredRequestLogs(): Promise<number> {
+  const rows = await db
+    .delete(requestLogs)
+    .where(
+      sql`${requestLogs.created_at} < NOW() - make_interval(days => COALESCE(
+        (SELECT ${endpoints.log_retention_days} FROM ${endpoints}
+          WHERE ${endpoints.uuid} = ${requestLogs.endpoint_id}),
+        ${DEFAULT_LOG_RETENTION_DAYS}
+      ))`
+    )
+    .returning({ uuid: requestLogs.uuid });
+
+  return rows.length;
+}
+
+/**
+ * Purge expired payload logs periodically
+ * @returns A function that stops the purge
+ */
+export function startRequestLogPurge(
+  intervalMs: number = PURGE_INTERVAL_MS
+): () => void {
+  const timer = setInterval(async () => {
+    try {
+      await purgeExpiredRequestLogs();
+    } catch (error) {
+      console.error("Request log purge error:", error);
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
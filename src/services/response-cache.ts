@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import { eq, and, gt, lte, sql } from "drizzle-orm";
+import { db, endpoints, responseCache } from "../db";
+import { stableStringify } from "../lib/stable-stringify";
+import type { LLMProviderType, LLMResponse } from "./llm";
+
+type Endpoint = typeof endpoints.$inferSelect;
+
+/**
+ * Fingerprint of everything in the endpoint definition that affects output.
+ * Any edit to these fields produces a new version and so a fresh cache.
+ */
+function endpointVersion(endpoint: Endpoint): string {
+  return stableStringify({
+    llm_key_id: endpoint.llm_key_id,
+    input_schema: endpoint.input_schema,
+    output_schema: endpoint.output_schema,
+    instructions: endpoint.instructions,
+    context: endpoint.context,
+    temperature: endpoint.temperature,
+    top_p: endpoint.top_p,
+    max_tokens: endpoint.max_tokens,
+    stop_sequences: endpoint.stop_sequences,
+    seed: endpoint.seed,
+    examples: endpoint.examples,
+  });
+}
+
+/**
+ * Build the cache key for an endpoint call
+ * @returns SHA-256 hex digest of endpoint version, provider, model and input
+ */
+export function buildCacheKey(
+  endpoint: Endpoint,
+  provider: LLMProviderType,
+  model: string | null,
+  inputData: unknown
+): string {
+  return createHash("sha256")
+    .update(
+      stableStringify({
+        endpoint_id: endpoint.uuid,
+        version: endpointVersion(endpoint),
+        provider,
+        model,
+        input: inputData,
+      })
+    )
+    .digest("hex");
+}
+
+/**
+ * Look up an unexpired cached response and count the hit
+ */
+export async function getCachedResponse(cacheKey: string) {
+  const rows = await db
+    .update(responseCache)
+    .set({ hit_count: sql`${responseCache.hit_count} + 1` })
+    .where(
+      and(
+        eq(responseCache.cache_key, cacheKey),
+        gt(responseCache.expires_at, new Date())
+      )
+    )
+    .returning();
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Store (or replace) a response in the cache.
+ * Expired entries for the endpoint are purged at the same time.
+ */
+export async function storeCachedResponse(
+  endpoint: Endpoint,
+  cacheKey: string,
+  llmResponse: LLMResponse
+): Promise<void> {
+  const ttlSeconds = endpoint.cache_ttl_seconds ?? 0;
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+  await db
+    .delete(responseCache)
+    .where(
+      and(
+        eq(responseCache.endpoint_id, endpoint.uuid),
+        lte(responseCache.expires_at, new Date())
+      )
+    );
+
+  const values = {
+    endpoint_id: endpoint.uuid,
+    cache_key: cacheKey,
+    output: llmResponse.content,
+    model: llmResponse.model,
+    provider: llmResponse.provider,
+    tokens_input: llmResponse.usage.promptTokens,
+    tokens_output: llmResponse.usage.completionTokens,
+    expires_at: expiresAt,
+  };
+
+  await db
+    .insert(responseCache)
+    .values(values)
+    .onConflictDoUpdate({
+      target: responseCache.cache_key,
+      set: { ...values, hit_count: 0, created_at: new Date() },
+    });
+}
+
+/**
+ * Remove every cached response for an endpoint
+ * @returns The number of entries removed
+ */
+export async function invalidateEndpointCache(
+  endpointId: string
+): Promise<number> {
+  const rows = await db
+    .delete(responseCache)
+    .where(eq(responseCache.endpoint_id, endpointId))
+    .returning({ uuid: responseCache.uuid });
+
+  return rows.length;
+}
@@ -0,0 +1,259 @@
+import type { JsonSchema } from "@sudobility/shapeshyft_types";
+import { db, endpoints, endpointTestCases, endpointTestRuns } from "../db";
+import { stableStringify } from "../lib/stable-stringify";
+import { getAtPath, MISSING } from "../lib/object-path";
+import { validateJsonSchema } from "../lib/schema-validator";
+import {
+  buildFallbackChain,
+  buildLLMRequest,
+  countRetries,
+  executeEndpoint,
+  type EndpointKeys,
+} from "./endpoint-executor";
+import { recordFailure, recordSuccess } from "./endpoint-analytics";
+
+type Endpoint = typeof endpoints.$inferSelect;
+type TestCase = typeof endpointTestCases.$inferSelect;
+
+/**
+ * A check on one field of the output
+ */
+export type TestAssertion =
+  | { path: string; op: "equals" | "contains"; value: unknown }
+  | { path: string; op: "regex"; value: string }
+  | { path: string; op: "enum"; value: unknown[] }
+  | { path: string; op: "approx"; value: number; tolerance: number };
+
+/**
+ * A failed check, with a description of what was found
+ */
+export interface AssertionFailure {
+  path: string;
+  op: TestAssertion["op"];
+  message: string;
+}
+
+/**
+ * Outcome of one test case in a run
+ */
+export interface TestCaseResult {
+  test_case_id: string;
+  name: string;
+  passed: boolean;
+  output: unknown;
+  failures: AssertionFailure[];
+  /** Set when the case could not produce output at all */
+  error: string | null;
+  tokens_input: number;
+  tokens_output: number;
+  /** Hundredths of a cent, as in usage_analytics */
+  estimated_cost_cents: number;
+  latency_ms: number;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Check one assertion against an output
+ * @returns A description of the mismatch, or null if it holds
+ */
+function checkAssertion(
+  output: unknown,
+  assertion: TestAssertion
+): string | null {
+  const actual = getAtPath(output, assertion.path);
+  if (actual === MISSING) {
+    return "Field is missing";
+  }
+
+  const found = `got ${JSON.stringify(actual)}`;
+  switch (assertion.op) {
+    case "equals":
+      return isEqual(actual, assertion.value)
+        ? null
+        : `Expected ${JSON.stringify(assertion.value)}, ${found}`;
+    case "contains":
+      if (typeof actual === "string" && typeof assertion.value === "string") {
+        return actual.includes(assertion.value)
+          ? null
+          : `Expected to contain ${JSON.stringify(assertion.value)}, ${found}`;
+      }
+      if (Array.isArray(actual)) {
+        return actual.some(item => isEqual(item, assertion.value))
+          ? null
+          : `Expected to contain ${JSON.stringify(assertion.value)}, ${found}`;
+      }
+      return `Expected a string or array, ${found}`;
+    case "regex":
+      return typeof actual === "string" &&
+        new RegExp(assertion.value).test(actual)
+        ? null
+        : `Expected to match /${assertion.value}/, ${found}`;
+    case "enum":
+      return assertion.value.some(option => isEqual(actual, option))
+        ? null
+        : `Expected one of ${JSON.stringify(assertion.value)}, ${found}`;
+    case "approx":
+      return typeof actual === "number" &&
+        Math.abs(actual - assertion.value) <= assertion.tolerance
+        ? null
+        : `Expected ${assertion.value} ± ${assertion.tolerance}, ${found}`;
+  }
+}
+
+/**
+ * Compare an output with a test case's expected output and assertions
+ */
+export function evaluateTestCase(
+  output: unknown,
+  testCase: Pick<TestCase, "expected_output" | "assertions">
+): AssertionFailure[] {
+  const failures: AssertionFailure[] = [];
+
+  if (
+    testCase.expected_output !== null &&
+    !isEqual(output, testCase.expected_output)
+  ) {
+    failures.push({
+      path: "",
+      op: "equals",
+      message: "Output does not match expected_output",
+    });
+  }
+
+  for (const assertion of (testCase.assertions as TestAssertion[] | null) ??
+    []) {
+    const message = checkAssertion(output, assertion);
+    if (message) {
+      failures.push({ path: assertion.path, op: assertion.op, message });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Run one test case through the same pipeline as a live request: input
+ * validation, prompt building, the fallback chain with retries, and output
+ * repair. The call is logged to usage analytics, tagged with the run.
+ */
+async function runTestCase(
+  endpoint: Endpoint,
+  keys: EndpointKeys,
+  availableKeyIds: Set<string>,
+  runId: string,
+  testCase: TestCase
+): Promise<TestCaseResult> {
+  const result: TestCaseResult = {
+    test_case_id: testCase.uuid,
+    name: testCase.name,
+    passed: false,
+    output: null,
+    failures: [],
+    error: null,
+    tokens_input: 0,
+    tokens_output: 0,
+    estimated_cost_cents: 0,
+    latency_ms: 0,
+  };
+
+  const inputSchema = endpoint.input_schema as JsonSchema | null;
+  if (inputSchema) {
+    const violations = validateJsonSchema(inputSchema, testCase.input);
+    if (violations.length > 0) {
+      result.error = "Input does not match input_schema";
+      return result;
+    }
+  }
+
+  const startTime = Date.now();
+  const candidates = buildFallbackChain(endpoint, keys).filter(candidate =>
+    availableKeyIds.has(candidate.llmKeyId)
+  );
+  const llmRequest = buildLLMRequest(
+    endpoint,
+    keys.llmKey.provider,
+    testCase.input
+  );
+  const payload = { input: testCase.input, request: llmRequest };
+  const metadata = { test_run_id: runId, test_case_id: testCase.uuid };
+
+  try {
+    const execution = await executeEndpoint(endpoint, candidates, llmRequest);
+    const { response } = execution;
+    const usage = await recordSuccess(endpoint, execution, payload, metadata);
+
+    result.output = response.content;
+    result.failures = evaluateTestCase(response.content, testCase);
+    result.passed = result.failures.length === 0;
+    result.tokens_input = usage.tokens_input;
+    result.tokens_output = usage.tokens_output;
+    result.estimated_cost_cents = usage.estimated_cost_cents;
+    result.latency_ms = usage.latency_ms;
+  } catch (error) {
+    await recordFailure(
+      endpoint,
+      error,
+      startTime,
+      countRetries(candidates),
+      payload,
+      metadata
+    );
+    result.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  return result;
+}
+
+/**
+ * Run an endpoint's test cases in order and store the report.
+ * Each case's call counts toward usage analytics and budgets like a live
+ * request, with request_metadata.test_run_id set to the run.
+ *
+ * @param endpoint - The effective endpoint (draft or a version overlaid)
+ * @param version - The version under test, or null for the draft
+ * @param availableKeyIds - Keys within budget; others are left out of the
+ * fallback chain
+ */
+export async function runTestSuite(
+  endpoint: Endpoint,
+  version: number | null,
+  keys: EndpointKeys,
+  availableKeyIds: Set<string>,
+  testCases: TestCase[]
+): Promise<typeof endpointTestRuns.$inferSelect> {
+  const startTime = Date.now();
+  const runId = crypto.randomUUID();
+
+  const results: TestCaseResult[] = [];
+  for (const testCase of testCases) {
+    results.push(
+      await runTestCase(endpoint, keys, availableKeyIds, runId, testCase)
+    );
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  const sum = (field: keyof TestCaseResult) =>
+    results.reduce((total, result) => total + (result[field] as number), 0);
+
+  const rows = await db
+    .insert(endpointTestRuns)
+    .values({
+      uuid: runId,
+      endpoint_id: endpoint.uuid,
+      version,
+      total_cases: results.length,
+      passed_cases: passed,
+      failed_cases: results.length - passed,
+      tokens_input: sum("tokens_input"),
+      tokens_output: sum("tokens_output"),
+      estimated_cost_cents: sum("estimated_cost_cents"),
+      duration_ms: Date.now() - startTime,
+      results,
+    })
+    .returning();
+
+  return rows[0]!;
+}
@@ -0,0 +1,158 @@
+import { createHmac } from "crypto";
+import { eq, inArray, sql } from "drizzle-orm";
+import { db, aiJobs, aiJobWebhookDeliveries } from "../db";
+import { decryptApiKey } from "../lib/encryption";
+import { checkOutboundUrl } from "../lib/outbound-url";
+
+type AiJob = typeof aiJobs.$inferSelect;
+
+/**
+ * Deliveries attempted before a webhook is given up on
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+
+/**
+ * Wait before each retry, by attempt number (the last entry repeats)
+ */
+const WEBHOOK_RETRY_DELAYS_SECONDS = [30, 120, 600, 3600];
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Sign a webhook body. Receivers recompute the HMAC over the raw body with
+ * their secret and compare it with the X-Webhook-Signature header.
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Body posted to the webhook when a job completes
+ */
+export function buildWebhookPayload(job: AiJob) {
+  return {
+    job_id: job.uuid,
+    status: job.status,
+    result: job.result,
+    error: job.error,
+    completed_at: job.completed_at,
+  };
+}
+
+/**
+ * Attempt one delivery, log it, and schedule a retry on failure. The URL is
+ * checked again before posting, since its host may resolve differently than
+ * when the job was queued. Errors are logged without the underlying network
+ * error, which callers can read back through the job.
+ */
+async function deliverWebhook(job: AiJob): Promise<void> {
+  const attempt = job.webhook_attempts + 1;
+  const body = JSON.stringify(buildWebhookPayload(job));
+  const secret = decryptApiKey(
+    job.encrypted_webhook_secret!,
+    job.webhook_secret_iv!
+  );
+
+  const startTime = Date.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let retryable = true;
+
+  const urlError = await checkOutboundUrl(job.webhook_url!);
+  if (urlError) {
+    error = "Webhook URL is not allowed";
+    retryable = false;
+  } else {
+    try {
+      const response = await fetch(job.webhook_url!, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Id": job.uuid,
+          "X-Webhook-Attempt": String(attempt),
+          "X-Webhook-Signature": signWebhookPayload(secret, body),
+        },
+        body,
+        // A redirect could lead to an address the URL check would reject
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `Webhook responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error =
+        err instanceof Error && err.name === "TimeoutError"
+          ? "Webhook timed out"
+          : "Webhook could not be reached";
+    }
+  }
+
+  await db.insert(aiJobWebhookDeliveries).values({
+    job_id: job.uuid,
+    attempt,
+    status_code: statusCode,
+    error,
+    duration_ms: Date.now() - startTime,
+  });
+
+  const retry = !!error && retryable && attempt < MAX_WEBHOOK_ATTEMPTS;
+  const retryDelaySeconds =
+    WEBHOOK_RETRY_DELAYS_SECONDS[
+      Math.min(attempt, WEBHOOK_RETRY_DELAYS_SECONDS.length) - 1
+    ]!;
+  await db
+    .update(aiJobs)
+    .set({
+      webhook_attempts: attempt,
+      webhook_status: !error ? "delivered" : retry ? "pending" : "failed",
+      next_webhook_at: retry
+        ? new Date(Date.now() + retryDelaySeconds * 1000)
+        : null,
+    })
+    .where(eq(aiJobs.uuid, job.uuid));
+}
+
+/**
+ * Claim the most overdue webhook by pushing next_webhook_at past the
+ * delivery timeout, so other workers skip it while it is in flight
+ */
+async function claimNextWebhook(): Promise<AiJob | null> {
+  const now = new Date();
+  const rows = await db
+    .update(aiJobs)
+    .set({ next_webhook_at: new Date(now.getTime() + 2 * WEBHOOK_TIMEOUT_MS) })
+    .where(
+      inArray(
+        aiJobs.uuid,
+        sql`(
+          SELECT uuid FROM ${aiJobs}
+          WHERE webhook_status = 'pending'
+            AND next_webhook_at <= ${now.toISOString()}
+          ORDER BY next_webhook_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )`
+      )
+    )
+    .returning();
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Deliver the webhooks that are due, claiming each just before delivering
+ * it so the claim always covers the delivery
+ * @returns The number of deliveries attempted
+ */
+export async function deliverPendingWebhooks(limit = 10): Promise<number> {
+  let delivered = 0;
+  while (delivered < limit) {
+    const job = await claimNextWebhook();
+    if (!job) break;
+    await deliverWebhook(job);
+    delivered++;
+  }
+  return delivered;
+}
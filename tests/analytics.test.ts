@@ -3,6 +3,29 @@ import { createTestApp, createTestRequest, testUser } from "./utils";
 import { cleanupTestUser, createTestUsageAnalytics, getTestUser } from "./utils/test-db";
 import { initDatabase, db, usageAnalytics } from "../src/db";
 
+interface UsageTotals {
+  total_requests: number;
+  failed_requests: number;
+  total_tokens_input: number;
+  total_estimated_cost_cents: number;
+}
+
+interface Timeseries {
+  granularity: string;
+  buckets: (UsageTotals & {
+    bucket: string;
+    latency_p50_ms: number | null;
+    latency_p99_ms: number | null;
+  })[];
+}
+
+interface Breakdown {
+  by_model: (UsageTotals & { model: string | null })[];
+  by_provider: (UsageTotals & { provider: string | null })[];
+  by_key: (UsageTotals & { llm_key_id: string | null; key_name: string | null })[];
+  top_errors: { error_message: string; count: number }[];
+}
+
 describe("Analytics Routes", () => {
   const app = createTestApp();
   const userId = testUser.uid;
@@ -230,4 +253,176 @@ describe("Analytics Routes", () => {
       expect(res.status).toBe(403);
     });
   });
+
+  describe("GET /api/v1/users/:userId/analytics/timeseries", () => {
+    it("should bucket usage by day with latency percentiles and fill gaps", async () => {
+      for (const latency of [100, 200, 300, 400]) {
+        await createTestUsageAnalytics(endpointId, {
+          success: true,
+          tokens_input: 10,
+          tokens_output: 5,
+          latency_ms: latency,
+          estimated_cost_cents: 2,
+          timestamp: new Date("2026-03-02T10:00:00Z"),
+        });
+      }
+      await createTestUsageAnalytics(endpointId, {
+        success: false,
+        error_message: "boom",
+        latency_ms: 50,
+        timestamp: new Date("2026-03-04T23:30:00Z"),
+      });
+
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/timeseries?start_date=2026-03-01&end_date=2026-03-04`
+      );
+      expect(res.status).toBe(200);
+
+      const data = (await res.json()).data as Timeseries;
+      expect(data.granularity).toBe("day");
+      expect(data.buckets.map(b => b.bucket)).toEqual([
+        "2026-03-01T00:00:00.000Z",
+        "2026-03-02T00:00:00.000Z",
+        "2026-03-03T00:00:00.000Z",
+        "2026-03-04T00:00:00.000Z",
+      ]);
+
+      const [empty, busy, , failing] = data.buckets;
+      expect(empty.total_requests).toBe(0);
+      expect(empty.latency_p50_ms).toBeNull();
+      expect(busy.total_requests).toBe(4);
+      expect(busy.total_tokens_input).toBe(40);
+      expect(busy.total_estimated_cost_cents).toBe(8);
+      expect(busy.latency_p50_ms).toBe(250);
+      expect(busy.latency_p99_ms).toBe(397);
+      expect(failing.failed_requests).toBe(1);
+    });
+
+    it("should support hourly and weekly buckets", async () => {
+      await createTestUsageAnalytics(endpointId, {
+        success: true,
+        timestamp: new Date("2026-03-04T10:15:00Z"),
+      });
+      await createTestUsageAnalytics(endpointId, {
+        success: true,
+        timestamp: new Date("2026-03-04T12:45:00Z"),
+      });
+
+      const hourly = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/timeseries?granularity=hour`
+      );
+      const hourlyData = (await hourly.json()).data as Timeseries;
+      expect(hourlyData.buckets.map(b => b.total_requests)).toEqual([1, 0, 1]);
+      expect(hourlyData.buckets[0].bucket).toBe("2026-03-04T10:00:00.000Z");
+
+      const weekly = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/timeseries?granularity=week`
+      );
+      const weeklyData = (await weekly.json()).data as Timeseries;
+      // Weeks start on Monday
+      expect(weeklyData.buckets).toHaveLength(1);
+      expect(weeklyData.buckets[0].bucket).toBe("2026-03-02T00:00:00.000Z");
+      expect(weeklyData.buckets[0].total_requests).toBe(2);
+    });
+
+    it("should reject ranges with too many buckets", async () => {
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/timeseries?granularity=hour&start_date=2025-01-01&end_date=2026-01-01`
+      );
+      expect(res.status).toBe(400);
+    });
+
+    it("should reject an unknown granularity", async () => {
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/timeseries?granularity=minute`
+      );
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/v1/users/:userId/analytics/breakdown", () => {
+    it("should break usage down by model, provider and key with top errors", async () => {
+      const metadata = (model: string) => ({ model, provider: "openai", llm_key_id: keyId });
+      await createTestUsageAnalytics(endpointId, {
+        success: true,
+        tokens_input: 100,
+        estimated_cost_cents: 10,
+        request_metadata: metadata("gpt-4o"),
+      });
+      await createTestUsageAnalytics(endpointId, {
+        success: true,
+        tokens_input: 20,
+        request_metadata: metadata("gpt-4o-mini"),
+      });
+      await createTestUsageAnalytics(endpointId, {
+        success: true,
+        tokens_input: 30,
+        request_metadata: metadata("gpt-4o"),
+      });
+      for (const message of ["Rate limited", "Rate limited", "Timeout"]) {
+        await createTestUsageAnalytics(endpointId, { success: false, error_message: message });
+      }
+
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/breakdown?endpoint_id=${endpointId}`
+      );
+      expect(res.status).toBe(200);
+      const data = (await res.json()).data as Breakdown;
+
+      const gpt4o = data.by_model.find(row => row.model === "gpt-4o")!;
+      expect(gpt4o.total_requests).toBe(2);
+      expect(gpt4o.total_tokens_input).toBe(130);
+      expect(gpt4o.total_estimated_cost_cents).toBe(10);
+      expect(data.by_model.find(row => row.model === null)!.failed_requests).toBe(3);
+
+      expect(data.by_provider.find(row => row.provider === "openai")!.total_requests).toBe(3);
+
+      const key = data.by_key.find(row => row.llm_key_id === keyId)!;
+      expect(key.key_name).toBe("Test Key");
+      expect(key.total_requests).toBe(3);
+
+      expect(data.top_errors).toHaveLength(2);
+      expect(data.top_errors[0]).toMatchObject({ error_message: "Rate limited", count: 2 });
+    });
+
+    it("should return empty breakdowns for a project without endpoints", async () => {
+      const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+        body: { project_name: "empty-project", display_name: "Empty" },
+      });
+      const emptyProjectId = (await projectRes.json()).data.uuid;
+
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/analytics/breakdown?project_id=${emptyProjectId}`
+      );
+      expect((await res.json()).data).toEqual({
+        by_model: [],
+        by_provider: [],
+        by_key: [],
+        top_errors: [],
+      });
+    });
+
+    it("should reject access to other user's analytics", async () => {
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/other-user-id/analytics/breakdown`
+      );
+      expect(res.status).toBe(403);
+    });
+  });
 });
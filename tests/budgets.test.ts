@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { createTestApp, createTestRequest, testUser } from "./utils";
+import { cleanupTestUser, createTestUsageAnalytics } from "./utils/test-db";
+import { initDatabase } from "../src/db";
+
+describe("Budget Routes", () => {
+  const app = createTestApp();
+  const userId = testUser.uid;
+  let projectId: string;
+  let keyId: string;
+  let endpointId: string;
+
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(userId);
+
+    const keyRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+      body: {
+        key_name: "Test Key",
+        provider: "openai",
+        api_key: "sk-test-key",
+        monthly_budget_cents: 1000,
+      },
+    });
+    keyId = (await keyRes.json()).data.uuid;
+
+    const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+      body: {
+        project_name: "test-project",
+        display_name: "Test Project",
+        monthly_budget_cents: 500,
+      },
+    });
+    projectId = (await projectRes.json()).data.uuid;
+
+    const endpointRes = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+      {
+        body: {
+          endpoint_name: "test-endpoint",
+          display_name: "Test Endpoint",
+          llm_key_id: keyId,
+        },
+      }
+    );
+    endpointId = (await endpointRes.json()).data.uuid;
+  });
+
+  afterAll(async () => {
+    await cleanupTestUser(userId);
+  });
+
+  describe("GET /api/v1/users/:userId/budgets", () => {
+    it("should report this month's spend against each budget", async () => {
+      // Analytics store cost in hundredths of a cent
+      await createTestUsageAnalytics(endpointId, { success: true, estimated_cost_cents: 25000 });
+      await createTestUsageAnalytics(endpointId, { success: true, estimated_cost_cents: 17500 });
+
+      const res = await createTestRequest(app, "GET", `/api/v1/users/${userId}/budgets`);
+      expect(res.status).toBe(200);
+      const json = await res.json();
+
+      expect(json.data.user.budget_cents).toBeNull();
+      expect(json.data.user.spent_cents).toBe(425);
+
+      expect(json.data.projects).toHaveLength(1);
+      expect(json.data.projects[0].project_name).toBe("test-project");
+      expect(json.data.projects[0].spent_cents).toBe(425);
+      expect(json.data.projects[0].percent_used).toBe(85);
+      expect(json.data.projects[0].state).toBe("warning");
+
+      expect(json.data.keys[0].key_name).toBe("Test Key");
+      expect(json.data.keys[0].scope_id).toBe(keyId);
+      expect(json.data.keys[0].state).toBe("ok");
+    });
+
+    it("should persist budgets set through settings", async () => {
+      await createTestRequest(app, "PUT", `/api/v1/users/${userId}/settings`, {
+        body: { monthly_budget_cents: 200 },
+      });
+
+      const res = await createTestRequest(app, "GET", `/api/v1/users/${userId}/budgets`);
+      const json = await res.json();
+      expect(json.data.user.budget_cents).toBe(200);
+      expect(json.data.user.state).toBe("ok");
+    });
+
+    it("should return 403 for another user's budgets", async () => {
+      const res = await createTestRequest(app, "GET", `/api/v1/users/other-user/budgets`);
+      expect(res.status).toBe(403);
+    });
+  });
+});
@@ -403,4 +403,420 @@ describe("Endpoints Routes", () => {
       expect(res.status).toBe(404);
     });
   });
+
+  describe("Generation parameters", () => {
+    it("should store model and generation parameters", async () => {
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "tuned",
+            display_name: "Tuned",
+            llm_key_id: keyId,
+            model: "gpt-4o",
+            temperature: 0.7,
+            top_p: 0.9,
+            max_tokens: 512,
+            stop_sequences: ["END"],
+            seed: 42,
+          },
+        }
+      );
+      expect(res.status).toBe(201);
+
+      const json = await res.json();
+      expect(json.data.model).toBe("gpt-4o");
+      expect(json.data.temperature).toBeCloseTo(0.7);
+      expect(json.data.max_tokens).toBe(512);
+      expect(json.data.stop_sequences).toEqual(["END"]);
+      expect(json.data.seed).toBe(42);
+    });
+
+    it("should reject parameters the provider does not support", async () => {
+      const anthropicRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Anthropic Key",
+          provider: "anthropic",
+          api_key: "sk-ant-test",
+        },
+      });
+      const anthropicJson = await anthropicRes.json();
+
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "seeded",
+            display_name: "Seeded",
+            llm_key_id: anthropicJson.data.uuid,
+            temperature: 1.5,
+            seed: 42,
+          },
+        }
+      );
+      expect(res.status).toBe(400);
+
+      const json = await res.json();
+      expect(json.error).toContain("temperature");
+      expect(json.error).toContain("seed");
+    });
+
+    it("should re-validate parameters when switching keys on update", async () => {
+      const createRes = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "switching",
+            display_name: "Switching",
+            llm_key_id: keyId,
+            stop_sequences: ["a", "b", "c", "d"],
+          },
+        }
+      );
+      const createJson = await createRes.json();
+
+      const geminiRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: { key_name: "Gemini Key", provider: "gemini", api_key: "test" },
+      });
+      const geminiJson = await geminiRes.json();
+
+      // Four stop sequences are fine for Gemini, but adding a seed is not
+      const res = await createTestRequest(
+        app,
+        "PUT",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints/${createJson.data.uuid}`,
+        { body: { llm_key_id: geminiJson.data.uuid, seed: 1 } }
+      );
+      expect(res.status).toBe(400);
+
+      // Null clears a parameter
+      const clearRes = await createTestRequest(
+        app,
+        "PUT",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints/${createJson.data.uuid}`,
+        { body: { stop_sequences: null } }
+      );
+      expect(clearRes.status).toBe(200);
+
+      const clearJson = await clearRes.json();
+      expect(clearJson.data.stop_sequences).toBeNull();
+    });
+  });
+
+  describe("Fallback chains", () => {
+    it("should store an ordered list of fallback keys", async () => {
+      const fallbackRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: { key_name: "Backup Key", provider: "anthropic", api_key: "test" },
+      });
+      const fallbackJson = await fallbackRes.json();
+
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "resilient",
+            display_name: "Resilient",
+            llm_key_id: keyId,
+            fallback_key_ids: [fallbackJson.data.uuid],
+            fallback_on: ["rate_limit", "server_error"],
+          },
+        }
+      );
+      expect(res.status).toBe(201);
+
+      const json = await res.json();
+      expect(json.data.fallback_key_ids).toEqual([fallbackJson.data.uuid]);
+      expect(json.data.fallback_on).toEqual(["rate_limit", "server_error"]);
+    });
+
+    it("should reject the primary key or unknown keys as fallbacks", async () => {
+      const primaryRes = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "self-fallback",
+            display_name: "Self Fallback",
+            llm_key_id: keyId,
+            fallback_key_ids: [keyId],
+          },
+        }
+      );
+      expect(primaryRes.status).toBe(400);
+
+      const unknownRes = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "unknown-fallback",
+            display_name: "Unknown Fallback",
+            llm_key_id: keyId,
+            fallback_key_ids: ["00000000-0000-4000-8000-000000000000"],
+          },
+        }
+      );
+      expect(unknownRes.status).toBe(400);
+    });
+  });
+
+  describe("Versioning", () => {
+    let endpointId: string;
+    let basePath: string;
+
+    beforeEach(async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects/${projectId}/endpoints`, {
+        body: {
+          endpoint_name: "versioned",
+          display_name: "Versioned",
+          llm_key_id: keyId,
+          instructions: "First instructions",
+        },
+      });
+      endpointId = (await res.json()).data.uuid;
+      basePath = `/api/v1/users/${userId}/projects/${projectId}/endpoints/${endpointId}`;
+    });
+
+    function publish(notes?: string) {
+      return createTestRequest(app, "POST", `${basePath}/publish`, { body: { notes } });
+    }
+
+    function editInstructions(instructions: string) {
+      return createTestRequest(app, "PUT", basePath, { body: { instructions } });
+    }
+
+    it("should publish the draft as numbered, immutable versions", async () => {
+      const first = await publish("Initial release");
+      expect(first.status).toBe(201);
+      const firstJson = await first.json();
+      expect(firstJson.data.version).toBe(1);
+      expect(firstJson.data.notes).toBe("Initial release");
+      expect(firstJson.data.snapshot.instructions).toBe("First instructions");
+
+      await editInstructions("Second instructions");
+      expect((await (await publish()).json()).data.version).toBe(2);
+
+      const endpointRes = await createTestRequest(app, "GET", basePath);
+      expect((await endpointRes.json()).data.published_version).toBe(2);
+
+      const listRes = await createTestRequest(app, "GET", `${basePath}/versions`);
+      const list = (await listRes.json()).data;
+      expect(list.map((v: { version: number }) => v.version)).toEqual([2, 1]);
+
+      const v1Res = await createTestRequest(app, "GET", `${basePath}/versions/1`);
+      expect((await v1Res.json()).data.snapshot.instructions).toBe("First instructions");
+
+      const missingRes = await createTestRequest(app, "GET", `${basePath}/versions/9`);
+      expect(missingRes.status).toBe(404);
+    });
+
+    it("should diff versions and the draft", async () => {
+      await publish();
+      await createTestRequest(app, "PUT", basePath, {
+        body: { instructions: "Second instructions", temperature: 0.5 },
+      });
+
+      const draftDiff = await createTestRequest(app, "GET", `${basePath}/versions/diff?from=1&to=draft`);
+      expect(draftDiff.status).toBe(200);
+      const changes = (await draftDiff.json()).data.changes;
+      expect(changes).toEqual([
+        { field: "instructions", from: "First instructions", to: "Second instructions" },
+        { field: "temperature", from: null, to: 0.5 },
+      ]);
+
+      await publish();
+      const versionDiff = await createTestRequest(app, "GET", `${basePath}/versions/diff?from=1&to=2`);
+      expect((await versionDiff.json()).data.changes).toHaveLength(2);
+
+      const sameDiff = await createTestRequest(app, "GET", `${basePath}/versions/diff?from=2&to=draft`);
+      expect((await sameDiff.json()).data.changes).toEqual([]);
+    });
+
+    it("should roll back to the previous or a specific version", async () => {
+      await publish();
+      await editInstructions("Second instructions");
+      await publish();
+      await editInstructions("Third instructions");
+      await publish();
+
+      const previous = await createTestRequest(app, "POST", `${basePath}/rollback`, { body: {} });
+      expect(previous.status).toBe(200);
+      const previousJson = await previous.json();
+      expect(previousJson.data.published_version).toBe(2);
+      // The draft is left untouched
+      expect(previousJson.data.instructions).toBe("Third instructions");
+
+      const specific = await createTestRequest(app, "POST", `${basePath}/rollback`, { body: { version: 1 } });
+      expect((await specific.json()).data.published_version).toBe(1);
+
+      const earliest = await createTestRequest(app, "POST", `${basePath}/rollback`, { body: {} });
+      expect(earliest.status).toBe(400);
+
+      const missing = await createTestRequest(app, "POST", `${basePath}/rollback`, { body: { version: 9 } });
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe("Few-shot examples", () => {
+    const endpointsPath = () => `/api/v1/users/${userId}/projects/${projectId}/endpoints`;
+    const schemas = {
+      input_schema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+      output_schema: {
+        type: "object",
+        properties: { sentiment: { type: "string", enum: ["positive", "negative"] } },
+        required: ["sentiment"],
+      },
+    };
+
+    it("should store examples that match the endpoint schemas", async () => {
+      const res = await createTestRequest(app, "POST", endpointsPath(), {
+        body: {
+          endpoint_name: "with-examples",
+          display_name: "With Examples",
+          llm_key_id: keyId,
+          ...schemas,
+          examples: [{ input: { text: "I love it" }, output: { sentiment: "positive" } }],
+        },
+      });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.data.examples).toEqual([{ input: { text: "I love it" }, output: { sentiment: "positive" } }]);
+    });
+
+    it("should reject examples that violate the schemas", async () => {
+      const badInput = await createTestRequest(app, "POST", endpointsPath(), {
+        body: {
+          endpoint_name: "bad-input",
+          display_name: "Bad Input",
+          llm_key_id: keyId,
+          ...schemas,
+          examples: [{ input: { text: 42 }, output: { sentiment: "positive" } }],
+        },
+      });
+      expect(badInput.status).toBe(400);
+      expect((await badInput.json()).error).toContain("Example 1 input");
+
+      const badOutput = await createTestRequest(app, "POST", endpointsPath(), {
+        body: {
+          endpoint_name: "bad-output",
+          display_name: "Bad Output",
+          llm_key_id: keyId,
+          ...schemas,
+          examples: [
+            { input: { text: "Great" }, output: { sentiment: "positive" } },
+            { input: { text: "Meh" }, output: { sentiment: "neutral" } },
+          ],
+        },
+      });
+      expect(badOutput.status).toBe(400);
+      expect((await badOutput.json()).error).toContain("Example 2 output");
+    });
+
+    it("should re-check existing examples when the schemas change", async () => {
+      const createRes = await createTestRequest(app, "POST", endpointsPath(), {
+        body: {
+          endpoint_name: "schema-change",
+          display_name: "Schema Change",
+          llm_key_id: keyId,
+          ...schemas,
+          examples: [{ input: { text: "I love it" }, output: { sentiment: "positive" } }],
+        },
+      });
+      const endpointId = (await createRes.json()).data.uuid;
+
+      const updateRes = await createTestRequest(app, "PUT", `${endpointsPath()}/${endpointId}`, {
+        body: {
+          output_schema: {
+            type: "object",
+            properties: { score: { type: "number" } },
+            required: ["score"],
+          },
+        },
+      });
+      expect(updateRes.status).toBe(400);
+
+      const clearRes = await createTestRequest(app, "PUT", `${endpointsPath()}/${endpointId}`, {
+        body: { examples: null },
+      });
+      expect(clearRes.status).toBe(200);
+      expect((await clearRes.json()).data.examples).toBeNull();
+    });
+  });
+
+  describe("Templates", () => {
+    const endpointsPath = () => `/api/v1/users/${userId}/projects/${projectId}/endpoints`;
+    const inputSchema = {
+      type: "object",
+      properties: {
+        customer: { type: "object", properties: { name: { type: "string" } } },
+        items: { type: "array", items: { type: "object", properties: { sku: { type: "string" } } } },
+        vip: { type: "boolean" },
+      },
+    };
+
+    function createTemplated(name: string, instructions: string, context?: string) {
+      return createTestRequest(app, "POST", endpointsPath(), {
+        body: {
+          endpoint_name: name,
+          display_name: name,
+          llm_key_id: keyId,
+          input_schema: inputSchema,
+          instructions,
+          context,
+        },
+      });
+    }
+
+    it("should accept templates that reference input_schema fields", async () => {
+      const res = await createTemplated(
+        "templated",
+        "Reply to {{customer.name}}.{{#vip}} Be extra polite.{{/vip}}",
+        "{{#each items}}- {{sku}}\n{{/each}}"
+      );
+      expect(res.status).toBe(201);
+    });
+
+    it("should reject paths missing from input_schema", async () => {
+      const res = await createTemplated("bad-path", "Reply to {{customer.email}}");
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe(
+        'Template error in instructions: "customer.email" is not defined in input_schema'
+      );
+
+      const loopRes = await createTemplated("bad-loop", "ok", "{{#items}}{{price}}{{/items}}");
+      expect(loopRes.status).toBe(400);
+      expect((await loopRes.json()).error).toContain("Template error in context");
+    });
+
+    it("should reject malformed templates", async () => {
+      const res = await createTemplated("unclosed", "{{#vip}}Be polite");
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe('Template error in instructions: Unclosed section "vip"');
+    });
+
+    it("should re-check templates when input_schema changes", async () => {
+      const createRes = await createTemplated("schema-change", "Reply to {{customer.name}}");
+      const endpointId = (await createRes.json()).data.uuid;
+
+      const updateRes = await createTestRequest(app, "PUT", `${endpointsPath()}/${endpointId}`, {
+        body: { input_schema: { type: "object", properties: { text: { type: "string" } } } },
+      });
+      expect(updateRes.status).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { eq } from "drizzle-orm";
+import {
+  createTestApp,
+  createTestRequest,
+  startMockLlmServer,
+  testUser,
+  type MockLlmServer,
+} from "./utils";
+import { cleanupTestUser, getUserUuid } from "./utils/test-db";
+import { aiJobs, db, initDatabase, projects } from "../src/db";
+import { processNextJob } from "../src/services/jobs";
+import { deliverPendingWebhooks, signWebhookPayload } from "../src/services/webhooks";
+
+interface WebhookReceiver {
+  url: string;
+  received: { body: string; headers: Headers }[];
+  stop: () => void;
+}
+
+/**
+ * Start a server that records webhook deliveries and answers with the given
+ * status
+ */
+function startWebhookReceiver(status = 200): WebhookReceiver {
+  const received: WebhookReceiver["received"] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push({ body: await req.text(), headers: req.headers });
+      return new Response(null, { status });
+    },
+  });
+  return {
+    url: `http://localhost:${server.port}/hooks`,
+    received,
+    stop: () => server.stop(true),
+  };
+}
+
+describe("Async Jobs", () => {
+  const app = createTestApp();
+  const userId = testUser.uid;
+  let projectId: string;
+  let orgPath: string;
+  let authHeaders: Record<string, string>;
+  let mockServer: MockLlmServer;
+
+  const projectName = "jobs-project";
+  const webhookSecret = "whsec-test-secret";
+
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(userId);
+    mockServer = startMockLlmServer([{ label: "positive" }]);
+
+    const keyRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+      body: {
+        key_name: "Mock Server",
+        provider: "llm_server",
+        endpoint_url: mockServer.url,
+      },
+    });
+    const keyId = (await keyRes.json()).data.uuid;
+
+    const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+      body: { project_name: projectName, display_name: "Jobs Project" },
+    });
+    projectId = (await projectRes.json()).data.uuid;
+
+    await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects/${projectId}/endpoints`, {
+      body: {
+        endpoint_name: "classify",
+        display_name: "Classify",
+        http_method: "POST",
+        llm_key_id: keyId,
+        input_schema: {
+          type: "object",
+          properties: { text: { type: "string" } },
+          required: ["text"],
+        },
+      },
+    });
+
+    const tokenRes = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+      { body: { token_name: "Jobs Token" } }
+    );
+    authHeaders = { Authorization: `Bearer ${(await tokenRes.json()).data.token}` };
+
+    const userUuid = await getUserUuid(userId);
+    orgPath = userUuid.replace(/-/g, "").slice(0, 8);
+  });
+
+  afterEach(() => {
+    mockServer.stop();
+  });
+
+  afterAll(async () => {
+    await cleanupTestUser(userId);
+  });
+
+  function submit(path: string, body: unknown, headers: Record<string, string> = {}) {
+    return createTestRequest(app, "POST", `/api/v1/ai/${orgPath}/${projectName}/${path}`, {
+      headers: { ...authHeaders, Prefer: "respond-async", ...headers },
+      body,
+    });
+  }
+
+  async function getJob(jobId: string, headers = authHeaders) {
+    return createTestRequest(app, "GET", `/api/v1/ai/jobs/${jobId}`, { headers });
+  }
+
+  it("should queue the call and run it in the worker", async () => {
+    const res = await submit("classify", { text: "great" });
+    expect(res.status).toBe(202);
+    const { job_id, status } = (await res.json()).data;
+    expect(status).toBe("queued");
+    expect(mockServer.requests.length).toBe(0);
+
+    const queued = await (await getJob(job_id)).json();
+    expect(queued.data.status).toBe("queued");
+
+    const processed = await processNextJob();
+    expect(processed?.uuid).toBe(job_id);
+
+    const done = await (await getJob(job_id)).json();
+    expect(done.data.status).toBe("succeeded");
+    expect(done.data.result.output).toEqual({ label: "positive" });
+    expect(done.data.result.usage.tokens_input).toBe(10);
+    expect(done.data.webhook).toBeNull();
+    expect(await processNextJob()).toBeNull();
+  });
+
+  it("should validate input before queueing", async () => {
+    const res = await submit("classify", { text: 42 });
+    expect(res.status).toBe(422);
+    expect(await processNextJob()).toBeNull();
+  });
+
+  it("should run batches asynchronously", async () => {
+    const res = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/ai/${orgPath}/${projectName}/classify/batch?async=true`,
+      { headers: authHeaders, body: { inputs: [{ text: "a" }, { text: 1 }] } }
+    );
+    expect(res.status).toBe(202);
+    const { job_id } = (await res.json()).data;
+
+    await processNextJob();
+
+    const job = (await (await getJob(job_id)).json()).data;
+    expect(job.kind).toBe("batch");
+    expect(job.status).toBe("succeeded");
+    expect(job.result.usage.succeeded).toBe(1);
+    expect(job.result.results[1].error).toBe("Input does not match input_schema");
+  });
+
+  it("should record failed calls on the job", async () => {
+    mockServer.stop();
+    mockServer = startMockLlmServer([{ label: "positive" }], { status: 400 });
+
+    const keysRes = await createTestRequest(app, "GET", `/api/v1/users/${userId}/keys`);
+    const keyId = (await keysRes.json()).data[0].uuid;
+    await createTestRequest(app, "PUT", `/api/v1/users/${userId}/keys/${keyId}`, {
+      body: { endpoint_url: mockServer.url },
+    });
+
+    const { job_id } = (await (await submit("classify", { text: "great" })).json()).data;
+    await processNextJob();
+
+    const job = (await (await getJob(job_id)).json()).data;
+    expect(job.status).toBe("failed");
+    expect(job.error.error).toContain("LLM processing failed");
+  });
+
+  it("should fail queued jobs once a budget is exhausted", async () => {
+    const single = (await (await submit("classify", { text: "great" })).json()).data;
+    const batch = (
+      await (await submit("classify/batch", { inputs: [{ text: "a" }, { text: "b" }] })).json()
+    ).data;
+
+    // The budget runs out while the jobs wait in the queue
+    await db.update(projects).set({ monthly_budget_cents: 0 }).where(eq(projects.uuid, projectId));
+    await processNextJob();
+    await processNextJob();
+
+    for (const jobId of [single.job_id, batch.job_id]) {
+      const job = (await (await getJob(jobId)).json()).data;
+      expect(job.status).toBe("failed");
+      expect(job.error.error).toBe("Monthly budget exceeded for project");
+    }
+    expect(mockServer.requests.length).toBe(0);
+  });
+
+  it("should reclaim running jobs only when their heartbeat stops", async () => {
+    const { job_id } = (await (await submit("classify", { text: "great" })).json()).data;
+    const hourAgo = new Date(Date.now() - 60 * 60_000);
+
+    // A long-running job with a live heartbeat stays with its worker
+    await db
+      .update(aiJobs)
+      .set({ status: "running", attempts: 1, started_at: hourAgo, heartbeat_at: new Date() })
+      .where(eq(aiJobs.uuid, job_id));
+    expect(await processNextJob()).toBeNull();
+
+    await db.update(aiJobs).set({ heartbeat_at: hourAgo }).where(eq(aiJobs.uuid, job_id));
+    const reclaimed = await processNextJob();
+    expect(reclaimed?.uuid).toBe(job_id);
+    expect(reclaimed?.status).toBe("succeeded");
+    expect(reclaimed?.attempts).toBe(2);
+  });
+
+  it("should deliver a signed webhook on completion", async () => {
+    const receiver = startWebhookReceiver();
+    try {
+      const res = await submit(
+        "classify",
+        { text: "great" },
+        { "X-Webhook-Url": receiver.url, "X-Webhook-Secret": webhookSecret }
+      );
+      const { job_id } = (await res.json()).data;
+
+      await processNextJob();
+      expect(await deliverPendingWebhooks()).toBe(1);
+
+      expect(receiver.received.length).toBe(1);
+      const [delivery] = receiver.received;
+      expect(delivery!.headers.get("X-Webhook-Signature")).toBe(
+        signWebhookPayload(webhookSecret, delivery!.body)
+      );
+      const payload = JSON.parse(delivery!.body);
+      expect(payload.job_id).toBe(job_id);
+      expect(payload.status).toBe("succeeded");
+      expect(payload.result.output).toEqual({ label: "positive" });
+
+      const job = (await (await getJob(job_id)).json()).data;
+      expect(job.webhook.status).toBe("delivered");
+      expect(job.webhook.deliveries).toHaveLength(1);
+      expect(job.webhook.deliveries[0].status_code).toBe(200);
+      expect(JSON.stringify(job)).not.toContain(webhookSecret);
+    } finally {
+      receiver.stop();
+    }
+  });
+
+  it("should schedule a retry when the webhook fails", async () => {
+    const receiver = startWebhookReceiver(500);
+    try {
+      const res = await submit(
+        "classify",
+        { text: "great" },
+        { "X-Webhook-Url": receiver.url, "X-Webhook-Secret": webhookSecret }
+      );
+      const { job_id } = (await res.json()).data;
+
+      await processNextJob();
+      expect(await deliverPendingWebhooks()).toBe(1);
+      // The retry is not due yet
+      expect(await deliverPendingWebhooks()).toBe(0);
+
+      const job = (await (await getJob(job_id)).json()).data;
+      expect(job.webhook.status).toBe("pending");
+      expect(job.webhook.attempts).toBe(1);
+      expect(job.webhook.deliveries[0].status_code).toBe(500);
+      expect(job.webhook.deliveries[0].error).toContain("HTTP 500");
+    } finally {
+      receiver.stop();
+    }
+  });
+
+  it("should reject invalid webhook settings", async () => {
+    const noSecret = await submit("classify", { text: "great" }, { "X-Webhook-Url": "https://example.com/hook" });
+    expect(noSecret.status).toBe(400);
+
+    const badUrl = await submit(
+      "classify",
+      { text: "great" },
+      { "X-Webhook-Url": "ftp://example.com", "X-Webhook-Secret": webhookSecret }
+    );
+    expect(badUrl.status).toBe(400);
+  });
+
+  it("should reject webhook URLs for internal addresses", async () => {
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data",
+      "http://10.0.0.5/hook",
+      "http://192.168.1.1/hook",
+      "http://[fd00:ec2::254]/hook",
+      "http://[::ffff:169.254.169.254]/hook",
+    ]) {
+      const res = await submit(
+        "classify",
+        { text: "great" },
+        { "X-Webhook-Url": url, "X-Webhook-Secret": webhookSecret }
+      );
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it("should not deliver to a URL that no longer passes the check", async () => {
+    const receiver = startWebhookReceiver();
+    try {
+      const res = await submit(
+        "classify",
+        { text: "great" },
+        { "X-Webhook-Url": receiver.url, "X-Webhook-Secret": webhookSecret }
+      );
+      const { job_id } = (await res.json()).data;
+      await db
+        .update(aiJobs)
+        .set({ webhook_url: "http://169.254.169.254/latest/meta-data" })
+        .where(eq(aiJobs.uuid, job_id));
+
+      await processNextJob();
+      expect(await deliverPendingWebhooks()).toBe(1);
+
+      const job = (await (await getJob(job_id)).json()).data;
+      expect(job.webhook.status).toBe("failed");
+      expect(job.webhook.deliveries[0].status_code).toBeNull();
+      expect(job.webhook.deliveries[0].error).toBe("Webhook URL is not allowed");
+    } finally {
+      receiver.stop();
+    }
+  });
+
+  it("should require a project token to read jobs of private endpoints", async () => {
+    const { job_id } = (await (await submit("classify", { text: "great" })).json()).data;
+
+    expect((await getJob(job_id, {})).status).toBe(401);
+
+    const missing = await getJob("00000000-0000-0000-0000-000000000000");
+    expect(missing.status).toBe(404);
+  });
+});
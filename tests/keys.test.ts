@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
-import { createTestApp, createTestRequest, testUser } from "./utils";
+import { createTestApp, createTestRequest, startMockLlmServer, testUser } from "./utils";
 import { cleanupTestUser, getTestUser, createTestLlmKey } from "./utils/test-db";
 import { initDatabase } from "../src/db";
 
@@ -98,6 +98,87 @@ describe("Keys Routes", () => {
       expect(json.data.is_active).toBe(true);
     });
 
+    it("should store custom headers for llm_server without returning them", async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Gateway",
+          provider: "llm_server",
+          endpoint_url: "http://localhost:4000/v1",
+          api_key: "sk-litellm",
+          custom_headers: { "X-Tenant": "acme-secret-tenant" },
+        },
+      });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.data.has_api_key).toBe(true);
+      expect(json.data.has_custom_headers).toBe(true);
+      expect(JSON.stringify(json.data)).not.toContain("acme-secret-tenant");
+    });
+
+    it("should reject invalid or misplaced custom headers", async () => {
+      const bodies = [
+        { provider: "openai", api_key: "sk-test", custom_headers: { "X-Tenant": "acme" } },
+        { provider: "llm_server", endpoint_url: "http://localhost:4000/v1", custom_headers: { Host: "evil" } },
+        { provider: "llm_server", endpoint_url: "http://localhost:4000/v1", custom_headers: { "Bad Name": "x" } },
+        { provider: "llm_server", endpoint_url: "http://localhost:4000/v1", custom_headers: { "X-A": "a\r\nX-B: b" } },
+      ];
+
+      for (const body of bodies) {
+        const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+          body: { key_name: "Bad Headers", ...body },
+        });
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it("should store a request template and response mapping for llm_server", async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "In-house",
+          provider: "llm_server",
+          endpoint_url: "http://localhost:9000/infer",
+          request_template: { text: "{{prompt}}", options: { schema: "{{output_schema}}" } },
+          response_mapping: { content: "$.result.outputs[0]", total_tokens: "usage.total" },
+        },
+      });
+
+      expect(res.status).toBe(201);
+      const json = await res.json();
+      expect(json.data.request_template.text).toBe("{{prompt}}");
+      expect(json.data.response_mapping.content).toBe("$.result.outputs[0]");
+    });
+
+    it("should reject invalid request templates and response mappings", async () => {
+      const bodies = [
+        { request_template: { text: "{{promt}}" } },
+        { response_mapping: { content: "$..outputs" } },
+        { response_mapping: { prompt_tokens: "$.usage.in" } },
+      ];
+
+      for (const body of bodies) {
+        const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+          body: {
+            key_name: "In-house",
+            provider: "llm_server",
+            endpoint_url: "http://localhost:9000/infer",
+            ...body,
+          },
+        });
+        expect(res.status).toBe(400);
+      }
+
+      const openaiRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "OpenAI",
+          provider: "openai",
+          api_key: "sk-test",
+          response_mapping: { content: "$.text" },
+        },
+      });
+      expect(openaiRes.status).toBe(400);
+    });
+
     it("should create a new key with endpoint URL for llm_server", async () => {
       const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
         body: {
@@ -115,6 +196,71 @@ describe("Keys Routes", () => {
       expect(json.data.endpoint_url).toBe("http://localhost:8080/generate");
     });
 
+    it("should create an azure_openai key with its deployment", async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Azure",
+          provider: "azure_openai",
+          api_key: "azure-key",
+          endpoint_url: "https://contoso.openai.azure.com",
+          deployment_name: "gpt4o-prod",
+          api_version: "2024-10-21",
+        },
+      });
+
+      expect(res.status).toBe(201);
+
+      const json = await res.json();
+      expect(json.data.provider).toBe("azure_openai");
+      expect(json.data.deployment_name).toBe("gpt4o-prod");
+      expect(json.data.api_version).toBe("2024-10-21");
+      expect(json.data.has_api_key).toBe(true);
+    });
+
+    it("should require the resource endpoint and deployment for azure_openai", async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Azure",
+          provider: "azure_openai",
+          api_key: "azure-key",
+          endpoint_url: "https://contoso.openai.azure.com",
+        },
+      });
+
+      expect(res.status).toBe(400);
+    });
+
+    it("should store retry policy settings", async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Patient Key",
+          provider: "openai",
+          api_key: "sk-test-key-123",
+          max_retries: 4,
+          timeout_ms: 30000,
+        },
+      });
+
+      expect(res.status).toBe(201);
+
+      const json = await res.json();
+      expect(json.data.max_retries).toBe(4);
+      expect(json.data.timeout_ms).toBe(30000);
+    });
+
+    it("should reject out-of-range retry settings", async () => {
+      const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Impatient Key",
+          provider: "openai",
+          api_key: "sk-test-key-123",
+          max_retries: 50,
+        },
+      });
+
+      expect(res.status).toBe(400);
+    });
+
     it("should reject invalid provider", async () => {
       const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
         body: {
@@ -171,6 +317,49 @@ describe("Keys Routes", () => {
     });
   });
 
+  describe("GET /api/v1/users/:userId/keys/:keyId/models", () => {
+    it("should list the models pulled onto an ollama server", async () => {
+      const mockServer = startMockLlmServer([{}], { models: ["llama3.1:latest", "qwen2.5:7b"] });
+      try {
+        const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+          body: { key_name: "Ollama", provider: "ollama", endpoint_url: mockServer.url },
+        });
+        expect(createRes.status).toBe(201);
+        const keyId = (await createRes.json()).data.uuid;
+
+        const res = await createTestRequest(app, "GET", `/api/v1/users/${userId}/keys/${keyId}/models`);
+        expect(res.status).toBe(200);
+
+        const models = (await res.json()).data as { name: string; parameter_size: string | null }[];
+        expect(models.map(model => model.name)).toEqual(["llama3.1:latest", "qwen2.5:7b"]);
+        expect(models[0]!.parameter_size).toBe("8.0B");
+        expect(mockServer.urls[0]).toBe("/v1/api/tags");
+      } finally {
+        mockServer.stop();
+      }
+    });
+
+    it("should return 502 when the server cannot be reached", async () => {
+      const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: { key_name: "Ollama", provider: "ollama", endpoint_url: "http://localhost:1" },
+      });
+      const keyId = (await createRes.json()).data.uuid;
+
+      const res = await createTestRequest(app, "GET", `/api/v1/users/${userId}/keys/${keyId}/models`);
+      expect(res.status).toBe(502);
+    });
+
+    it("should reject keys for other providers", async () => {
+      const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: { key_name: "OpenAI", provider: "openai", api_key: "sk-test" },
+      });
+      const keyId = (await createRes.json()).data.uuid;
+
+      const res = await createTestRequest(app, "GET", `/api/v1/users/${userId}/keys/${keyId}/models`);
+      expect(res.status).toBe(400);
+    });
+  });
+
   describe("PUT /api/v1/users/:userId/keys/:keyId", () => {
     it("should update key name", async () => {
       // Create key first
@@ -219,6 +408,73 @@ describe("Keys Routes", () => {
       expect(json.data.has_api_key).toBe(true);
     });
 
+    it("should replace and clear custom headers", async () => {
+      const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "Gateway",
+          provider: "llm_server",
+          endpoint_url: "http://localhost:4000/v1",
+        },
+      });
+      const keyId = (await createRes.json()).data.uuid;
+      const keyPath = `/api/v1/users/${userId}/keys/${keyId}`;
+
+      const setRes = await createTestRequest(app, "PUT", keyPath, {
+        body: { custom_headers: { "X-Tenant": "acme" } },
+      });
+      expect(setRes.status).toBe(200);
+      expect((await setRes.json()).data.has_custom_headers).toBe(true);
+
+      const renameRes = await createTestRequest(app, "PUT", keyPath, {
+        body: { key_name: "Renamed" },
+      });
+      expect((await renameRes.json()).data.has_custom_headers).toBe(true);
+
+      const clearRes = await createTestRequest(app, "PUT", keyPath, {
+        body: { custom_headers: null },
+      });
+      expect((await clearRes.json()).data.has_custom_headers).toBe(false);
+    });
+
+    it("should update and clear the request template", async () => {
+      const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: {
+          key_name: "In-house",
+          provider: "llm_server",
+          endpoint_url: "http://localhost:9000/infer",
+        },
+      });
+      const keyId = (await createRes.json()).data.uuid;
+      const keyPath = `/api/v1/users/${userId}/keys/${keyId}`;
+
+      const badRes = await createTestRequest(app, "PUT", keyPath, {
+        body: { request_template: { text: "{{unknown}}" } },
+      });
+      expect(badRes.status).toBe(400);
+
+      const setRes = await createTestRequest(app, "PUT", keyPath, {
+        body: { request_template: { text: "{{prompt}}" } },
+      });
+      expect((await setRes.json()).data.request_template).toEqual({ text: "{{prompt}}" });
+
+      const clearRes = await createTestRequest(app, "PUT", keyPath, {
+        body: { request_template: null },
+      });
+      expect((await clearRes.json()).data.request_template).toBeNull();
+    });
+
+    it("should reject custom headers on keys for other providers", async () => {
+      const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+        body: { key_name: "OpenAI", provider: "openai", api_key: "sk-test" },
+      });
+      const keyId = (await createRes.json()).data.uuid;
+
+      const res = await createTestRequest(app, "PUT", `/api/v1/users/${userId}/keys/${keyId}`, {
+        body: { custom_headers: { "X-Tenant": "acme" } },
+      });
+      expect(res.status).toBe(400);
+    });
+
     it("should deactivate key", async () => {
       // Create key first
       const createRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
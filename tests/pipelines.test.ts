@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { eq } from "drizzle-orm";
+import {
+  createTestApp,
+  createTestRequest,
+  startMockLlmServer,
+  testUser,
+  type MockLlmServer,
+} from "./utils";
+import { cleanupTestUser, getUserUuid } from "./utils/test-db";
+import { db, initDatabase, usageAnalytics } from "../src/db";
+
+interface StepResult {
+  status: "succeeded" | "failed" | "skipped";
+  output?: unknown;
+  error?: { error: string };
+}
+
+describe("Pipelines", () => {
+  const app = createTestApp();
+  const userId = testUser.uid;
+  let projectId: string;
+  let orgPath: string;
+  let authHeaders: Record<string, string>;
+  let extractServer: MockLlmServer;
+  let summarizeServer: MockLlmServer;
+  let extractId: string;
+  let summarizeId: string;
+
+  const projectName = "pipelines-project";
+
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  async function createKey(name: string, server: MockLlmServer) {
+    const res = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+      body: { key_name: name, provider: "llm_server", endpoint_url: server.url },
+    });
+    return (await res.json()).data.uuid as string;
+  }
+
+  async function createEndpoint(name: string, keyId: string, inputSchema: unknown) {
+    const res = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+      {
+        body: {
+          endpoint_name: name,
+          display_name: name,
+          http_method: "POST",
+          llm_key_id: keyId,
+          input_schema: inputSchema,
+        },
+      }
+    );
+    return (await res.json()).data.uuid as string;
+  }
+
+  beforeEach(async () => {
+    await cleanupTestUser(userId);
+    extractServer = startMockLlmServer([{ topic: "billing", urgent: true }]);
+    summarizeServer = startMockLlmServer([{ summary: "Urgent billing issue" }]);
+
+    const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+      body: { project_name: projectName, display_name: "Pipelines Project" },
+    });
+    projectId = (await projectRes.json()).data.uuid;
+
+    extractId = await createEndpoint("extract", await createKey("Extract", extractServer), {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    });
+    summarizeId = await createEndpoint(
+      "summarize",
+      await createKey("Summarize", summarizeServer),
+      {
+        type: "object",
+        properties: { topic: { type: "string" }, tone: { type: "string" } },
+        required: ["topic"],
+      }
+    );
+
+    const tokenRes = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+      { body: { token_name: "Pipelines Token" } }
+    );
+    authHeaders = { Authorization: `Bearer ${(await tokenRes.json()).data.token}` };
+
+    const userUuid = await getUserUuid(userId);
+    orgPath = userUuid.replace(/-/g, "").slice(0, 8);
+  });
+
+  afterEach(() => {
+    extractServer.stop();
+    summarizeServer.stop();
+  });
+
+  afterAll(async () => {
+    await cleanupTestUser(userId);
+  });
+
+  function createPipeline(body: Record<string, unknown>) {
+    return createTestRequest(app, "POST", `/api/v1/users/${userId}/projects/${projectId}/pipelines`, {
+      body: { pipeline_name: "triage", display_name: "Triage", ...body },
+    });
+  }
+
+  function chainSteps() {
+    return [
+      { id: "extract", endpoint_id: extractId, input: { text: "input.message" } },
+      {
+        id: "summarize",
+        endpoint_id: summarizeId,
+        input: { topic: "steps.extract.topic", tone: { const: "formal" } },
+      },
+    ];
+  }
+
+  function runPipeline(body: unknown, headers = authHeaders) {
+    return createTestRequest(app, "POST", `/api/v1/ai/pipelines/${orgPath}/${projectName}/triage`, {
+      headers,
+      body,
+    });
+  }
+
+  describe("Definitions", () => {
+    it("should create, update and delete a pipeline", async () => {
+      const res = await createPipeline({ steps: chainSteps() });
+      expect(res.status).toBe(201);
+      const pipeline = (await res.json()).data;
+      expect(pipeline.steps).toHaveLength(2);
+      expect(pipeline.is_public).toBe(false);
+
+      const base = `/api/v1/users/${userId}/projects/${projectId}/pipelines`;
+      const updateRes = await createTestRequest(app, "PUT", `${base}/${pipeline.uuid}`, {
+        body: { steps: chainSteps().slice(0, 1), is_public: true },
+      });
+      expect(updateRes.status).toBe(200);
+      const updated = (await updateRes.json()).data;
+      expect(updated.steps).toHaveLength(1);
+      expect(updated.is_public).toBe(true);
+      expect(updated.display_name).toBe("Triage");
+
+      const listRes = await createTestRequest(app, "GET", base);
+      expect((await listRes.json()).data).toHaveLength(1);
+
+      const deleteRes = await createTestRequest(app, "DELETE", `${base}/${pipeline.uuid}`);
+      expect(deleteRes.status).toBe(200);
+      const getRes = await createTestRequest(app, "GET", `${base}/${pipeline.uuid}`);
+      expect(getRes.status).toBe(404);
+    });
+
+    it("should reject duplicate pipeline names", async () => {
+      await createPipeline({ steps: chainSteps() });
+      const res = await createPipeline({ steps: chainSteps() });
+      expect(res.status).toBe(409);
+    });
+
+    it("should reject endpoints outside the project", async () => {
+      const res = await createPipeline({
+        steps: [{ id: "a", endpoint_id: "00000000-0000-0000-0000-000000000000" }],
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("not found in this project");
+    });
+
+    it("should reject references to unknown steps", async () => {
+      const res = await createPipeline({
+        steps: [{ id: "a", endpoint_id: extractId, input: { text: "steps.missing.text" } }],
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('references unknown step "missing"');
+    });
+
+    it("should reject duplicate step ids", async () => {
+      const res = await createPipeline({
+        steps: [
+          { id: "a", endpoint_id: extractId },
+          { id: "a", endpoint_id: summarizeId },
+        ],
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain('Duplicate step id "a"');
+    });
+
+    it("should reject cycles", async () => {
+      const res = await createPipeline({
+        steps: [
+          { id: "a", endpoint_id: extractId, input: { text: "steps.b.summary" } },
+          { id: "b", endpoint_id: summarizeId, input: { topic: "steps.a.topic" } },
+        ],
+      });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("form a cycle");
+    });
+
+    it("should reject malformed field sources", async () => {
+      const res = await createPipeline({
+        steps: [{ id: "a", endpoint_id: extractId, input: { text: "output.text" } }],
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("Execution", () => {
+    it("should feed step outputs into later steps", async () => {
+      await createPipeline({ steps: chainSteps() });
+
+      const res = await runPipeline({ message: "I was charged twice!" });
+      expect(res.status).toBe(200);
+      const data = (await res.json()).data as {
+        output: unknown;
+        steps: StepResult[];
+        usage: { tokens_input: number; tokens_output: number };
+      };
+      expect(data.output).toEqual({ summary: "Urgent billing issue" });
+      expect(data.steps.map(step => step.status)).toEqual(["succeeded", "succeeded"]);
+      expect(data.steps[0]!.output).toEqual({ topic: "billing", urgent: true });
+      expect(data.usage.tokens_input).toBe(20);
+      expect(data.usage.tokens_output).toBe(10);
+
+      expect(JSON.stringify(extractServer.requests[0])).toContain("I was charged twice!");
+      const summarizeRequest = JSON.stringify(summarizeServer.requests[0]);
+      expect(summarizeRequest).toContain("billing");
+      expect(summarizeRequest).toContain("formal");
+
+      const rows = await db.select().from(usageAnalytics).where(eq(usageAnalytics.endpoint_id, summarizeId));
+      expect(rows).toHaveLength(1);
+      const metadata = rows[0]!.request_metadata as Record<string, unknown>;
+      expect(metadata.pipeline_step).toBe("summarize");
+    });
+
+    it("should skip steps that depend on a failed step", async () => {
+      extractServer.stop();
+      extractServer = startMockLlmServer([{}], { status: 400 });
+      const keysRes = await createTestRequest(app, "GET", `/api/v1/users/${userId}/keys`);
+      const keys = (await keysRes.json()).data as { uuid: string; key_name: string }[];
+      const extractKey = keys.find(key => key.key_name === "Extract")!;
+      await createTestRequest(app, "PUT", `/api/v1/users/${userId}/keys/${extractKey.uuid}`, {
+        body: { endpoint_url: extractServer.url },
+      });
+      await createPipeline({ steps: chainSteps() });
+
+      const res = await runPipeline({ message: "I was charged twice!" });
+      expect(res.status).toBe(500);
+      const body = (await res.json()) as { error: string; steps: StepResult[] };
+      expect(body.error).toBe('Pipeline step "extract" failed');
+      expect(body.steps.map(step => step.status)).toEqual(["failed", "skipped"]);
+      expect(summarizeServer.requests).toHaveLength(0);
+    });
+
+    it("should report step input validation failures", async () => {
+      await createPipeline({ steps: chainSteps() });
+
+      const res = await runPipeline({ body: "no message field" });
+      expect(res.status).toBe(500);
+      const body = (await res.json()) as { steps: StepResult[] };
+      expect(body.steps[0]!.error!.error).toBe("Input does not match input_schema");
+      expect(extractServer.requests).toHaveLength(0);
+    });
+
+    it("should require a project token unless the pipeline is public", async () => {
+      await createPipeline({ steps: chainSteps() });
+      const res = await runPipeline({ message: "hi" }, {});
+      expect(res.status).toBe(401);
+
+      await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects/${projectId}/pipelines`, {
+        body: { pipeline_name: "open", display_name: "Open", steps: chainSteps(), is_public: true },
+      });
+      const publicRes = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/ai/pipelines/${orgPath}/${projectName}/open`,
+        { body: { message: "hi" } }
+      );
+      expect(publicRes.status).toBe(200);
+    });
+
+    it("should return 404 for unknown pipelines", async () => {
+      const res = await runPipeline({ message: "hi" });
+      expect(res.status).toBe(404);
+    });
+
+    it("should not allow organization paths that collide with pipeline and job routes", async () => {
+      for (const path of ["pipelines", "jobs"]) {
+        const res = await createTestRequest(app, "PUT", `/api/v1/users/${userId}/settings`, {
+          body: { organization_path: path },
+        });
+        expect(res.status).toBe(400);
+      }
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { eq } from "drizzle-orm";
+import {
+  createTestApp,
+  createTestRequest,
+  startMockLlmServer,
+  testUser,
+  type MockLlmServer,
+} from "./utils";
+import { cleanupTestUser, getUserUuid } from "./utils/test-db";
+import { db, initDatabase, requestLogs } from "../src/db";
+import { purgeExpiredRequestLogs } from "../src/services/request-logs";
+
+interface RequestLog {
+  uuid: string;
+  analytics_id: string | null;
+  success: boolean;
+  input: Record<string, unknown>;
+  system_prompt: string | null;
+  user_prompt: string | null;
+  raw_response: string | null;
+  output: unknown;
+  error_message: string | null;
+}
+
+interface RequestLogPage {
+  logs: RequestLog[];
+  pagination: { page: number; limit: number; total: number };
+}
+
+describe("Request Logs", () => {
+  const app = createTestApp();
+  const userId = testUser.uid;
+  let mockServer: MockLlmServer;
+  let keyId: string;
+  let projectId: string;
+  let orgPath: string;
+  let authHeaders: Record<string, string>;
+
+  const projectName = "logs-project";
+
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(userId);
+    mockServer = startMockLlmServer([{ reply: "Thanks Alice, ticket opened" }]);
+
+    const keyRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+      body: { key_name: "Mock Server", provider: "llm_server", endpoint_url: mockServer.url },
+    });
+    keyId = (await keyRes.json()).data.uuid;
+
+    const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+      body: { project_name: projectName, display_name: "Logs Project" },
+    });
+    projectId = (await projectRes.json()).data.uuid;
+
+    const tokenRes = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+      { body: { token_name: "Logs Token" } }
+    );
+    authHeaders = { Authorization: `Bearer ${(await tokenRes.json()).data.token}` };
+
+    const userUuid = await getUserUuid(userId);
+    orgPath = userUuid.replace(/-/g, "").slice(0, 8);
+  });
+
+  afterEach(() => {
+    mockServer.stop();
+  });
+
+  afterAll(async () => {
+    await cleanupTestUser(userId);
+  });
+
+  async function createEndpoint(name: string, extra: Record<string, unknown> = {}) {
+    const res = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+      {
+        body: {
+          endpoint_name: name,
+          display_name: name,
+          http_method: "POST",
+          llm_key_id: keyId,
+          input_schema: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              message: { type: "string" },
+              card: { type: "object", properties: { number: { type: "string" } } },
+            },
+            required: ["message"],
+          },
+          ...extra,
+        },
+      }
+    );
+    expect(res.status).toBe(201);
+    return (await res.json()).data.uuid as string;
+  }
+
+  function callEndpoint(name: string, body: Record<string, unknown>) {
+    return createTestRequest(app, "POST", `/api/v1/ai/${orgPath}/${projectName}/${name}`, {
+      body,
+      headers: authHeaders,
+    });
+  }
+
+  function logsPath(endpointId: string) {
+    return `/api/v1/users/${userId}/projects/${projectId}/endpoints/${endpointId}/logs`;
+  }
+
+  async function listLogs(endpointId: string, query = ""): Promise<RequestLogPage> {
+    const res = await createTestRequest(app, "GET", `${logsPath(endpointId)}${query}`);
+    expect(res.status).toBe(200);
+    return (await res.json()).data;
+  }
+
+  describe("Logging", () => {
+    it("should not log payloads unless enabled", async () => {
+      const endpointId = await createEndpoint("support");
+
+      const res = await callEndpoint("support", { message: "Help" });
+      expect(res.status).toBe(200);
+
+      const data = await listLogs(endpointId);
+      expect(data.logs).toHaveLength(0);
+      expect(data.pagination.total).toBe(0);
+    });
+
+    it("should log input, prompts, raw response and output", async () => {
+      const endpointId = await createEndpoint("support", {
+        log_payloads: true,
+        instructions: "Reply to the customer",
+      });
+
+      await callEndpoint("support", { message: "My order is late" });
+
+      const data = await listLogs(endpointId);
+      expect(data.logs).toHaveLength(1);
+      const log = data.logs[0];
+      expect(log.success).toBe(true);
+      expect(log.analytics_id).toBeTruthy();
+      expect(log.input).toEqual({ message: "My order is late" });
+      expect(log.system_prompt).toContain("Reply to the customer");
+      expect(log.user_prompt).toContain("My order is late");
+      expect(log.raw_response).toContain("ticket opened");
+      expect(log.output).toEqual({ reply: "Thanks Alice, ticket opened" });
+
+      const detailRes = await createTestRequest(app, "GET", `${logsPath(endpointId)}/${log.uuid}`);
+      expect(detailRes.status).toBe(200);
+      expect((await detailRes.json()).data.uuid).toBe(log.uuid);
+    });
+
+    it("should log failed calls with the error", async () => {
+      mockServer.stop();
+      mockServer = startMockLlmServer([{}], { status: 400 });
+      await createTestRequest(app, "PUT", `/api/v1/users/${userId}/keys/${keyId}`, {
+        body: { endpoint_url: mockServer.url },
+      });
+      const endpointId = await createEndpoint("support", { log_payloads: true, max_retries: 0 });
+
+      const res = await callEndpoint("support", { message: "Help" });
+      expect(res.status).toBe(500);
+
+      const data = await listLogs(endpointId);
+      expect(data.logs).toHaveLength(1);
+      expect(data.logs[0].success).toBe(false);
+      expect(data.logs[0].error_message).toBeTruthy();
+      expect(data.logs[0].output).toBeNull();
+    });
+
+    it("should redact configured fields everywhere they appear", async () => {
+      const endpointId = await createEndpoint("support", {
+        log_payloads: true,
+        log_redact_fields: ["name", "card.*", "reply"],
+      });
+
+      await callEndpoint("support", {
+        name: "Alice",
+        message: "Charge my card",
+        card: { number: "4111111111111111" },
+      });
+
+      const log = (await listLogs(endpointId)).logs[0];
+      expect(log.input).toEqual({
+        name: "[REDACTED]",
+        message: "Charge my card",
+        card: { number: "[REDACTED]" },
+      });
+      expect(log.output).toEqual({ reply: "[REDACTED]" });
+      expect(log.user_prompt).not.toContain("Alice");
+      expect(log.user_prompt).not.toContain("4111111111111111");
+      expect(log.user_prompt).toContain("Charge my card");
+      expect(log.raw_response).not.toContain("ticket opened");
+    });
+
+    it("should scrub every value inside a redacted object from the prompts", async () => {
+      const endpointId = await createEndpoint("support", {
+        log_payloads: true,
+        log_redact_fields: ["card"],
+        instructions: "Card on file: {{card.number}}",
+      });
+
+      await callEndpoint("support", {
+        message: "Charge my card",
+        card: { number: "4111111111111111" },
+      });
+
+      const log = (await listLogs(endpointId)).logs[0];
+      expect(log.input.card).toBe("[REDACTED]");
+      expect(log.user_prompt).not.toContain("4111111111111111");
+      expect(log.system_prompt).not.toContain("4111111111111111");
+      expect(log.user_prompt).toContain("Charge my card");
+    });
+
+    it("should reject invalid logging settings", async () => {
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+        {
+          body: {
+            endpoint_name: "bad",
+            display_name: "Bad",
+            llm_key_id: keyId,
+            log_retention_days: 0,
+            log_redact_fields: ["card..number"],
+          },
+        }
+      );
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("Browsing", () => {
+    it("should paginate newest first and filter by search and status", async () => {
+      const endpointId = await createEndpoint("support", { log_payloads: true });
+      for (const message of ["first 100%", "second", "third"]) {
+        await callEndpoint("support", { message });
+      }
+
+      const page1 = await listLogs(endpointId, "?limit=2");
+      expect(page1.pagination).toEqual({ page: 1, limit: 2, total: 3 });
+      expect(page1.logs.map(log => log.input.message)).toEqual(["third", "second"]);
+
+      const page2 = await listLogs(endpointId, "?limit=2&page=2");
+      expect(page2.logs.map(log => log.input.message)).toEqual(["first 100%"]);
+
+      const search = await listLogs(endpointId, "?q=SECOND");
+      expect(search.pagination.total).toBe(1);
+
+      // LIKE wildcards in the search match literally
+      const literal = await listLogs(endpointId, `?q=${encodeURIComponent("0%")}`);
+      expect(literal.pagination.total).toBe(1);
+
+      const failed = await listLogs(endpointId, "?success=false");
+      expect(failed.pagination.total).toBe(0);
+    });
+
+    it("should return 404 for an unknown log", async () => {
+      const endpointId = await createEndpoint("support", { log_payloads: true });
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `${logsPath(endpointId)}/00000000-0000-0000-0000-000000000000`
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("Retention", () => {
+    it("should purge logs older than the endpoint's retention window", async () => {
+      const defaultId = await createEndpoint("default-retention", { log_payloads: true });
+      const longId = await createEndpoint("long-retention", {
+        log_payloads: true,
+        log_retention_days: 90,
+      });
+
+      const fortyDaysAgo = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+      await db.insert(requestLogs).values([
+        { endpoint_id: defaultId, success: true, created_at: fortyDaysAgo },
+        { endpoint_id: defaultId, success: true },
+        { endpoint_id: longId, success: true, created_at: fortyDaysAgo },
+      ]);
+
+      expect(await purgeExpiredRequestLogs()).toBeGreaterThanOrEqual(1);
+
+      const remainingDefault = await db
+        .select()
+        .from(requestLogs)
+        .where(eq(requestLogs.endpoint_id, defaultId));
+      expect(remainingDefault).toHaveLength(1);
+      expect(remainingDefault[0]!.created_at.getTime()).toBeGreaterThan(fortyDaysAgo.getTime());
+
+      const remainingLong = await db
+        .select()
+        .from(requestLogs)
+        .where(eq(requestLogs.endpoint_id, longId));
+      expect(remainingLong).toHaveLength(1);
+    });
+  });
+});
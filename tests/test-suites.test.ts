@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import {
+  createTestApp,
+  createTestRequest,
+  startMockLlmServer,
+  testUser,
+  type MockLlmServer,
+} from "./utils";
+import { cleanupTestUser } from "./utils/test-db";
+import { eq } from "drizzle-orm";
+import { db, initDatabase, llmApiKeys, usageAnalytics } from "../src/db";
+
+describe("Test Suite Routes", () => {
+  const app = createTestApp();
+  const userId = testUser.uid;
+  let mockServer: MockLlmServer;
+  let projectId: string;
+  let keyId: string;
+  let endpointPath: string;
+  let testsPath: string;
+
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(userId);
+    mockServer = startMockLlmServer([{ label: "positive", score: 0.92, tags: ["happy", "short"] }]);
+
+    const keyRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/keys`, {
+      body: { key_name: "Mock Server", provider: "llm_server", endpoint_url: mockServer.url },
+    });
+    keyId = (await keyRes.json()).data.uuid;
+
+    const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+      body: { project_name: "test-project", display_name: "Test Project" },
+    });
+    projectId = (await projectRes.json()).data.uuid;
+
+    const endpointRes = await createTestRequest(
+      app,
+      "POST",
+      `/api/v1/users/${userId}/projects/${projectId}/endpoints`,
+      {
+        body: {
+          endpoint_name: "sentiment",
+          display_name: "Sentiment",
+          llm_key_id: keyId,
+          instructions: "Classify the sentiment",
+          input_schema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+        },
+      }
+    );
+    const endpointId = (await endpointRes.json()).data.uuid;
+    endpointPath = `/api/v1/users/${userId}/projects/${projectId}/endpoints/${endpointId}`;
+    testsPath = `${endpointPath}/tests`;
+  });
+
+  afterEach(() => {
+    mockServer.stop();
+  });
+
+  afterAll(async () => {
+    await cleanupTestUser(userId);
+  });
+
+  function createCase(body: Record<string, unknown>) {
+    return createTestRequest(app, "POST", `${testsPath}/cases`, { body });
+  }
+
+  describe("Test cases", () => {
+    it("should create, list, update and delete test cases", async () => {
+      const createRes = await createCase({
+        name: "Happy path",
+        input: { text: "I love it" },
+        assertions: [{ path: "label", op: "equals", value: "positive" }],
+      });
+      expect(createRes.status).toBe(201);
+      const caseId = (await createRes.json()).data.uuid;
+
+      const listRes = await createTestRequest(app, "GET", `${testsPath}/cases`);
+      expect((await listRes.json()).data).toHaveLength(1);
+
+      const updateRes = await createTestRequest(app, "PUT", `${testsPath}/cases/${caseId}`, {
+        body: { name: "Renamed", assertions: null },
+      });
+      const updated = (await updateRes.json()).data;
+      expect(updated.name).toBe("Renamed");
+      expect(updated.assertions).toBeNull();
+      expect(updated.input).toEqual({ text: "I love it" });
+
+      const deleteRes = await createTestRequest(app, "DELETE", `${testsPath}/cases/${caseId}`);
+      expect(deleteRes.status).toBe(200);
+    });
+
+    it("should reject invalid assertions", async () => {
+      const badOp = await createCase({
+        name: "Bad op",
+        input: { text: "x" },
+        assertions: [{ path: "label", op: "startsWith", value: "p" }],
+      });
+      expect(badOp.status).toBe(400);
+
+      const badRegex = await createCase({
+        name: "Bad regex",
+        input: { text: "x" },
+        assertions: [{ path: "label", op: "regex", value: "(" }],
+      });
+      expect(badRegex.status).toBe(400);
+    });
+
+    it("should return 404 for an unknown endpoint", async () => {
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/projects/${projectId}/endpoints/00000000-0000-0000-0000-000000000000/tests/cases`
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("Test runs", () => {
+    it("should run every case and store a report", async () => {
+      await createCase({
+        name: "Golden output",
+        input: { text: "I love it" },
+        expected_output: { tags: ["happy", "short"], score: 0.92, label: "positive" },
+      });
+      await createCase({
+        name: "Field assertions",
+        input: { text: "Great" },
+        assertions: [
+          { path: "label", op: "enum", value: ["positive", "neutral"] },
+          { path: "label", op: "regex", value: "^pos" },
+          { path: "tags", op: "contains", value: "happy" },
+          { path: "score", op: "approx", value: 0.9, tolerance: 0.05 },
+        ],
+      });
+      await createCase({
+        name: "Failing assertions",
+        input: { text: "Terrible" },
+        assertions: [
+          { path: "label", op: "equals", value: "negative" },
+          { path: "reason", op: "contains", value: "bad" },
+        ],
+      });
+      await createCase({ name: "Invalid input", input: { body: "no text" } });
+
+      const runRes = await createTestRequest(app, "POST", `${testsPath}/runs`, { body: {} });
+      expect(runRes.status).toBe(201);
+      const run = (await runRes.json()).data;
+
+      expect(run.version).toBeNull();
+      expect(run.total_cases).toBe(4);
+      expect(run.passed_cases).toBe(2);
+      expect(run.failed_cases).toBe(2);
+      expect(run.tokens_input).toBe(30);
+      expect(run.tokens_output).toBe(15);
+
+      const [golden, fields, failing, invalid] = run.results;
+      expect(golden.passed).toBe(true);
+      expect(fields.passed).toBe(true);
+      expect(failing.passed).toBe(false);
+      expect(failing.failures).toEqual([
+        { path: "label", op: "equals", message: 'Expected "negative", got "positive"' },
+        { path: "reason", op: "contains", message: "Field is missing" },
+      ]);
+      expect(invalid.error).toBe("Input does not match input_schema");
+      expect(mockServer.requests.length).toBe(3);
+
+      // Each LLM call is logged like live traffic, tagged with the run
+      const rows = await db.select().from(usageAnalytics);
+      expect(rows).toHaveLength(3);
+      for (const row of rows) {
+        expect(row.request_metadata).toMatchObject({ test_run_id: run.uuid });
+      }
+
+      const listRes = await createTestRequest(app, "GET", `${testsPath}/runs`);
+      expect((await listRes.json()).data).toHaveLength(1);
+
+      const getRes = await createTestRequest(app, "GET", `${testsPath}/runs/${run.uuid}`);
+      expect((await getRes.json()).data.results).toHaveLength(4);
+    });
+
+    it("should run against the published version or the draft", async () => {
+      await createCase({ name: "Any", input: { text: "hi" } });
+      await createTestRequest(app, "POST", `${endpointPath}/publish`, { body: {} });
+      await createTestRequest(app, "PUT", endpointPath, { body: { instructions: "Draft instructions" } });
+
+      const publishedRun = await createTestRequest(app, "POST", `${testsPath}/runs`, { body: {} });
+      expect((await publishedRun.json()).data.version).toBe(1);
+      expect(JSON.stringify(mockServer.requests[0])).toContain("Classify the sentiment");
+
+      const draftRun = await createTestRequest(app, "POST", `${testsPath}/runs`, { body: { version: "draft" } });
+      expect((await draftRun.json()).data.version).toBeNull();
+      expect(JSON.stringify(mockServer.requests[1])).toContain("Draft instructions");
+
+      const missing = await createTestRequest(app, "POST", `${testsPath}/runs`, { body: { version: 4 } });
+      expect(missing.status).toBe(404);
+    });
+
+    it("should refuse a run once the primary key's budget is spent", async () => {
+      await createCase({ name: "Any", input: { text: "hi" } });
+      await db.update(llmApiKeys).set({ monthly_budget_cents: 0 }).where(eq(llmApiKeys.uuid, keyId));
+
+      const res = await createTestRequest(app, "POST", `${testsPath}/runs`, { body: {} });
+      expect(res.status).toBe(402);
+      expect((await res.json()).budget.scope).toBe("key");
+      expect(mockServer.requests.length).toBe(0);
+    });
+
+    it("should reject a run without test cases", async () => {
+      const res = await createTestRequest(app, "POST", `${testsPath}/runs`, { body: {} });
+      expect(res.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { createTestApp, createTestRequest, testUser } from "./utils";
+import { cleanupTestUser } from "./utils/test-db";
+import { initDatabase } from "../src/db";
+
+describe("Tokens Routes", () => {
+  const app = createTestApp();
+  const userId = testUser.uid;
+  let projectId: string;
+
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanupTestUser(userId);
+
+    const projectRes = await createTestRequest(app, "POST", `/api/v1/users/${userId}/projects`, {
+      body: {
+        project_name: "test-project",
+        display_name: "Test Project",
+      },
+    });
+    const projectJson = await projectRes.json();
+    projectId = projectJson.data.uuid;
+  });
+
+  afterAll(async () => {
+    await cleanupTestUser(userId);
+  });
+
+  describe("POST /api/v1/users/:userId/projects/:projectId/tokens", () => {
+    it("should create token and return it once", async () => {
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+        { body: { token_name: "Production" } }
+      );
+      expect(res.status).toBe(201);
+
+      const json = await res.json();
+      expect(json.success).toBe(true);
+      expect(json.data.token_name).toBe("Production");
+      expect(json.data.token).toStartWith("sst_");
+      expect(json.data.token).toStartWith(json.data.token_prefix);
+      expect(json.data.is_active).toBe(true);
+      expect(json.data).not.toHaveProperty("token_hash");
+    });
+
+    it("should reject missing token_name", async () => {
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+        { body: {} }
+      );
+      expect(res.status).toBe(400);
+    });
+
+    it("should return 404 for non-existent project", async () => {
+      const res = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/00000000-0000-0000-0000-000000000000/tokens`,
+        { body: { token_name: "Production" } }
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/v1/users/:userId/projects/:projectId/tokens", () => {
+    it("should list tokens without exposing secrets", async () => {
+      await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+        { body: { token_name: "Production" } }
+      );
+
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens`
+      );
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data.length).toBe(1);
+      expect(json.data[0]).not.toHaveProperty("token");
+      expect(json.data[0]).not.toHaveProperty("token_hash");
+      expect(json.data[0].last_used_at).toBeNull();
+    });
+
+    it("should reject access to other user's tokens", async () => {
+      const res = await createTestRequest(
+        app,
+        "GET",
+        `/api/v1/users/other-user-id/projects/${projectId}/tokens`
+      );
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("DELETE /api/v1/users/:userId/projects/:projectId/tokens/:tokenId", () => {
+    it("should revoke token", async () => {
+      const createRes = await createTestRequest(
+        app,
+        "POST",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens`,
+        { body: { token_name: "Production" } }
+      );
+      const createJson = await createRes.json();
+      const tokenId = createJson.data.uuid;
+
+      const res = await createTestRequest(
+        app,
+        "DELETE",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens/${tokenId}`
+      );
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data.is_active).toBe(false);
+      expect(json.data.revoked_at).not.toBeNull();
+    });
+
+    it("should return 404 for non-existent token", async () => {
+      const res = await createTestRequest(
+        app,
+        "DELETE",
+        `/api/v1/users/${userId}/projects/${projectId}/tokens/00000000-0000-0000-0000-000000000000`
+      );
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -1,3 +1,4 @@
 export * from "./mock-auth";
 export * from "./test-db";
 export * from "./test-app";
+export * from "./mock-llm-server";
@@ -0,0 +1,177 @@
+/**
+ * Mock OpenAI-compatible LLM server for tests using llm_server keys
+ */
+export interface MockLlmServer {
+  /** Base URL to use as the key's endpoint_url (ends with /v1) */
+  url: string;
+  /** Parsed JSON bodies of every request received */
+  requests: Record<string, unknown>[];
+  /** Path and query of every request received */
+  urls: string[];
+  /** Headers of every request received */
+  headers: Headers[];
+  stop: () => void;
+}
+
+/**
+ * Failure modes for the mock server
+ */
+export interface MockLlmServerOptions {
+  /** Answer requests with this HTTP error status */
+  status?: number;
+  /** Only fail the first N requests with status (default: all of them) */
+  failures?: number;
+  /** Answer the first N requests before failing with status (default: 0) */
+  failAfter?: number;
+  /** Retry-After header to send with failures */
+  retryAfter?: string;
+  /** Answer with this raw message content instead of the JSON output */
+  content?: string;
+  /** Leave token usage out of the response */
+  omitUsage?: boolean;
+  /** Answer with a structured_response function call, as OpenAI does */
+  toolCalls?: boolean;
+  /** Answer in the Bedrock Converse format with a structured_response tool use
+   * (or, with content, a text block) */
+  converse?: boolean;
+  /** Answer in Ollama's /api/chat format, streaming as NDJSON */
+  ollama?: boolean;
+  /** Called with each request body before it is answered */
+  onRequest?: (body: Record<string, unknown>) => void | Promise<void>;
+  /** Answer with this body, built from the output, instead of a chat completion */
+  respond?: (output: unknown) => unknown;
+  /** Models listed by GET requests, as Ollama's /api/tags does */
+  models?: string[];
+}
+
+/**
+ * Start a mock server that answers each chat completion with the next
+ * queued output (the last output repeats once the queue is exhausted).
+ * Requests with "stream": true get the output as OpenAI-style SSE chunks.
+ */
+export function startMockLlmServer(
+  outputs: unknown[],
+  options: MockLlmServerOptions = {}
+): MockLlmServer {
+  const requests: Record<string, unknown>[] = [];
+  const urls: string[] = [];
+  const headers: Headers[] = [];
+  let callIndex = 0;
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      if (req.method === "GET") {
+        const url = new URL(req.url);
+        urls.push(url.pathname + url.search);
+        headers.push(req.headers);
+        return Response.json({
+          models: (options.models ?? []).map(name => ({
+            name,
+            size: 4_661_224_676,
+            modified_at: "2024-09-01T10:00:00Z",
+            details: { family: "llama", parameter_size: "8.0B", quantization_level: "Q4_0" },
+          })),
+        });
+      }
+      const body = (await req.json()) as Record<string, unknown>;
+      requests.push(body);
+      await options.onRequest?.(body);
+      const url = new URL(req.url);
+      urls.push(url.pathname + url.search);
+      headers.push(req.headers);
+      const failIndex = requests.length - (options.failAfter ?? 0);
+      if (options.status && failIndex > 0 && failIndex <= (options.failures ?? Infinity)) {
+        return new Response("mock failure", {
+          status: options.status,
+          headers: options.retryAfter ? { "Retry-After": options.retryAfter } : {},
+        });
+      }
+      const output = outputs[Math.min(callIndex++, outputs.length - 1)];
+      const text = options.content ?? JSON.stringify(output);
+
+      if (options.respond) {
+        return Response.json(options.respond(output));
+      }
+
+      if (options.ollama) {
+        const model = typeof body.model === "string" ? body.model : "llama3.1";
+        const counts = { prompt_eval_count: 10, eval_count: 5 };
+        if (!body.stream) {
+          return Response.json({
+            model,
+            message: { role: "assistant", content: text },
+            done: true,
+            ...counts,
+          });
+        }
+        const lines = (text.match(/.{1,8}/g) ?? []).map(piece =>
+          JSON.stringify({ model, message: { role: "assistant", content: piece }, done: false })
+        );
+        lines.push(JSON.stringify({ model, message: { role: "assistant", content: "" }, done: true, ...counts }));
+        return new Response(lines.join("\n") + "\n", {
+          headers: { "Content-Type": "application/x-ndjson" },
+        });
+      }
+
+      if (body.stream) {
+        const pieces = text.match(/.{1,8}/g) ?? [];
+        const events = pieces.map(
+          piece => `data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`
+        );
+        events.push(
+          `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } })}\n\n`,
+          "data: [DONE]\n\n"
+        );
+        return new Response(events.join(""), {
+          headers: { "Content-Type": "text/event-stream" },
+        });
+      }
+
+      if (options.converse) {
+        return Response.json({
+          output: {
+            message: {
+              role: "assistant",
+              content: options.content
+                ? [{ text: options.content }]
+                : [{ toolUse: { toolUseId: "tool_1", name: "structured_response", input: output } }],
+            },
+          },
+          stopReason: options.content ? "end_turn" : "tool_use",
+          usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        });
+      }
+
+      const message = options.toolCalls
+        ? {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: { name: "structured_response", arguments: text },
+              },
+            ],
+          }
+        : { role: "assistant", content: text };
+
+      return Response.json({
+        ...(options.toolCalls && { model: "gpt-4o-mini-2024-07-18" }),
+        choices: [{ message }],
+        ...(!options.omitUsage && {
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        }),
+      });
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}/v1`,
+    requests,
+    urls,
+    headers,
+    stop: () => server.stop(true),
+  };
+}
@@ -6,7 +6,13 @@ import {
   keysRouter,
   projectsRouter,
   endpointsRouter,
+  tokensRouter,
   analyticsRouter,
+  settingsRouter,
+  budgetsRouter,
+  testSuitesRouter,
+  requestLogsRouter,
+  pipelinesRouter,
   aiRouter,
 } from "../../src/routes";
 
@@ -41,11 +47,17 @@ export function createTestApp(mockUser: MockFirebaseUser = testUser) {
   adminRoutes.route("/users/:userId/keys", keysRouter);
   adminRoutes.route("/users/:userId/projects", projectsRouter);
   adminRoutes.route("/users/:userId/projects/:projectId/endpoints", endpointsRouter);
+  adminRoutes.route("/users/:userId/projects/:projectId/endpoints/:endpointId/tests", testSuitesRouter);
+  adminRoutes.route("/users/:userId/projects/:projectId/endpoints/:endpointId/logs", requestLogsRouter);
+  adminRoutes.route("/users/:userId/projects/:projectId/pipelines", pipelinesRouter);
+  adminRoutes.route("/users/:userId/projects/:projectId/tokens", tokensRouter);
   adminRoutes.route("/users/:userId/analytics", analyticsRouter);
+  adminRoutes.route("/users/:userId/settings", settingsRouter);
+  adminRoutes.route("/users/:userId/budgets", budgetsRouter);
 
   routes.route("/", adminRoutes);
 
-  // Consumer routes (public, no auth)
+  // Consumer routes (project token auth)
   routes.route("/ai", aiRouter);
 
   app.route("/api/v1", routes);
@@ -200,6 +200,8 @@ export async function createTestUsageAnalytics(
     tokens_output?: number;
     latency_ms?: number;
     estimated_cost_cents?: number;
+    request_metadata?: Record<string, unknown>;
+    timestamp?: Date;
   }
 ) {
   const rows = await db
@@ -212,6 +214,8 @@ export async function createTestUsageAnalytics(
       tokens_output: data.tokens_output ?? null,
       latency_ms: data.latency_ms ?? null,
       estimated_cost_cents: data.estimated_cost_cents ?? null,
+      request_metadata: data.request_metadata ?? null,
+      ...(data.timestamp && { timestamp: data.timestamp }),
     })
     .returning();
 